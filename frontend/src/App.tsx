@@ -1,13 +1,18 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { ChangeEvent } from 'react'
-import { MapContainer, Marker, Polyline, TileLayer, Tooltip, useMap } from 'react-leaflet'
+import { CircleMarker, MapContainer, Marker, Polyline, TileLayer, Tooltip, useMap } from 'react-leaflet'
 import L, { type LatLngExpression, type LeafletMouseEvent } from 'leaflet'
 import {
+  Area,
   CartesianGrid,
+  ComposedChart,
   Legend as RechartsLegend,
   Line,
   LineChart,
+  ReferenceLine,
   ResponsiveContainer,
+  Scatter,
+  ScatterChart,
   Tooltip as RechartsTooltip,
   XAxis,
   YAxis,
@@ -21,11 +26,32 @@ interface Coordinate {
   longitude: number
 }
 
+type CongestionSpeed = 'NORMAL' | 'SLOW' | 'TRAFFIC_JAM' | 'SPEED_UNSPECIFIED'
+
+interface RouteDeviation {
+  severity: number
+  distanceRatio: number | null
+  maxOffsetMeters: number | null
+  reasons: Array<'route-longer' | 'route-shorter' | 'off-segment'>
+}
+
+interface CongestionSpan {
+  speed: CongestionSpeed
+  startIndex: number
+  endIndex: number
+  startOffsetMeters: number
+  endOffsetMeters: number
+  points: Coordinate[]
+}
+
 interface TrafficSample {
   segmentId: string
   segmentName: string
   direction: 'forward' | 'reverse'
   requestedAt: string
+  pollId?: string | null
+  snapshotAt?: string | null
+  provider?: string | null
   origin: Coordinate
   destination: Coordinate
   distanceMeters: number | null
@@ -33,6 +59,8 @@ interface TrafficSample {
   staticDurationSeconds: number | null
   delaySeconds: number | null
   speedReadingIntervals: unknown
+  congestionSpans?: CongestionSpan[] | null
+  routeDeviation?: RouteDeviation | null
   routeLabels: string[] | null
   weather?: WeatherSnapshot | null
   lengthMeters?: number | null
@@ -40,13 +68,21 @@ interface TrafficSample {
   capacityVph?: number | null
   volumeCapacityRatio?: number | null
   derivedFlowVph?: number | null
+  derivedFlowLowerVph?: number | null
+  derivedFlowUpperVph?: number | null
   flowConfidence?: string | null
   allowedDirections?: Array<'forward' | 'reverse'> | null
+  configurationPeriod?: {
+    effectiveFrom: string | null
+    effectiveTo: string | null
+  } | null
   flowEstimationModel?: {
-    alpha: number
-    beta: number
+    type?: string
     source?: string
     notes?: string
+    alpha?: number
+    beta?: number
+    delayParameter?: number
   } | null
 }
 
@@ -76,16 +112,173 @@ const MAP_CENTER: LatLngExpression = [45.5189, 9.3247]
 const MAP_ZOOM = 16
 const SNAPSHOT_WINDOW_MINUTES = 5
 const CHART_GAP_THRESHOLD_WINDOWS = 6
+const CONGESTION_SPAN_STYLES: Partial<Record<CongestionSpeed, { color: string; label: string }>> = {
+  SLOW: { color: '#e67e22', label: 'Slow traffic' },
+  TRAFFIC_JAM: { color: '#e74c3c', label: 'Traffic jam' },
+}
 const BPR_ALPHA = 0.15
 const BPR_BETA = 4
 const DATA_URL = `${import.meta.env.BASE_URL}traffic_samples.jsonl`
+const GEOMETRY_URL = `${import.meta.env.BASE_URL}segment_geometry.json`
+const API_BASE_URL = ((import.meta.env.VITE_API_BASE_URL as string | undefined) ?? '').replace(/\/$/, '')
+
+interface SegmentConfigPeriod {
+  effectiveFrom: string | null
+  effectiveTo: string | null
+  allowedDirections: Array<'forward' | 'reverse'>
+}
+
+interface RouteNode extends Coordinate {
+  id: string
+  name: string
+}
+
+interface RouteLeg {
+  linkId: string
+  segmentName: string
+  direction: 'forward' | 'reverse'
+  travelTimeSeconds: number
+  observed: boolean
+  points: Coordinate[]
+}
+
+interface RouteTiming {
+  travelTimeSeconds: number
+  legs: RouteLeg[]
+  unobservedLinkIds: string[]
+}
+
+// Response of GET /routes/travel-time on the control server.
+interface RouteTravelTime {
+  from: RouteNode
+  to: RouteNode
+  at: string
+  timeZone: string
+  snapshot: (RouteTiming & { snapshotAt: string }) | null
+  typical: (RouteTiming & { hourOfWeek: number }) | null
+  freeFlow: RouteTiming
+  series: Array<{ snapshotAt: string; travelTimeSeconds: number; unobservedLinkCount: number }>
+  typicalWeek: Array<{ hourOfWeek: number; travelTimeSeconds: number | null }>
+}
+
+interface RouteChartPoint {
+  timestamp: number
+  observed: number
+  typical: number | null
+}
+
+interface ValidationStatistics {
+  windows: number
+  biasVph: number | null
+  rmseVph: number | null
+  withinGehShare: number | null
+  withinRangeShare: number | null
+}
+
+interface ValidationSegment extends ValidationStatistics {
+  segmentId: string
+  segmentName: string
+  directions: Array<'forward' | 'reverse'>
+  // GEH of the worst count window; GEH is never pooled across directions or windows.
+  geh: number
+  worstWindow: {
+    direction: 'forward' | 'reverse'
+    observationStart: string
+    observationEnd: string
+    observedFlowVph: number
+    derivedFlowVph: number
+  }
+  exceedsGeh: boolean
+}
+
+interface ValidationWindow {
+  segmentId: string
+  direction: 'forward' | 'reverse'
+  observationStart: string
+  observationEnd: string
+  observedFlowVph: number
+  derivedFlowVph: number
+  geh: number
+}
+
+// Response of GET /validation on the control server: derived flows against field counts.
+interface FlowValidation {
+  gehThreshold: number
+  minWithinGehShare: number
+  unmatchedCounts: number
+  overall: ValidationStatistics
+  segments: ValidationSegment[]
+  windows: ValidationWindow[]
+}
+
+interface ValidationScatterPoint {
+  observed: number
+  derived: number
+  label: string
+}
+
+// One entry of GET /incidents: a run of unusually slow samples on one link.
+interface Incident {
+  linkId: string
+  segmentId: string
+  segmentName: string
+  direction: 'forward' | 'reverse'
+  start: string
+  end: string
+  sampleCount: number
+  peakRatio: number
+  peakZScore: number
+  typicalRatio: number
+}
 
-const CONFIG_ALLOWED_DIRECTION_OVERRIDES: Record<string, Array<'forward' | 'reverse'>> = {
-  'via-milano': ['reverse'],
-  'via-filippo-corridoni': ['forward'],
-  'via-don-lorenzo-milani': ['forward'],
+// One entry of GET /typical: a sample scored against its link's typical week.
+interface TypicalScore {
+  segmentId: string
+  direction: 'forward' | 'reverse'
+  requestedAt: string
+  ratio: number
+  typicalRatio: number
+  zScore: number
+  basis: 'weekday' | 'weekdays' | 'weekend'
 }
 
+type ColorMode = 'absolute' | 'typical'
+
+interface ForecastErrors {
+  mae: number | null
+  rmse: number | null
+}
+
+// Response of GET /forecast on the control server: the next 2 hours of one link.
+interface SegmentForecast {
+  segmentId: string
+  direction: 'forward' | 'reverse'
+  issuedAt: string
+  halfLifeMinutes: number
+  weather: string | null
+  points: Array<{
+    horizonMinutes: number
+    at: string
+    ratio: number
+    typicalRatio: number | null
+    basis: 'profile' | 'latest'
+    durationSeconds: number
+  }>
+  backtest: {
+    horizons: Array<{
+      horizonMinutes: number
+      pairs: number
+      forecast: ForecastErrors
+      typical: ForecastErrors
+      persistence: ForecastErrors
+    }>
+  } | null
+}
+
+type SegmentTimelines = Map<string, SegmentConfigPeriod[]>
+// Imported street shapes, first endpoint → second (config/segment_geometry.json).
+type SegmentGeometry = Map<string, Coordinate[]>
+
 type TimeWindowPreset =
   | 'LAST_24_HOURS'
   | 'LAST_48_HOURS'
@@ -148,6 +341,21 @@ function formatCoordinate({ latitude, longitude }: Coordinate): string {
   return `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`
 }
 
+function resolveConfiguredDirections(
+  timelines: SegmentTimelines,
+  segmentId: string,
+  timestampMs: number,
+): Array<'forward' | 'reverse'> | undefined {
+  const timeline = timelines.get(segmentId)
+  if (!timeline || Number.isNaN(timestampMs)) return undefined
+  const period = timeline.find(({ effectiveFrom, effectiveTo }) => {
+    if (effectiveFrom && timestampMs < new Date(effectiveFrom).getTime()) return false
+    if (effectiveTo && timestampMs >= new Date(effectiveTo).getTime()) return false
+    return true
+  })
+  return period?.allowedDirections
+}
+
 function getRatio(sample: TrafficSample): number | null {
   if (sample.durationSeconds == null || sample.staticDurationSeconds == null) {
     return null
@@ -158,6 +366,14 @@ function getRatio(sample: TrafficSample): number | null {
   return sample.durationSeconds / sample.staticDurationSeconds
 }
 
+// Flow interval from the enrichment priors; samples enriched before it existed have none.
+function getFlowRange(sample: TrafficSample): [number, number] | null {
+  if (sample.derivedFlowLowerVph == null || sample.derivedFlowUpperVph == null) {
+    return null
+  }
+  return [sample.derivedFlowLowerVph, sample.derivedFlowUpperVph]
+}
+
 function getColorForRatio(ratio: number | null): string {
   if (ratio == null) return '#95a5a6'
   if (ratio <= 1.05) return '#2ecc71'
@@ -166,6 +382,16 @@ function getColorForRatio(ratio: number | null): string {
   return '#e74c3c'
 }
 
+// Standard deviations from the link's typical ratio at that time of the week.
+function getColorForZScore(score: TypicalScore | null): string {
+  if (score == null) return '#95a5a6'
+  if (score.zScore < -1) return '#3498db'
+  if (score.zScore <= 1) return '#2ecc71'
+  if (score.zScore <= 2) return '#f1c40f'
+  if (score.zScore <= 3) return '#e67e22'
+  return '#e74c3c'
+}
+
 function getWeightForRatio(ratio: number | null): number {
   if (ratio == null) return 4
   return Math.min(8, Math.max(3, ratio * 4))
@@ -191,6 +417,72 @@ function computeBearingDegrees(a: Coordinate, b: Coordinate): number {
   return ((bearing * 180) / Math.PI + 360) % 360
 }
 
+// Shape of the sample's route; the straight origin → destination line when no geometry was imported.
+function resolveSamplePath(geometry: SegmentGeometry, sample: TrafficSample): Coordinate[] {
+  const shape = geometry.get(sample.segmentId)
+  if (!shape || shape.length < 2) return [sample.origin, sample.destination]
+  return sample.direction === 'reverse' ? [...shape].reverse() : shape
+}
+
+function toLatLngs(points: Coordinate[]): LatLngExpression[] {
+  return points.map((point) => [point.latitude, point.longitude] as LatLngExpression)
+}
+
+function describeRouteDeviation(deviation: RouteDeviation): string {
+  const details = deviation.reasons.map((reason) => {
+    if (reason === 'off-segment') {
+      return `leaves the street by ${Math.round(deviation.maxOffsetMeters ?? 0)} m`
+    }
+    return `${(deviation.distanceRatio ?? 0).toFixed(1)}× the segment length`
+  })
+  return `Provider routed off the segment: ${details.join(', ')}. No flow is derived from this sample.`
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Mon: 0, Tue: 1, Wed: 2, Thu: 3, Fri: 4, Sat: 5, Sun: 6 }
+
+// Same numbering as the control server: 0 is Monday 00:00 in the study area's timezone.
+function hourOfWeek(ms: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', { weekday: 'short', hour: 'numeric', hourCycle: 'h23', timeZone })
+    .formatToParts(new Date(ms))
+  const weekday = parts.find((part) => part.type === 'weekday')?.value ?? 'Mon'
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0)
+  return (WEEKDAY_INDEX[weekday] ?? 0) * 24 + hour
+}
+
+// Scores are matched to the loaded samples by link and time.
+function typicalScoreKey(segmentId: string, direction: string, requestedAt: string): string {
+  return `${segmentId}-${direction}-${new Date(requestedAt).getTime()}`
+}
+
+function formatTypicalScore(score: TypicalScore | null): string {
+  if (score == null) return 'n/a'
+  const sign = score.zScore >= 0 ? '+' : '−'
+  return `${score.typicalRatio.toFixed(2)} (${sign}${Math.abs(score.zScore).toFixed(1)} σ, ${
+    score.basis === 'weekday' ? 'same weekday' : `other ${score.basis}`
+  })`
+}
+
+function formatTravelTime(seconds: number | null | undefined): string {
+  if (seconds == null) return 'n/a'
+  const rounded = Math.round(seconds)
+  return rounded < 60 ? `${rounded}s` : `${Math.floor(rounded / 60)} min ${String(rounded % 60).padStart(2, '0')}s`
+}
+
+function formatFlowVph(value: number | null | undefined, signed = false): string {
+  if (value == null) return 'n/a'
+  const rounded = Math.round(value)
+  return `${signed && rounded > 0 ? '+' : ''}${rounded} veh/h`
+}
+
+function formatShare(value: number | null | undefined): string {
+  return value == null ? 'n/a' : `${Math.round(value * 100)}%`
+}
+
+function formatHourOfWeek(hour: number): string {
+  const weekday = Object.keys(WEEKDAY_INDEX)[Math.floor(hour / 24)]
+  return `${weekday} ${String(hour % 24).padStart(2, '0')}:00`
+}
+
 interface SegmentGroup {
   segmentId: string
   segmentName: string
@@ -215,6 +507,31 @@ interface ChartPoint {
   reverseBaseline: number | null
   forwardFlow: number | null
   reverseFlow: number | null
+  forwardFlowRange: [number, number] | null
+  reverseFlowRange: [number, number] | null
+  forwardDeviation: number | null
+  reverseDeviation: number | null
+  forwardForecast: number | null
+  reverseForecast: number | null
+}
+
+function createEmptyChartPoint(timestamp: number): ChartPoint {
+  return {
+    timestamp,
+    label: formatTooltipTimestamp(timestamp),
+    forwardDuration: null,
+    reverseDuration: null,
+    forwardBaseline: null,
+    reverseBaseline: null,
+    forwardFlow: null,
+    reverseFlow: null,
+    forwardFlowRange: null,
+    reverseFlowRange: null,
+    forwardDeviation: null,
+    reverseDeviation: null,
+    forwardForecast: null,
+    reverseForecast: null,
+  }
 }
 
 function MapCursorTracker({
@@ -250,6 +567,22 @@ function MapCursorTracker({
   return null
 }
 
+function RouteClickCapture({ onPick }: { onPick: (coordinate: Coordinate) => void }) {
+  const map = useMap()
+
+  useEffect(() => {
+    const handleClick = (event: LeafletMouseEvent) => {
+      onPick({ latitude: event.latlng.lat, longitude: event.latlng.lng })
+    }
+    map.on('click', handleClick)
+    return () => {
+      map.off('click', handleClick)
+    }
+  }, [map, onPick])
+
+  return null
+}
+
 function formatTooltipTimestamp(ms: number): string {
   const date = new Date(ms)
   if (Number.isNaN(date.getTime())) return ''
@@ -264,8 +597,7 @@ function formatTooltipTimestamp(ms: number): string {
 function SegmentCard({ group, activeKey, onHover, onRequestChart, cardRef }: SegmentCardProps) {
   const allowedDirections = group.allowedDirections && group.allowedDirections.length > 0
     ? (group.allowedDirections as Array<'forward' | 'reverse'>)
-    : (CONFIG_ALLOWED_DIRECTION_OVERRIDES[group.segmentId] as Array<'forward' | 'reverse'> | undefined) ??
-      (['forward', 'reverse'] as Array<'forward' | 'reverse'>)
+    : (['forward', 'reverse'] as Array<'forward' | 'reverse'>)
   const allowedSet = new Set(allowedDirections)
   const visibleDirections = group.directions
     .slice()
@@ -279,6 +611,7 @@ function SegmentCard({ group, activeKey, onHover, onRequestChart, cardRef }: Seg
   const lengthMeters = baseSample?.lengthMeters ?? null
   const capacityVph = baseSample?.capacityVph ?? null
   const freeFlowSpeedKph = baseSample?.freeFlowSpeedKph ?? null
+  const provider = baseSample?.provider ?? null
   const isOneWay = allowedDirections.length === 1
   const oneWayDirection = isOneWay ? allowedDirections[0] : null
   let oneWayLabel: string | null = null
@@ -346,11 +679,12 @@ function SegmentCard({ group, activeKey, onHover, onRequestChart, cardRef }: Seg
           </div>
         </div>
       )}
-      {(lengthMeters != null || capacityVph != null || freeFlowSpeedKph != null) && (
+      {(lengthMeters != null || capacityVph != null || freeFlowSpeedKph != null || provider) && (
         <div className="segment-capacity">
           {lengthMeters != null && <span>Length {Math.round(lengthMeters)} m</span>}
           {freeFlowSpeedKph != null && <span>Free-flow {freeFlowSpeedKph.toFixed(1)} km/h</span>}
           {capacityVph != null && <span>Capacity {Math.round(capacityVph)} veh/h</span>}
+          {provider && <span>Source {provider}</span>}
         </div>
       )}
       <div className="direction-stats">
@@ -363,8 +697,12 @@ function SegmentCard({ group, activeKey, onHover, onRequestChart, cardRef }: Seg
                 : null
             const isActive = activeKey === segmentKey
             const flowVph = sample.derivedFlowVph ?? null
+            const flowRange = getFlowRange(sample)
             const volumeCapacityRatio = sample.volumeCapacityRatio ?? null
             const rawFlowConfidence = sample.flowConfidence ?? null
+            const flowModelTooltip = `Estimated directional flow from ${
+              sample.flowEstimationModel?.source ?? 'BPR'
+            } travel-time model; the range below spans its priors`
             const normalizedFlowConfidence = rawFlowConfidence
               ? rawFlowConfidence.toLowerCase()
               : 'unknown'
@@ -387,6 +725,14 @@ function SegmentCard({ group, activeKey, onHover, onRequestChart, cardRef }: Seg
                     {formatCoordinate(sample.origin)} <span className="direction-arrow">→</span>{' '}
                     {formatCoordinate(sample.destination)}
                   </span>
+                  {sample.routeDeviation && (
+                    <span
+                      className={`direction-deviation${sample.routeDeviation.severity >= 0.5 ? ' is-severe' : ''}`}
+                      title={describeRouteDeviation(sample.routeDeviation)}
+                    >
+                      ⚠️ Route deviation · severity {sample.routeDeviation.severity.toFixed(2)}
+                    </span>
+                  )}
                 </div>
                 <dl>
                   <div>
@@ -457,13 +803,20 @@ function SegmentCard({ group, activeKey, onHover, onRequestChart, cardRef }: Seg
                       <span
                         className="info-icon"
                         tabIndex={0}
-                        aria-label="Estimated directional flow from BPR travel-time model"
-                        data-tooltip="Estimated directional flow from BPR travel-time model"
+                        aria-label={flowModelTooltip}
+                        data-tooltip={flowModelTooltip}
                       >
                         i
                       </span>
                     </dt>
-                    <dd>{flowVph != null ? `${Math.round(flowVph)} veh/h` : 'n/a'}</dd>
+                    <dd>
+                      {flowVph != null ? `${Math.round(flowVph)} veh/h` : 'n/a'}
+                      {flowRange && (
+                        <span className="flow-range">
+                          {Math.round(flowRange[0])}–{Math.round(flowRange[1])}
+                        </span>
+                      )}
+                    </dd>
                   </div>
                   <div>
                     <dt>
@@ -522,6 +875,16 @@ function normaliseTimestampToWindow(value: string): string {
   return date.toISOString()
 }
 
+// Samples from one poll run share a pollId and snapshot time; older rows predate both and
+// are grouped into fixed time windows instead.
+function resolveSnapshotGroup(sample: TrafficSample): { id: string; key: string } {
+  if (sample.pollId && sample.snapshotAt) {
+    return { id: sample.pollId, key: sample.snapshotAt }
+  }
+  const key = normaliseTimestampToWindow(sample.requestedAt)
+  return { id: key, key }
+}
+
 export default function App() {
   const [samples, setSamples] = useState<TrafficSample[]>([])
   const [snapshotKey, setSnapshotKey] = useState<string | null>(null)
@@ -542,6 +905,20 @@ export default function App() {
   const [chartRangeEndMs, setChartRangeEndMs] = useState<number | null>(null)
   const [mapCursorCoordinate, setMapCursorCoordinate] = useState<Coordinate | null>(null)
   const [guideLanguage, setGuideLanguage] = useState<'en' | 'it'>('en')
+  const [segmentTimelines, setSegmentTimelines] = useState<SegmentTimelines>(() => new Map())
+  const [segmentGeometry, setSegmentGeometry] = useState<SegmentGeometry>(() => new Map())
+  const [isRoutePickActive, setIsRoutePickActive] = useState(false)
+  const [routePoints, setRoutePoints] = useState<Coordinate[]>([])
+  const [routeResult, setRouteResult] = useState<RouteTravelTime | null>(null)
+  const [routeError, setRouteError] = useState<string | null>(null)
+  const [validation, setValidation] = useState<FlowValidation | null>(null)
+  const [validationError, setValidationError] = useState<string | null>(null)
+  const [incidents, setIncidents] = useState<Incident[] | null>(null)
+  const [incidentsError, setIncidentsError] = useState<string | null>(null)
+  const [colorMode, setColorMode] = useState<ColorMode>('absolute')
+  const [typicalScores, setTypicalScores] = useState<Map<string, TypicalScore> | null>(null)
+  const [typicalError, setTypicalError] = useState<string | null>(null)
+  const [chartForecasts, setChartForecasts] = useState<SegmentForecast[]>([])
 
   const autogrillIcon = useMemo(
     () =>
@@ -571,15 +948,16 @@ export default function App() {
         map.set(sample.segmentId, { directions: normalized, timestamp: requestedAt })
       }
     }
-    for (const [segmentId, directions] of Object.entries(CONFIG_ALLOWED_DIRECTION_OVERRIDES)) {
-      if (!map.has(segmentId)) {
-        map.set(segmentId, { directions, timestamp: Number.NEGATIVE_INFINITY })
+    for (const [segmentId, timeline] of segmentTimelines.entries()) {
+      const current = timeline.find((period) => period.effectiveTo == null)
+      if (current) {
+        map.set(segmentId, { directions: current.allowedDirections, timestamp: Number.POSITIVE_INFINITY })
       }
     }
     return new Map<string, Array<'forward' | 'reverse'>>(
       Array.from(map.entries(), ([segmentId, value]) => [segmentId, value.directions]),
     )
-  }, [samples])
+  }, [samples, segmentTimelines])
 
   const handleMapCursorMove = useCallback((coordinate: Coordinate) => {
     setMapCursorCoordinate(coordinate)
@@ -618,19 +996,51 @@ export default function App() {
     loadSamples()
   }, [loadSamples])
 
+  useEffect(() => {
+    if (!API_BASE_URL) return
+    const controller = new AbortController()
+    fetch(`${API_BASE_URL}/segments/config`, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload: { segments?: Array<{ segmentId: string; timeline: SegmentConfigPeriod[] }> } | null) => {
+        if (!payload?.segments) return
+        setSegmentTimelines(
+          new Map(payload.segments.map((segment) => [segment.segmentId, segment.timeline])),
+        )
+      })
+      .catch(() => {
+        // Without the control server the directions stamped on each sample are used instead.
+      })
+    return () => controller.abort()
+  }, [])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    fetch(GEOMETRY_URL, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload: { segments?: Record<string, { points: Coordinate[] }> } | null) => {
+        if (!payload?.segments) return
+        setSegmentGeometry(
+          new Map(Object.entries(payload.segments).map(([segmentId, entry]) => [segmentId, entry.points])),
+        )
+      })
+      .catch(() => {
+        // Without imported geometry segments are drawn as straight endpoint lines.
+      })
+    return () => controller.abort()
+  }, [])
+
   const snapshotGroupsAsc: SnapshotGroup[] = useMemo(() => {
-    const bucket = new Map<string, TrafficSample[]>()
+    const bucket = new Map<string, SnapshotGroup>()
     for (const sample of samples) {
-      const key = normaliseTimestampToWindow(sample.requestedAt)
-      const collection = bucket.get(key)
-      if (collection) {
-        collection.push(sample)
+      const { id, key } = resolveSnapshotGroup(sample)
+      const group = bucket.get(id)
+      if (group) {
+        group.samples.push(sample)
       } else {
-        bucket.set(key, [sample])
+        bucket.set(id, { key, samples: [sample] })
       }
     }
-    const entries = Array.from(bucket.entries()).sort((a, b) => a[0].localeCompare(b[0]))
-    return entries.map(([key, groupedSamples]) => ({ key, samples: groupedSamples }))
+    return Array.from(bucket.values()).sort((a, b) => a.key.localeCompare(b.key))
   }, [samples])
 
   const earliestGroupKey = snapshotGroupsAsc.length > 0 ? snapshotGroupsAsc[0].key : null
@@ -720,6 +1130,125 @@ export default function App() {
     [visibleSnapshotGroupsAsc],
   )
 
+  useEffect(() => {
+    if (!API_BASE_URL || routePoints.length < 2) return
+    const controller = new AbortController()
+    const [start, end] = routePoints
+    const params = new URLSearchParams({
+      from: `${start.latitude},${start.longitude}`,
+      to: `${end.latitude},${end.longitude}`,
+    })
+    if (snapshotKey) params.set('at', snapshotKey)
+    if (rangeStartMs != null) params.set('since', new Date(rangeStartMs).toISOString())
+    if (rangeEndMs != null) params.set('until', new Date(rangeEndMs).toISOString())
+    fetch(`${API_BASE_URL}/routes/travel-time?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        const payload = await response.json()
+        if (!response.ok) {
+          throw new Error(payload?.message ?? `Route query failed: ${response.status}`)
+        }
+        setRouteResult(payload as RouteTravelTime)
+        setRouteError(null)
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        setRouteResult(null)
+        setRouteError(err instanceof Error ? err.message : 'Route query failed')
+      })
+    return () => controller.abort()
+  }, [routePoints, snapshotKey, rangeStartMs, rangeEndMs])
+
+  useEffect(() => {
+    if (!API_BASE_URL) return
+    const controller = new AbortController()
+    const params = new URLSearchParams()
+    if (rangeStartMs != null) params.set('from', new Date(rangeStartMs).toISOString())
+    if (rangeEndMs != null) params.set('to', new Date(rangeEndMs).toISOString())
+    fetch(`${API_BASE_URL}/validation?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        const payload = await response.json()
+        if (!response.ok) {
+          throw new Error(payload?.message ?? `Validation query failed: ${response.status}`)
+        }
+        setValidation(payload as FlowValidation)
+        setValidationError(null)
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        setValidation(null)
+        setValidationError(err instanceof Error ? err.message : 'Validation query failed')
+      })
+    return () => controller.abort()
+  }, [rangeStartMs, rangeEndMs])
+
+  useEffect(() => {
+    if (!API_BASE_URL) return
+    const controller = new AbortController()
+    const params = new URLSearchParams()
+    if (rangeStartMs != null) params.set('from', new Date(rangeStartMs).toISOString())
+    if (rangeEndMs != null) params.set('to', new Date(rangeEndMs).toISOString())
+    fetch(`${API_BASE_URL}/incidents?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        const payload = await response.json()
+        if (!response.ok) {
+          throw new Error(payload?.message ?? `Incident query failed: ${response.status}`)
+        }
+        setIncidents((payload as { incidents: Incident[] }).incidents)
+        setIncidentsError(null)
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        setIncidents(null)
+        setIncidentsError(err instanceof Error ? err.message : 'Incident query failed')
+      })
+    return () => controller.abort()
+  }, [rangeStartMs, rangeEndMs])
+
+  const validationScatter = useMemo(() => {
+    if (!validation) return { within: [], beyond: [], maxFlow: 0 }
+    const names = new Map(validation.segments.map((segment) => [segment.segmentId, segment.segmentName]))
+    const within: ValidationScatterPoint[] = []
+    const beyond: ValidationScatterPoint[] = []
+    let maxFlow = 0
+    for (const entry of validation.windows) {
+      const point = {
+        observed: Math.round(entry.observedFlowVph),
+        derived: Math.round(entry.derivedFlowVph),
+        label: `${names.get(entry.segmentId) ?? entry.segmentId} ${entry.direction}, ${formatTooltipTimestamp(
+          new Date(entry.observationStart).getTime(),
+        )}`,
+      }
+      const series = entry.geh > validation.gehThreshold ? beyond : within
+      series.push(point)
+      maxFlow = Math.max(maxFlow, point.observed, point.derived)
+    }
+    return { within, beyond, maxFlow: Math.ceil(maxFlow / 100) * 100 || 100 }
+  }, [validation])
+
+  const validationOutliers = useMemo(
+    () => validation?.segments.filter((segment) => segment.exceedsGeh) ?? [],
+    [validation],
+  )
+
+  const routeChartData: RouteChartPoint[] = useMemo(() => {
+    if (!routeResult) return []
+    const typicalByHour = new Map(
+      routeResult.typicalWeek.map((entry) => [entry.hourOfWeek, entry.travelTimeSeconds]),
+    )
+    return routeResult.series.map((entry) => {
+      const timestamp = new Date(entry.snapshotAt).getTime()
+      const typical = typicalByHour.get(hourOfWeek(timestamp, routeResult.timeZone))
+      return {
+        timestamp,
+        observed: Math.round(entry.travelTimeSeconds),
+        typical: typical != null ? Math.round(typical) : null,
+      }
+    })
+  }, [routeResult])
+
+  // The route as timed by the selected snapshot, else the typical hour, else at free flow.
+  const routeTiming = routeResult ? routeResult.snapshot ?? routeResult.typical ?? routeResult.freeFlow : null
+
   const earliestInputValue = useMemo(
     () => formatDatetimeLocalInput(earliestGroupKey ? new Date(earliestGroupKey) : null),
     [earliestGroupKey],
@@ -841,6 +1370,35 @@ export default function App() {
     return group?.samples ?? []
   }, [snapshotGroupsAsc, snapshotKey])
 
+  // Scores of the shown snapshot against the typical week of the server's whole history.
+  useEffect(() => {
+    if (!API_BASE_URL || colorMode !== 'typical' || samplesForSnapshot.length === 0) return
+    const controller = new AbortController()
+    const times = samplesForSnapshot.map((sample) => new Date(sample.requestedAt).getTime())
+    const params = new URLSearchParams({
+      from: new Date(Math.min(...times)).toISOString(),
+      to: new Date(Math.max(...times)).toISOString(),
+    })
+    fetch(`${API_BASE_URL}/typical?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        const payload = await response.json()
+        if (!response.ok) {
+          throw new Error(payload?.message ?? `Typical-week query failed: ${response.status}`)
+        }
+        const scores = (payload as { scores: TypicalScore[] }).scores
+        setTypicalScores(
+          new Map(scores.map((score) => [typicalScoreKey(score.segmentId, score.direction, score.requestedAt), score])),
+        )
+        setTypicalError(null)
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        setTypicalScores(null)
+        setTypicalError(err instanceof Error ? err.message : 'Typical-week query failed')
+      })
+    return () => controller.abort()
+  }, [colorMode, samplesForSnapshot])
+
   const sliderMax = Math.max(visibleSnapshotGroupsAsc.length - 1, 0)
 
   const allTraces: SegmentTrace[] = useMemo(() => {
@@ -850,16 +1408,13 @@ export default function App() {
       if (registry.has(key)) continue
       registry.set(key, {
         key,
-        positions: [
-          [sample.origin.latitude, sample.origin.longitude],
-          [sample.destination.latitude, sample.destination.longitude],
-        ],
+        positions: toLatLngs(resolveSamplePath(segmentGeometry, sample)),
         segmentName: sample.segmentName,
         direction: sample.direction,
       })
     }
     return Array.from(registry.values())
-  }, [samples])
+  }, [samples, segmentGeometry])
 
   const handleTimePresetChange = (event: ChangeEvent<HTMLSelectElement>) => {
     const value = event.target.value as TimeWindowPreset
@@ -929,6 +1484,28 @@ export default function App() {
     [],
   )
 
+  const handleRoutePick = useCallback((coordinate: Coordinate) => {
+    setRoutePoints((current) => {
+      const next = current.length >= 2 ? [coordinate] : [...current, coordinate]
+      if (next.length === 2) setIsRoutePickActive(false)
+      return next
+    })
+  }, [])
+
+  const handleToggleRoutePick = useCallback(() => {
+    setIsRoutePickActive((active) => !active)
+    setRoutePoints([])
+    setRouteResult(null)
+    setRouteError(null)
+  }, [])
+
+  const handleClearRoute = useCallback(() => {
+    setIsRoutePickActive(false)
+    setRoutePoints([])
+    setRouteResult(null)
+    setRouteError(null)
+  }, [])
+
   const handleOpenDoc = useCallback(() => {
     setIsDocOpen(true)
   }, [])
@@ -948,7 +1525,11 @@ export default function App() {
       }
     >()
     for (const sample of samplesForSnapshot) {
-      const overrideAllowed = CONFIG_ALLOWED_DIRECTION_OVERRIDES[sample.segmentId]
+      const overrideAllowed = resolveConfiguredDirections(
+        segmentTimelines,
+        sample.segmentId,
+        new Date(sample.requestedAt).getTime(),
+      )
       const sampleAllowed =
         Array.isArray(sample.allowedDirections) && sample.allowedDirections.length > 0
           ? (sample.allowedDirections as Array<'forward' | 'reverse'>)
@@ -992,7 +1573,7 @@ export default function App() {
         allowedDirections,
       }))
       .sort((a, b) => a.segmentName.localeCompare(b.segmentName))
-  }, [samplesForSnapshot, latestAllowedDirections])
+  }, [samplesForSnapshot, latestAllowedDirections, segmentTimelines])
 
   useEffect(() => {
     setHoveredSegmentKey(null)
@@ -1063,7 +1644,7 @@ export default function App() {
         }
       }
 
-      const overrideAllowed = CONFIG_ALLOWED_DIRECTION_OVERRIDES[chartSegmentId]
+      const overrideAllowed = resolveConfiguredDirections(segmentTimelines, chartSegmentId, bucketMs)
       const fallbackLatest = latestAllowedDirections.get(chartSegmentId) as
         | Array<'forward' | 'reverse'>
         | undefined
@@ -1087,11 +1668,19 @@ export default function App() {
         reverseBaseline: allowedSet.has('reverse') ? reverseSample?.staticDurationSeconds ?? null : null,
         forwardFlow: allowedSet.has('forward') ? forwardSample?.derivedFlowVph ?? null : null,
         reverseFlow: allowedSet.has('reverse') ? reverseSample?.derivedFlowVph ?? null : null,
+        forwardFlowRange: allowedSet.has('forward') && forwardSample ? getFlowRange(forwardSample) : null,
+        reverseFlowRange: allowedSet.has('reverse') && reverseSample ? getFlowRange(reverseSample) : null,
+        forwardDeviation:
+          allowedSet.has('forward') && forwardSample?.routeDeviation ? forwardSample.durationSeconds ?? null : null,
+        reverseDeviation:
+          allowedSet.has('reverse') && reverseSample?.routeDeviation ? reverseSample.durationSeconds ?? null : null,
+        forwardForecast: null,
+        reverseForecast: null,
       })
     }
 
     return points.sort((a, b) => a.timestamp - b.timestamp)
-  }, [chartSegmentId, isChartOpen, snapshotGroupsAsc, latestAllowedDirections])
+  }, [chartSegmentId, isChartOpen, snapshotGroupsAsc, latestAllowedDirections, segmentTimelines])
 
   const chartBasePoints = chartAllPoints
 
@@ -1126,6 +1715,58 @@ export default function App() {
     setChartRangeStartMs(targetStart)
     setChartRangeEndMs(targetEnd)
   }, [isChartOpen, chartSegmentId, chartAllPoints, rangeStartMs, rangeEndMs])
+  useEffect(() => {
+    if (!API_BASE_URL || !isChartOpen || !chartSegmentId) {
+      setChartForecasts([])
+      return
+    }
+    const controller = new AbortController()
+    // A direction without samples answers 404; the chart then simply has no forecast for it.
+    Promise.all(
+      (['forward', 'reverse'] as const).map((direction) =>
+        fetch(`${API_BASE_URL}/forecast?${new URLSearchParams({ segmentId: chartSegmentId, direction })}`, {
+          signal: controller.signal,
+        }).then(async (response) => (response.ok ? ((await response.json()) as SegmentForecast) : null)),
+      ),
+    )
+      .then((forecasts) => {
+        setChartForecasts(forecasts.filter((forecast): forecast is SegmentForecast => forecast != null))
+      })
+      .catch(() => {
+        if (controller.signal.aborted) return
+        setChartForecasts([])
+      })
+    return () => controller.abort()
+  }, [isChartOpen, chartSegmentId])
+
+  // Forecast steps after the latest sample, shown while the chart range reaches it.
+  const chartForecastPoints: ChartPoint[] = useMemo(() => {
+    const latestMs = chartBasePoints[chartBasePoints.length - 1]?.timestamp
+    if (!chartSegmentId || latestMs == null) return []
+    if (chartRangeEndMs != null && chartRangeEndMs < latestMs) return []
+    const allowed = latestAllowedDirections.get(chartSegmentId) ?? ['forward', 'reverse']
+    return chartForecasts
+      .filter((forecast) => allowed.includes(forecast.direction))
+      .flatMap((forecast) =>
+        forecast.points.map((point) => ({
+          ...createEmptyChartPoint(new Date(point.at).getTime()),
+          forwardForecast: forecast.direction === 'forward' ? Math.round(point.durationSeconds) : null,
+          reverseForecast: forecast.direction === 'reverse' ? Math.round(point.durationSeconds) : null,
+        })),
+      )
+      .sort((a, b) => a.timestamp - b.timestamp)
+  }, [chartBasePoints, chartForecasts, chartRangeEndMs, chartSegmentId, latestAllowedDirections])
+
+  const chartForecastNote = useMemo(() => {
+    const horizon = chartForecasts[0]?.backtest?.horizons.find((entry) => entry.horizonMinutes === 30)
+    if (chartForecastPoints.length === 0 || !horizon || horizon.forecast.mae == null) return null
+    return (
+      `Backtest on held-out history, 30 min ahead: mean ratio error ${horizon.forecast.mae.toFixed(3)} ` +
+      `(typical week alone ${horizon.typical.mae?.toFixed(3) ?? 'n/a'}, ` +
+      `latest ratio carried forward ${horizon.persistence.mae?.toFixed(3) ?? 'n/a'}).`
+    )
+  }, [chartForecasts, chartForecastPoints])
+
   const chartData: ChartPoint[] = useMemo(() => {
     if (!chartSegmentId || !isChartOpen) return []
 
@@ -1135,10 +1776,6 @@ export default function App() {
       return true
     })
 
-    if (filtered.length <= 1) {
-      return filtered
-    }
-
     const gapThresholdMs = SNAPSHOT_WINDOW_MINUTES * CHART_GAP_THRESHOLD_WINDOWS * 60 * 1000
     const withBreaks: ChartPoint[] = []
 
@@ -1149,22 +1786,22 @@ export default function App() {
       if (!next) continue
       const delta = next.timestamp - current.timestamp
       if (delta > gapThresholdMs) {
-        const breakpointTs = current.timestamp + Math.floor(delta / 2)
-        withBreaks.push({
-          timestamp: breakpointTs,
-          label: formatTooltipTimestamp(breakpointTs),
-          forwardDuration: null,
-          reverseDuration: null,
-          forwardBaseline: null,
-          reverseBaseline: null,
-          forwardFlow: null,
-          reverseFlow: null,
-        })
+        withBreaks.push(createEmptyChartPoint(current.timestamp + Math.floor(delta / 2)))
       }
     }
 
-    return withBreaks
-  }, [chartSegmentId, isChartOpen, chartBasePoints, chartRangeStartMs, chartRangeEndMs])
+    if (withBreaks.length === 0 || chartForecastPoints.length === 0) {
+      return withBreaks
+    }
+    // The forecast lines start at the last observed durations, so they read as a continuation.
+    const last = withBreaks[withBreaks.length - 1]
+    withBreaks[withBreaks.length - 1] = {
+      ...last,
+      forwardForecast: chartForecastPoints.some((point) => point.forwardForecast != null) ? last.forwardDuration : null,
+      reverseForecast: chartForecastPoints.some((point) => point.reverseForecast != null) ? last.reverseDuration : null,
+    }
+    return [...withBreaks, ...chartForecastPoints]
+  }, [chartSegmentId, isChartOpen, chartBasePoints, chartRangeStartMs, chartRangeEndMs, chartForecastPoints])
 
   const availableChartDays = useMemo(() => {
     const map = new Map<string, { key: string; label: string; start: number }>()
@@ -1217,12 +1854,13 @@ export default function App() {
     const defaultStart = chartBasePoints[0]?.timestamp ?? null
     const defaultEnd = chartBasePoints[chartBasePoints.length - 1]?.timestamp ?? null
     const start = chartRangeStartMs ?? defaultStart
-    const end = chartRangeEndMs ?? defaultEnd
+    const observedEnd = chartRangeEndMs ?? defaultEnd
+    const end = chartForecastPoints[chartForecastPoints.length - 1]?.timestamp ?? observedEnd
     if (start == null || end == null || start >= end) {
       return ['auto', 'auto']
     }
     return [start, end]
-  }, [chartBasePoints, chartSegmentId, isChartOpen, chartRangeStartMs, chartRangeEndMs])
+  }, [chartBasePoints, chartSegmentId, isChartOpen, chartRangeStartMs, chartRangeEndMs, chartForecastPoints])
 
   const chartRangeStartValue = chartRangeStartMs != null
     ? formatDatetimeLocalInput(new Date(chartRangeStartMs))
@@ -1308,14 +1946,16 @@ export default function App() {
     const sample = samplesForSnapshot.find(
       (item) => item.segmentId === segmentId && item.direction === direction,
     )
-    if (!sample) return null
-    const start = sample.origin
-    const end = sample.destination
-    if (!start || !end) return null
+    if (!sample || !sample.origin || !sample.destination) return null
+    // The arrow sits on the middle leg of the shape, pointing along it.
+    const path = resolveSamplePath(segmentGeometry, sample)
+    const middleIndex = Math.floor((path.length - 1) / 2)
+    const start = path[middleIndex]
+    const end = path[middleIndex + 1]
     const midpoint = computeMidpoint(start, end)
     const bearing = computeBearingDegrees(start, end)
     return { midpoint, bearing }
-  }, [hoveredSegmentKey, samplesForSnapshot])
+  }, [hoveredSegmentKey, samplesForSnapshot, segmentGeometry])
 
   const arrowIcon = useMemo(() => {
     if (!hoveredDirectionOverlay) return null
@@ -1454,6 +2094,7 @@ export default function App() {
           <div className="map-wrapper">
             <MapContainer center={MAP_CENTER} zoom={MAP_ZOOM} scrollWheelZoom style={{ height: '100%', width: '100%' }}>
               <MapCursorTracker onMove={handleMapCursorMove} onLeave={handleMapCursorLeave} />
+              {isRoutePickActive && <RouteClickCapture onPick={handleRoutePick} />}
               <TileLayer
                 attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
                 url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
@@ -1468,15 +2109,18 @@ export default function App() {
               ))}
               {samplesForSnapshot.map((sample) => {
                 const ratio = getRatio(sample)
-                const color = getColorForRatio(ratio)
+                const typicalScore =
+                  typicalScores?.get(typicalScoreKey(sample.segmentId, sample.direction, sample.requestedAt)) ?? null
+                const color = colorMode === 'typical' ? getColorForZScore(typicalScore) : getColorForRatio(ratio)
                 const weight = getWeightForRatio(ratio)
                 const segmentKey = `${sample.segmentId}-${sample.direction}`
               const isActive = hoveredSegmentKey === segmentKey
-              const positions: LatLngExpression[] = [
-                [sample.origin.latitude, sample.origin.longitude],
-                [sample.destination.latitude, sample.destination.longitude],
-              ]
-              const overrideAllowed = CONFIG_ALLOWED_DIRECTION_OVERRIDES[sample.segmentId]
+              const positions = toLatLngs(resolveSamplePath(segmentGeometry, sample))
+              const overrideAllowed = resolveConfiguredDirections(
+                segmentTimelines,
+                sample.segmentId,
+                new Date(sample.requestedAt).getTime(),
+              )
               const allowedDirectionsSample =
                 overrideAllowed ??
                 (Array.isArray(sample.allowedDirections) && sample.allowedDirections.length > 0
@@ -1486,10 +2130,13 @@ export default function App() {
                 return null
               }
               const isOneWaySample = allowedDirectionsSample.length === 1
+              const congestedSpans = (sample.congestionSpans ?? []).filter(
+                (span) => CONGESTION_SPAN_STYLES[span.speed] && span.points.length >= 2,
+              )
 
               return (
+                <Fragment key={segmentKey}>
                 <Polyline
-                  key={segmentKey}
                   positions={positions}
                   pathOptions={{
                     color: isActive ? '#2563eb' : color,
@@ -1513,6 +2160,12 @@ export default function App() {
                       {sample.staticDurationSeconds != null ? `${sample.staticDurationSeconds}s` : 'n/a'}
                       <br />
                       Ratio: {getRatio(sample)?.toFixed(2) ?? 'n/a'}
+                      {colorMode === 'typical' && (
+                        <>
+                          <br />
+                          Typical: {formatTypicalScore(typicalScore)}
+                        </>
+                      )}
                       {isOneWaySample && (
                         <>
                           <br />
@@ -1521,6 +2174,27 @@ export default function App() {
                       )}
                     </Tooltip>
                   </Polyline>
+                  {congestedSpans.map((span) => {
+                    const style = CONGESTION_SPAN_STYLES[span.speed]!
+                    return (
+                      <Polyline
+                        key={`${segmentKey}-span-${span.startIndex}`}
+                        positions={toLatLngs(span.points)}
+                        pathOptions={{ color: style.color, weight: weight + 2, opacity: 0.95, lineCap: 'butt' }}
+                        eventHandlers={{
+                          click: () => handleMapSegmentClick(sample.segmentId, sample.direction),
+                        }}
+                      >
+                        <Tooltip sticky>
+                          <strong>{sample.segmentName}</strong>
+                          <br />
+                          {style.label} · {Math.round(span.startOffsetMeters)}–{Math.round(span.endOffsetMeters)} m
+                          from origin
+                        </Tooltip>
+                      </Polyline>
+                    )
+                  })}
+                </Fragment>
                 )
             })}
             {hoveredDirectionOverlay && arrowIcon && (
@@ -1545,6 +2219,31 @@ export default function App() {
                 Simulazione Bypass Per Leonardo Da Vinci
               </Tooltip>
             </Polyline>
+            {routeTiming?.legs.map((leg) => (
+              <Polyline
+                key={`route-${leg.linkId}`}
+                positions={toLatLngs(leg.points)}
+                pathOptions={{
+                  color: '#7c3aed',
+                  weight: 7,
+                  opacity: 0.75,
+                  dashArray: leg.observed ? undefined : '6 8',
+                }}
+                interactive={false}
+              />
+            ))}
+            {routePoints.map((point, index) => (
+              <CircleMarker
+                key={`route-point-${index}`}
+                center={[point.latitude, point.longitude]}
+                radius={6}
+                pathOptions={{ color: '#5b21b6', fillColor: index === 0 ? '#ffffff' : '#7c3aed', fillOpacity: 1, weight: 2 }}
+              >
+                <Tooltip direction="top" offset={[0, -6]}>
+                  {index === 0 ? routeResult?.from.name ?? 'Start' : routeResult?.to.name ?? 'Destination'}
+                </Tooltip>
+              </CircleMarker>
+            ))}
             <Marker position={[45.5188, 9.321]} icon={autogrillIcon}>
               <Tooltip direction="top" offset={[0, -12]} opacity={1} permanent>
                 Autogrill*
@@ -1568,31 +2267,349 @@ export default function App() {
                   <span><strong>Segments:</strong> {segmentsCount}</span>
                   <span><strong>Latest snapshot:</strong> {latestSnapshotLabel}</span>
                 </div>
+                <div className="color-mode" role="group" aria-label="Colour segments by">
+                  <button
+                    type="button"
+                    aria-pressed={colorMode === 'absolute'}
+                    onClick={() => setColorMode('absolute')}
+                  >
+                    Free-flow ratio
+                  </button>
+                  <button
+                    type="button"
+                    aria-pressed={colorMode === 'typical'}
+                    onClick={() => setColorMode('typical')}
+                    disabled={!API_BASE_URL}
+                  >
+                    vs typical
+                  </button>
+                </div>
+                {!API_BASE_URL && (
+                  <p className="route-hint">
+                    Typical-week scores come from the control server; set VITE_API_BASE_URL to colour by them.
+                  </p>
+                )}
+                {colorMode === 'typical' && typicalError && <p className="route-hint error">{typicalError}</p>}
               </div>
               <ul>
-                <li>
-                  <span className="swatch" style={{ background: '#2ecc71' }} />
-                  &le; 1.05 × baseline
-                </li>
-                <li>
-                  <span className="swatch" style={{ background: '#f1c40f' }} />
-                  1.05 – 1.25 ×
-                </li>
-                <li>
-                  <span className="swatch" style={{ background: '#e67e22' }} />
-                  1.25 – 1.5 ×
-                </li>
-                <li>
-                  <span className="swatch" style={{ background: '#e74c3c' }} />
-                  &gt; 1.5 ×
-                </li>
-                <li>
-                  <span className="swatch" style={{ background: '#95a5a6' }} />
-                  Baseline unavailable
-                </li>
+                {colorMode === 'absolute' ? (
+                  <>
+                    <li>
+                      <span className="swatch" style={{ background: '#2ecc71' }} />
+                      &le; 1.05 × baseline
+                    </li>
+                    <li>
+                      <span className="swatch" style={{ background: '#f1c40f' }} />
+                      1.05 – 1.25 ×
+                    </li>
+                    <li>
+                      <span className="swatch" style={{ background: '#e67e22' }} />
+                      1.25 – 1.5 ×
+                    </li>
+                    <li>
+                      <span className="swatch" style={{ background: '#e74c3c' }} />
+                      &gt; 1.5 ×
+                    </li>
+                    <li>
+                      <span className="swatch" style={{ background: '#95a5a6' }} />
+                      Baseline unavailable
+                    </li>
+                  </>
+                ) : (
+                  <>
+                    <li>
+                      <span className="swatch" style={{ background: '#3498db' }} />
+                      Faster than typical (&lt; −1 σ)
+                    </li>
+                    <li>
+                      <span className="swatch" style={{ background: '#2ecc71' }} />
+                      Typical (±1 σ)
+                    </li>
+                    <li>
+                      <span className="swatch" style={{ background: '#f1c40f' }} />
+                      1 – 2 σ slower
+                    </li>
+                    <li>
+                      <span className="swatch" style={{ background: '#e67e22' }} />
+                      2 – 3 σ slower
+                    </li>
+                    <li>
+                      <span className="swatch" style={{ background: '#e74c3c' }} />
+                      &gt; 3 σ slower
+                    </li>
+                    <li>
+                      <span className="swatch" style={{ background: '#95a5a6' }} />
+                      Too little history
+                    </li>
+                  </>
+                )}
+                {Object.values(CONGESTION_SPAN_STYLES).map((style) => (
+                  <li key={style.label}>
+                    <span className="swatch swatch-span" style={{ background: style.color }} />
+                    {style.label} (sub-segment)
+                  </li>
+                ))}
               </ul>
             </aside>
           </div>
+          <div className="route-panel">
+            <div className="route-panel__header">
+              <h2>Route travel time</h2>
+              <div className="route-panel__actions">
+                <button
+                  type="button"
+                  className={`route-pick-button${isRoutePickActive ? ' is-active' : ''}`}
+                  onClick={handleToggleRoutePick}
+                  disabled={!API_BASE_URL}
+                >
+                  {isRoutePickActive ? 'Cancel' : 'Pick route'}
+                </button>
+                {routePoints.length > 0 && !isRoutePickActive && (
+                  <button type="button" className="route-pick-button" onClick={handleClearRoute}>
+                    Clear
+                  </button>
+                )}
+              </div>
+            </div>
+            {!API_BASE_URL && (
+              <p className="route-hint">Route times come from the control server; set VITE_API_BASE_URL to enable them.</p>
+            )}
+            {isRoutePickActive && (
+              <p className="route-hint">
+                {routePoints.length === 0 ? 'Click the start point on the map.' : 'Click the destination.'}
+              </p>
+            )}
+            {routeError && <p className="route-hint error">{routeError}</p>}
+            {routeResult && routeTiming && (
+              <>
+                <p className="route-summary">
+                  <strong>{routeResult.from.name}</strong> → <strong>{routeResult.to.name}</strong>
+                  <br />
+                  via {routeTiming.legs.map((leg) => leg.segmentName).join(', ')}
+                </p>
+                <dl className="route-times">
+                  <div>
+                    <dt>Selected snapshot</dt>
+                    <dd>{formatTravelTime(routeResult.snapshot?.travelTimeSeconds)}</dd>
+                  </div>
+                  <div>
+                    <dt>
+                      Typical{routeResult.typical ? ` (${formatHourOfWeek(routeResult.typical.hourOfWeek)})` : ''}
+                    </dt>
+                    <dd>{formatTravelTime(routeResult.typical?.travelTimeSeconds)}</dd>
+                  </div>
+                  <div>
+                    <dt>Free-flow</dt>
+                    <dd>{formatTravelTime(routeResult.freeFlow.travelTimeSeconds)}</dd>
+                  </div>
+                </dl>
+                {routeTiming.unobservedLinkIds.length > 0 && (
+                  <p className="chart-note">Dashed legs have no samples and are timed at the speed limit.</p>
+                )}
+                {routeChartData.length === 0 ? (
+                  <p className="route-hint">No snapshots in the selected time window cover this route.</p>
+                ) : (
+                  <ResponsiveContainer width="100%" height={200}>
+                    <LineChart data={routeChartData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                      <CartesianGrid strokeDasharray="3 6" stroke="#e2e8f0" />
+                      <XAxis
+                        type="number"
+                        dataKey="timestamp"
+                        domain={['dataMin', 'dataMax']}
+                        tick={{ fontSize: 12, fill: '#475569' }}
+                        tickFormatter={(value) => formatTooltipTimestamp(value)}
+                        minTickGap={20}
+                      />
+                      <YAxis tick={{ fontSize: 12, fill: '#475569' }} width={50} />
+                      <RechartsTooltip
+                        labelStyle={{ fontWeight: 600 }}
+                        formatter={(value) => (typeof value === 'number' ? formatTravelTime(value) : value ?? 'n/a')}
+                        labelFormatter={(value) => formatTooltipTimestamp(value as number)}
+                      />
+                      <RechartsLegend verticalAlign="top" height={28} />
+                      <Line
+                        type="monotone"
+                        dataKey="typical"
+                        name="Typical for the hour"
+                        stroke="#a78bfa"
+                        strokeWidth={1.5}
+                        strokeDasharray="5 5"
+                        dot={false}
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="observed"
+                        name="Observed"
+                        stroke="#7c3aed"
+                        strokeWidth={2.2}
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
+              </>
+            )}
+          </div>
+          <div className="validation-panel">
+            <h2>Flow validation</h2>
+            {!API_BASE_URL && (
+              <p className="route-hint">
+                Validation compares derived flows with field counts on the control server; set VITE_API_BASE_URL to enable it.
+              </p>
+            )}
+            {validationError && <p className="route-hint error">{validationError}</p>}
+            {validation && validation.windows.length === 0 && (
+              <p className="route-hint">No field count in the selected time window overlaps samples with a derived flow.</p>
+            )}
+            {validation && validation.windows.length > 0 && (
+              <>
+                <dl className="validation-stats">
+                  <div>
+                    <dt>Count windows</dt>
+                    <dd>{validation.overall.windows}</dd>
+                  </div>
+                  <div>
+                    <dt>Bias</dt>
+                    <dd>{formatFlowVph(validation.overall.biasVph, true)}</dd>
+                  </div>
+                  <div>
+                    <dt>RMSE</dt>
+                    <dd>{formatFlowVph(validation.overall.rmseVph)}</dd>
+                  </div>
+                  <div>
+                    <dt>Within GEH {validation.gehThreshold}</dt>
+                    <dd>{formatShare(validation.overall.withinGehShare)}</dd>
+                  </div>
+                </dl>
+                {validationOutliers.length === 0 ? (
+                  <p className="route-hint">
+                    Every counted segment has at least {formatShare(validation.minWithinGehShare)} of its windows
+                    within GEH {validation.gehThreshold}.
+                  </p>
+                ) : (
+                  <table className="validation-table">
+                    <caption>
+                      Segments with fewer than {formatShare(validation.minWithinGehShare)} of windows within GEH{' '}
+                      {validation.gehThreshold}
+                    </caption>
+                    <thead>
+                      <tr>
+                        <th scope="col">Segment</th>
+                        <th scope="col">Within GEH {validation.gehThreshold}</th>
+                        <th scope="col">Worst window</th>
+                        <th scope="col">Counted</th>
+                        <th scope="col">Derived</th>
+                        <th scope="col">GEH</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {validationOutliers.map((segment) => (
+                        <tr key={segment.segmentId}>
+                          <th scope="row">{segment.segmentName}</th>
+                          <td>{formatShare(segment.withinGehShare)}</td>
+                          <td>
+                            {segment.worstWindow.direction},{' '}
+                            {formatTooltipTimestamp(new Date(segment.worstWindow.observationStart).getTime())}
+                          </td>
+                          <td>{formatFlowVph(segment.worstWindow.observedFlowVph)}</td>
+                          <td>{formatFlowVph(segment.worstWindow.derivedFlowVph)}</td>
+                          <td>{segment.geh.toFixed(1)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <ResponsiveContainer width="100%" height={220}>
+                  <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 6" stroke="#e2e8f0" />
+                    <XAxis
+                      type="number"
+                      dataKey="observed"
+                      name="Counted"
+                      unit=" veh/h"
+                      domain={[0, validationScatter.maxFlow]}
+                      tick={{ fontSize: 12, fill: '#475569' }}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="derived"
+                      name="Derived"
+                      unit=" veh/h"
+                      domain={[0, validationScatter.maxFlow]}
+                      tick={{ fontSize: 12, fill: '#475569' }}
+                      width={80}
+                    />
+                    <ReferenceLine
+                      segment={[
+                        { x: 0, y: 0 },
+                        { x: validationScatter.maxFlow, y: validationScatter.maxFlow },
+                      ]}
+                      stroke="#94a3b8"
+                      strokeDasharray="5 5"
+                    />
+                    <RechartsTooltip
+                      cursor={{ strokeDasharray: '3 3' }}
+                      labelFormatter={(_, payload) =>
+                        (payload?.[0]?.payload as ValidationScatterPoint | undefined)?.label ?? ''
+                      }
+                    />
+                    <RechartsLegend verticalAlign="top" height={28} />
+                    <Scatter name={`Within GEH ${validation.gehThreshold}`} data={validationScatter.within} fill="#16a34a" />
+                    <Scatter name={`Beyond GEH ${validation.gehThreshold}`} data={validationScatter.beyond} fill="#dc2626" />
+                  </ScatterChart>
+                </ResponsiveContainer>
+                <p className="chart-note">
+                  Each point is one field count window against the mean derived flow of the samples polled during it; points on the
+                  dashed line match exactly.
+                  {validation.unmatchedCounts > 0 &&
+                    ` ${validation.unmatchedCounts} count${validation.unmatchedCounts === 1 ? ' has' : 's have'} no derived flow to compare.`}
+                </p>
+              </>
+            )}
+          </div>
+          <div className="incidents-panel">
+            <h2>Incidents</h2>
+            {!API_BASE_URL && (
+              <p className="route-hint">
+                Incidents are detected on the control server; set VITE_API_BASE_URL to list them.
+              </p>
+            )}
+            {incidentsError && <p className="route-hint error">{incidentsError}</p>}
+            {incidents && incidents.length === 0 && (
+              <p className="route-hint">No unusually slow samples in the selected time window.</p>
+            )}
+            {incidents && incidents.length > 0 && (
+              <table className="validation-table">
+                <caption>Slower than typical for the time of the week</caption>
+                <thead>
+                  <tr>
+                    <th scope="col">Segment</th>
+                    <th scope="col">From</th>
+                    <th scope="col">To</th>
+                    <th scope="col">Ratio</th>
+                    <th scope="col">Typical</th>
+                    <th scope="col">σ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {incidents.map((incident) => (
+                    <tr key={`${incident.linkId}-${incident.start}`}>
+                      <th scope="row">
+                        {incident.segmentName} · {incident.direction}
+                      </th>
+                      <td>{formatTooltipTimestamp(new Date(incident.start).getTime())}</td>
+                      <td>
+                        {incident.end === incident.start ? '–' : formatTooltipTimestamp(new Date(incident.end).getTime())}
+                      </td>
+                      <td>{incident.peakRatio.toFixed(2)}</td>
+                      <td>{incident.typicalRatio.toFixed(2)}</td>
+                      <td>{incident.peakZScore.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
         </section>
 
         <section className="details-section">
@@ -1645,6 +2662,8 @@ export default function App() {
                     We track <strong>forward vs reverse</strong> legs separately to spot one-way style behaviour or directional choke points.
                     <br />
                     Any gaps? They mean the poller didn’t run then, so we leave the line open instead of faking data.
+                    <br />
+                    <strong>Forecast</strong> (dotted, after the last sample) comes from the control server when it is configured.
                   </span>
                 </span>
               </div>
@@ -1766,6 +2785,30 @@ export default function App() {
                         strokeWidth={2.2}
                         dot={false}
                       />
+                      {chartForecastPoints.some((point) => point.forwardForecast != null) && (
+                        <Line
+                          type="monotone"
+                          dataKey="forwardForecast"
+                          name="Forward forecast"
+                          stroke="#2563eb"
+                          strokeWidth={2}
+                          strokeDasharray="2 4"
+                          dot={false}
+                          connectNulls
+                        />
+                      )}
+                      {chartForecastPoints.some((point) => point.reverseForecast != null) && (
+                        <Line
+                          type="monotone"
+                          dataKey="reverseForecast"
+                          name="Reverse forecast"
+                          stroke="#f97316"
+                          strokeWidth={2}
+                          strokeDasharray="2 4"
+                          dot={false}
+                          connectNulls
+                        />
+                      )}
                       <Line
                         type="monotone"
                         dataKey="reverseBaseline"
@@ -1775,12 +2818,49 @@ export default function App() {
                         strokeDasharray="5 5"
                         dot={false}
                       />
+                      <Line
+                        dataKey="forwardDeviation"
+                        name="Forward route deviation"
+                        stroke="#dc2626"
+                        strokeWidth={0}
+                        legendType="triangle"
+                        dot={{ r: 3, fill: '#dc2626', stroke: '#dc2626' }}
+                        activeDot={false}
+                        isAnimationActive={false}
+                      />
+                      <Line
+                        dataKey="reverseDeviation"
+                        name="Reverse route deviation"
+                        stroke="#9f1239"
+                        strokeWidth={0}
+                        legendType="triangle"
+                        dot={{ r: 3, fill: '#9f1239', stroke: '#9f1239' }}
+                        activeDot={false}
+                        isAnimationActive={false}
+                      />
                     </LineChart>
                   </ResponsiveContainer>
+                  {chartForecastPoints.length > 0 && (
+                    <p className="chart-note">
+                      Dotted lines forecast the next 2 hours: the typical time for that moment of the week, shifted for
+                      the latest weather, plus the latest deviation from it fading with a{' '}
+                      {chartForecasts[0]?.halfLifeMinutes}-minute half-life.
+                      {chartForecastNote && ` ${chartForecastNote}`}
+                    </p>
+                  )}
 
                   <h4 className="chart-subtitle">Estimated flow</h4>
+                  {chartData.some((point) => point.forwardFlowRange != null || point.reverseFlowRange != null) && (
+                    <p className="chart-note">
+                      Shaded bands span the flows consistent with the delay-model and capacity priors and
+                      whole-second rounding of the travel times.
+                    </p>
+                  )}
+                  {chartData.some((point) => point.forwardDeviation != null || point.reverseDeviation != null) && (
+                    <p className="chart-note">Gaps mark samples where the provider routed off the segment.</p>
+                  )}
                   <ResponsiveContainer width="100%" height={240}>
-                    <LineChart
+                    <ComposedChart
                       data={chartData}
                       margin={{ top: 10, right: 20, left: 0, bottom: 10 }}
                     >
@@ -1808,7 +2888,9 @@ export default function App() {
                         labelStyle={{ fontWeight: 600 }}
                         formatter={(value) => {
                           if (Array.isArray(value)) {
-                            return value
+                            return value.length === 2 && value.every((item) => typeof item === 'number')
+                              ? `${Math.round(value[0])}–${Math.round(value[1])} veh/h`
+                              : value
                           }
                           if (typeof value === 'number') {
                             return `${Math.round(value)} veh/h`
@@ -1818,6 +2900,26 @@ export default function App() {
                         labelFormatter={(value) => formatTooltipTimestamp(value as number)}
                       />
                       <RechartsLegend verticalAlign="top" height={28} />
+                      <Area
+                        type="monotone"
+                        dataKey="forwardFlowRange"
+                        name="Forward range"
+                        fill="#2563eb"
+                        fillOpacity={0.15}
+                        stroke="none"
+                        legendType="none"
+                        isAnimationActive={false}
+                      />
+                      <Area
+                        type="monotone"
+                        dataKey="reverseFlowRange"
+                        name="Reverse range"
+                        fill="#f97316"
+                        fillOpacity={0.15}
+                        stroke="none"
+                        legendType="none"
+                        isAnimationActive={false}
+                      />
                       <Line
                         type="monotone"
                         dataKey="forwardFlow"
@@ -1834,7 +2936,7 @@ export default function App() {
                         strokeWidth={2.2}
                         dot={false}
                       />
-                    </LineChart>
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </>
               ) : (
@@ -1928,6 +3030,11 @@ export default function App() {
                       We assume α = {BPR_ALPHA} and β = {BPR_BETA}, solve for <strong>v/c</strong>, and multiply by
                       the segment capacity.
                     </li>
+                    <li>
+                      Segments can use another delay function via <code>metadata.flowModel.type</code>: Akçelik
+                      (<code>akcelik</code>, for links ending at signalised or priority junctions) or Davidson
+                      (<code>davidson</code>). The flow tooltip names the model each sample was derived with.
+                    </li>
                     <li>
                       <strong>Calibration pending:</strong> these α/β defaults have not yet been tuned with the
                       2023 manual traffic counts. Once those observations are released we will recalibrate the
@@ -2024,6 +3131,11 @@ export default function App() {
                       Assumiamo α = {BPR_ALPHA} e β = {BPR_BETA}; risolviamo per <strong>v/c</strong> e moltiplichiamo per
                       la capacità del segmento.
                     </li>
+                    <li>
+                      Un segmento può usare un'altra funzione di ritardo con <code>metadata.flowModel.type</code>:
+                      Akçelik (<code>akcelik</code>, per tratti che terminano in incroci semaforizzati o con
+                      precedenza) o Davidson (<code>davidson</code>). Il tooltip del flusso indica il modello usato.
+                    </li>
                     <li>
                       <strong>Calibrazione in attesa:</strong> questi valori α/β non sono ancora tarati con i conteggi
                       manuali 2023. Quando saranno disponibili, ricalibreremo il modello.
@@ -21,6 +21,10 @@ export default defineConfig({
           src: path.resolve(__dirname, '../data/traffic_samples.jsonl'),
           dest: '.',
         },
+        {
+          src: path.resolve(__dirname, '../config/segment_geometry.json'),
+          dest: '.',
+        },
       ],
     }),
   ],
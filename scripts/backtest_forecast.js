@@ -0,0 +1,75 @@
+import { pathToFileURL } from 'url';
+import { backtestForecasts, DEVIATION_HALF_LIFE_MINUTES } from '../src/forecast.js';
+import { createStorage } from '../src/storage/index.js';
+
+function parseArgs(argv) {
+  const options = { holdoutFraction: 0.2, segmentId: null, direction: null, json: false };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--holdout') {
+      options.holdoutFraction = Number(argv[++i]);
+      if (!(options.holdoutFraction > 0 && options.holdoutFraction < 1)) {
+        throw new Error(`--holdout must be between 0 and 1, got ${argv[i]}`);
+      }
+    } else if (arg === '--segment') {
+      options.segmentId = argv[++i];
+    } else if (arg === '--direction') {
+      options.direction = argv[++i];
+    } else if (arg === '--json') {
+      options.json = true;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+function formatError(value) {
+  return value == null ? '   n/a' : value.toFixed(3).padStart(6);
+}
+
+function printReport(backtest) {
+  console.log(
+    `Backtest: trained until ${backtest.trainedUntil}, ${backtest.origins} held-out forecasts ` +
+      `(deviation half-life ${DEVIATION_HALF_LIFE_MINUTES} min)\n`,
+  );
+  console.log('horizon  pairs   forecast MAE / RMSE   typical MAE / RMSE   persistence MAE / RMSE');
+  for (const horizon of backtest.horizons) {
+    console.log(
+      `${`${horizon.horizonMinutes} min`.padStart(7)}  ${String(horizon.pairs).padStart(5)}   ` +
+        `${formatError(horizon.forecast.mae)} / ${formatError(horizon.forecast.rmse)}      ` +
+        `${formatError(horizon.typical.mae)} / ${formatError(horizon.typical.rmse)}        ` +
+        `${formatError(horizon.persistence.mae)} / ${formatError(horizon.persistence.rmse)}`,
+    );
+  }
+}
+
+async function backtest() {
+  const options = parseArgs(process.argv.slice(2));
+  const storage = await createStorage();
+  const samples = [];
+  try {
+    for await (const sample of storage.readSamples()) {
+      samples.push(sample);
+    }
+  } finally {
+    await storage.close();
+  }
+  const result = backtestForecasts(samples, options);
+  if (!result) {
+    throw new Error('No samples to backtest');
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    printReport(result);
+  }
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  backtest().catch((error) => {
+    console.error('Forecast backtest failed:', error.message ?? error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,161 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { alignFieldCounts, calibrateBpr, DEFAULT_CALIBRATION_FILE, ratioErrors } from '../src/calibration.js';
+import { DEFAULT_FIELD_COUNTS_FILE, loadFieldCounts } from '../src/fieldCounts.js';
+import { streetSegments } from '../src/segments.js';
+import { createStorage } from '../src/storage/index.js';
+import { resolveSegmentMetadata } from './enrich_flows.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+function parseArgs(argv) {
+  const options = {
+    countsFile: DEFAULT_FIELD_COUNTS_FILE,
+    samplesFile: null,
+    out: DEFAULT_CALIBRATION_FILE,
+    dryRun: false,
+  };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--counts') {
+      options.countsFile = path.resolve(argv[++i]);
+    } else if (arg === '--samples') {
+      options.samplesFile = path.resolve(argv[++i]);
+    } else if (arg === '--out') {
+      options.out = path.resolve(argv[++i]);
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+async function readSamples(samplesFile) {
+  const storage = await createStorage(samplesFile ? { backend: 'jsonl', jsonlFile: samplesFile } : {});
+  try {
+    const samples = [];
+    for await (const sample of storage.readSamples()) {
+      samples.push(sample);
+    }
+    return samples;
+  } finally {
+    await storage.close();
+  }
+}
+
+/**
+ * Fits BPR parameters per segment, pooling the aligned counts of both directions because
+ * `metadata.flowModel` and the lane capacity are per segment. Segments on another delay
+ * model are skipped. The prior of each fit is the segment's current resolved metadata,
+ * including any earlier calibration, so calibrating again refines rather than restarts.
+ */
+export function calibrateSegments(observations, segments = streetSegments) {
+  const metadata = resolveSegmentMetadata(segments);
+  const bySegment = new Map();
+  for (const observation of observations) {
+    const list = bySegment.get(observation.segmentId) ?? [];
+    list.push(observation);
+    bySegment.set(observation.segmentId, list);
+  }
+
+  const calibrated = [];
+  const skipped = [];
+  for (const [segmentId, segmentObservations] of bySegment) {
+    const current = metadata.get(segmentId);
+    if (!current) {
+      skipped.push({ segmentId, reason: 'unknown segment' });
+      continue;
+    }
+    if (current.flowModel.type !== 'bpr') {
+      skipped.push({ segmentId, reason: `uses the ${current.flowModel.type} delay model` });
+      continue;
+    }
+    const prior = { alpha: current.flowModel.alpha, beta: current.flowModel.beta, capacityVph: current.capacityVph };
+    const fit = calibrateBpr(segmentObservations, prior);
+    if (!fit) {
+      skipped.push({ segmentId, reason: 'no count with travel times above free flow' });
+      continue;
+    }
+    const usable = segmentObservations.filter((observation) => observation.meanRatio > 1);
+    calibrated.push({
+      segmentId,
+      lanes: current.lanes,
+      fit,
+      baseline: { ...prior, ...ratioErrors(prior, usable) },
+    });
+  }
+  calibrated.sort((a, b) => a.segmentId.localeCompare(b.segmentId));
+  return { calibrated, skipped };
+}
+
+async function readCalibrationEntries(file) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')).segments ?? {};
+  } catch (error) {
+    if (error.code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+// Merges into the existing file: segments without usable counts keep their calibration.
+export async function writeCalibration(calibrated, { file = DEFAULT_CALIBRATION_FILE, source, now = new Date() }) {
+  const entries = await readCalibrationEntries(file);
+  for (const { segmentId, lanes, fit } of calibrated) {
+    entries[segmentId] = {
+      source,
+      calibratedAt: now.toISOString(),
+      flowModel: { type: 'bpr', alpha: fit.alpha, beta: fit.beta },
+      capacityVph: fit.capacityVph,
+      laneCapacityVph: fit.capacityVph / lanes,
+      observations: fit.observations,
+      maxObservedFlowVph: fit.maxObservedFlowVph,
+      rmse: fit.rmse,
+      mae: fit.mae,
+    };
+  }
+  const segments = Object.fromEntries(Object.entries(entries).sort(([a], [b]) => a.localeCompare(b)));
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify({ segments }, null, 2)}\n`, 'utf8');
+}
+
+async function calibrate() {
+  const options = parseArgs(process.argv.slice(2));
+  const counts = await loadFieldCounts(options.countsFile);
+  const observations = alignFieldCounts(counts, await readSamples(options.samplesFile));
+  console.log(`Aligned ${observations.length} of ${counts.length} field counts with travel-time samples`);
+
+  const { calibrated, skipped } = calibrateSegments(observations);
+  console.log('  n   alpha   beta  capacity    RMSE     MAE  (before)  segment');
+  for (const { segmentId, fit, baseline } of calibrated) {
+    console.log(
+      `${String(fit.observations).padStart(3)}  ${fit.alpha.toFixed(3).padStart(6)} ${fit.beta.toFixed(2).padStart(6)} ` +
+        `${fit.capacityVph.toFixed(0).padStart(9)}  ${fit.rmse.toFixed(3).padStart(6)}  ${fit.mae.toFixed(3).padStart(6)}` +
+        `  (${baseline.rmse.toFixed(3)})   ${segmentId}`,
+    );
+  }
+  for (const { segmentId, reason } of skipped) {
+    console.warn(`  skipped ${segmentId}: ${reason}`);
+  }
+
+  if (options.dryRun || calibrated.length === 0) {
+    console.log(calibrated.length === 0 ? 'Nothing to calibrate' : 'Dry run: calibration not written');
+    return;
+  }
+  await writeCalibration(calibrated, { file: options.out, source: path.basename(options.countsFile) });
+  console.log(
+    `Wrote ${calibrated.length} segments to ${path.relative(ROOT_DIR, options.out)}; ` +
+      'run `npm run enrich` to re-derive their flows',
+  );
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  calibrate().catch((error) => {
+    console.error('Calibration failed:', error.message ?? error);
+    process.exit(1);
+  });
+}
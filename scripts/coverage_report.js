@@ -0,0 +1,113 @@
+import { pathToFileURL } from 'url';
+import { computeCoverage, DEFAULT_INTERVAL_MINUTES, DEFAULT_MIN_GAP_INTERVALS } from '../src/coverage.js';
+import { DEFAULT_POLL_RUNS_FILE, readPollRuns } from '../src/pollRuns.js';
+import { createStorage } from '../src/storage/index.js';
+
+const DEFAULT_RANGE_DAYS = 7;
+
+function parseInstant(value, name) {
+  const ms = new Date(value).getTime();
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid --${name} timestamp: ${value}`);
+  }
+  return ms;
+}
+
+function parsePositiveNumber(value, name) {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive number, got ${value}`);
+  }
+  return number;
+}
+
+function parseArgs(argv) {
+  const options = {
+    fromMs: null,
+    toMs: Date.now(),
+    intervalMinutes: DEFAULT_INTERVAL_MINUTES,
+    minGapIntervals: DEFAULT_MIN_GAP_INTERVALS,
+    runsFile: process.env.POLL_RUNS_FILE ?? DEFAULT_POLL_RUNS_FILE,
+    json: false,
+  };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--from') {
+      options.fromMs = parseInstant(argv[++i], 'from');
+    } else if (arg === '--to') {
+      options.toMs = parseInstant(argv[++i], 'to');
+    } else if (arg === '--interval') {
+      options.intervalMinutes = parsePositiveNumber(argv[++i], 'interval');
+    } else if (arg === '--min-gap') {
+      options.minGapIntervals = parsePositiveNumber(argv[++i], 'min-gap');
+    } else if (arg === '--runs') {
+      options.runsFile = argv[++i];
+    } else if (arg === '--json') {
+      options.json = true;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  options.fromMs ??= options.toMs - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000;
+  if (options.toMs <= options.fromMs) {
+    throw new Error('--to must be later than --from');
+  }
+  return options;
+}
+
+function formatPercent(value) {
+  return value == null ? '   n/a' : `${value.toFixed(1).padStart(5)}%`;
+}
+
+function printReport(report) {
+  console.log(
+    `Coverage ${report.from} → ${report.to} (${report.intervalMinutes}-minute intervals, ` +
+      `gaps of ${report.minGapIntervals}+ intervals)\n`,
+  );
+  for (const segment of report.segments) {
+    const directions = report.links
+      .filter((link) => link.segmentId === segment.segmentId)
+      .map((link) => `${link.direction} ${formatPercent(link.coveragePct).trim()}`)
+      .join(', ');
+    console.log(
+      `${formatPercent(segment.coveragePct)}  ${segment.segmentName.padEnd(28)} ` +
+        `${segment.observedIntervals}/${segment.expectedIntervals}  (${directions})`,
+    );
+  }
+
+  console.log(`\n${report.gaps.length} gaps`);
+  for (const gap of report.gaps) {
+    const cause = gap.cause ? ` [${gap.cause}: ${gap.failedRuns}/${gap.pollRuns} runs failed]` : '';
+    console.log(
+      `  ${gap.from} → ${gap.to}  ${gap.segmentId} ${gap.direction}  ${gap.missingIntervals} intervals${cause}`,
+    );
+  }
+}
+
+async function report() {
+  const options = parseArgs(process.argv.slice(2));
+  const storage = await createStorage();
+  const samples = [];
+  try {
+    for await (const sample of storage.readSamples({ fromMs: options.fromMs, toMs: options.toMs })) {
+      samples.push(sample);
+    }
+  } finally {
+    await storage.close();
+  }
+  const runs = await readPollRuns(options.runsFile, { fromMs: options.fromMs, toMs: options.toMs });
+  const coverage = computeCoverage({ samples, runs, ...options });
+
+  if (options.json) {
+    console.log(JSON.stringify(coverage, null, 2));
+  } else {
+    printReport(coverage);
+  }
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  report().catch((error) => {
+    console.error('Coverage report failed:', error.message ?? error);
+    process.exit(1);
+  });
+}
@@ -1,96 +1,188 @@
-import fs from 'fs/promises';
+import { createHash } from 'crypto';
 import path from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
+import {
+  BPR_DEFAULT_ALPHA,
+  BPR_DEFAULT_BETA,
+  describeFlowModel,
+  parameterCorners,
+  resolveFlowModel,
+  travelTimeRatio,
+  volumeCapacityRatio as invertDelayModel,
+} from '../src/delayModels.js';
+import { computePathLengthMeters } from '../src/geo.js';
+import { assessRouteDeviation } from '../src/routeDeviation.js';
+import { resolveSegmentPath } from '../src/segmentGeometry.js';
 import { streetSegments } from '../src/segments.js';
+import { describeSegmentTimeline, findSegment, resolveSegmentConfiguration } from '../src/segmentRegistry.js';
+import { createStorage } from '../src/storage/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
-const DATA_FILE = path.resolve(__dirname, '..', 'data', 'traffic_samples.jsonl');
-const BACKUP_FILE = path.resolve(__dirname, '..', 'data', 'traffic_samples.backup.jsonl');
 
-const BPR_DEFAULT_ALPHA = 0.15;
-const BPR_DEFAULT_BETA = 4;
+export { BPR_DEFAULT_ALPHA, BPR_DEFAULT_BETA };
+// Bump when the derivation itself changes so every stored sample is treated as stale.
+export const ENRICHMENT_VERSION = 3;
+// Providers report whole seconds, so a duration may be off by up to half a second.
+export const DURATION_ROUNDING_SECONDS = 0.5;
 
-function toRadians(value) {
-  return (value * Math.PI) / 180;
+export function computeSegmentLengthMeters(endpoints) {
+  return computePathLengthMeters(endpoints);
 }
 
-function haversineDistanceMeters(a, b) {
-  const R = 6371000; // Earth radius in meters
-  const lat1 = toRadians(a.latitude);
-  const lat2 = toRadians(b.latitude);
-  const deltaLat = lat2 - lat1;
-  const deltaLon = toRadians(b.longitude - a.longitude);
-
-  const sinLat = Math.sin(deltaLat / 2);
-  const sinLon = Math.sin(deltaLon / 2);
-
-  const calc = sinLat * sinLat + Math.cos(lat1) * Math.cos(lat2) * sinLon * sinLon;
-  const c = 2 * Math.atan2(Math.sqrt(calc), Math.sqrt(1 - calc));
-  return R * c;
+// Calibrated parameters (segment.calibration, see src/calibration.js) override the
+// lane capacity assumed in the metadata, unless a period or scenario edit dropped it by
+// setting its own, and the BPR parameters of segments on the BPR model.
+function buildSegmentMetadata(segment) {
+  const { id, endpoints, geometry, metadata = {}, calibration = null } = segment;
+  const lengthMeters = computeSegmentLengthMeters(geometry ?? endpoints);
+  const lanes = metadata.lanes ?? 1;
+  const laneCapacity = calibration?.laneCapacityVph ?? metadata.laneCapacityVph ?? 900;
+  const capacityVph = metadata.capacityVph ?? lanes * laneCapacity;
+  const configuredModel = resolveFlowModel(
+    metadata.flowModel ?? {
+      alpha: metadata.bprAlpha,
+      beta: metadata.bprBeta,
+    },
+  );
+  const flowModel =
+    calibration?.flowModel && configuredModel.type === 'bpr'
+      ? resolveFlowModel({ ...configuredModel, ...calibration.flowModel })
+      : configuredModel;
+  return {
+    id,
+    lengthMeters,
+    lanes,
+    capacityVph,
+    speedLimitKph: metadata.speedLimitKph ?? null,
+    flowModel,
+  };
 }
 
-export function computeSegmentLengthMeters(endpoints) {
-  if (!endpoints || endpoints.length < 2) return null;
-  let total = 0;
-  for (let i = 0; i < endpoints.length - 1; i += 1) {
-    total += haversineDistanceMeters(endpoints[i], endpoints[i + 1]);
-  }
-  return total;
+export function resolveSegmentMetadata(segments = streetSegments) {
+  return segments.reduce((acc, segment) => {
+    acc.set(segment.id, buildSegmentMetadata(segment));
+    return acc;
+  }, new Map());
 }
 
-function normaliseFlowModelParameters({ alpha, beta } = {}) {
-  const normalisedAlpha = typeof alpha === 'number' && Number.isFinite(alpha) && alpha > 0
-    ? alpha
-    : null;
-  const normalisedBeta = typeof beta === 'number' && Number.isFinite(beta) && beta > 0
-    ? beta
-    : null;
-  return {
-    alpha: normalisedAlpha ?? BPR_DEFAULT_ALPHA,
-    beta: normalisedBeta ?? BPR_DEFAULT_BETA,
-  };
+function hashEnrichmentInputs(inputs) {
+  return createHash('sha1')
+    .update(JSON.stringify({ version: ENRICHMENT_VERSION, ...inputs }))
+    .digest('hex')
+    .slice(0, 16);
 }
 
-function resolveSegmentMetadata() {
-  return streetSegments.reduce((acc, segment) => {
-    const { id, endpoints, metadata = {} } = segment;
-    const lengthMeters = computeSegmentLengthMeters(endpoints);
-    const lanes = metadata.lanes ?? 1;
-    const laneCapacity = metadata.laneCapacityVph ?? 900;
-    const capacityVph = lanes * laneCapacity;
-    const flowModel = normaliseFlowModelParameters(
-      metadata.flowModel ?? {
-        alpha: metadata.bprAlpha,
-        beta: metadata.bprBeta,
-      },
-    );
-    acc.set(id, {
-      id,
-      lengthMeters,
-      lanes,
-      capacityVph,
-      speedLimitKph: metadata.speedLimitKph ?? null,
-      flowModel,
+// Metadata per configuration period, so historical samples use the lanes/capacity that
+// were in force when they were collected. Each period carries the hash of everything the
+// enrichment reads from it, which is how stale rows are recognised.
+function resolveSegmentHistory(segments = streetSegments) {
+  return segments.reduce((acc, segment) => {
+    const periods = describeSegmentTimeline(segment).map((period) => {
+      const metadata = buildSegmentMetadata({ ...segment, metadata: period.metadata, calibration: period.calibration });
+      return {
+        effectiveFrom: period.effectiveFrom,
+        effectiveTo: period.effectiveTo,
+        metadata,
+        enrichmentHash: hashEnrichmentInputs({
+          metadata,
+          allowedDirections: period.metadata.allowedDirections ?? null,
+          effectiveFrom: period.effectiveFrom,
+          effectiveTo: period.effectiveTo,
+        }),
+      };
     });
+    acc.set(segment.id, periods);
     return acc;
   }, new Map());
 }
 
 let segmentMetadataCache = resolveSegmentMetadata();
+let segmentHistoryCache = resolveSegmentHistory();
 
 export function refreshSegmentMetadata() {
   segmentMetadataCache = resolveSegmentMetadata();
+  segmentHistoryCache = resolveSegmentHistory();
 }
 
 function getSegmentMetadataMap() {
   return segmentMetadataCache;
 }
 
+function getSegmentPeriod(segmentId, requestedAt) {
+  const requestedMs = requestedAt ? new Date(requestedAt).getTime() : Number.NaN;
+  if (Number.isNaN(requestedMs)) return null;
+  const periods = segmentHistoryCache.get(segmentId) ?? [];
+  return (
+    periods.find(({ effectiveFrom, effectiveTo }) => {
+      if (effectiveFrom && requestedMs < new Date(effectiveFrom).getTime()) return false;
+      if (effectiveTo && requestedMs >= new Date(effectiveTo).getTime()) return false;
+      return true;
+    }) ?? null
+  );
+}
+
+function getSegmentMetadata(segmentId, requestedAt) {
+  return getSegmentPeriod(segmentId, requestedAt)?.metadata ?? getSegmentMetadataMap().get(segmentId);
+}
+
+/**
+ * Fingerprint of the segment metadata, configuration period and flow model that
+ * `enrichSample` would use for this sample.
+ */
+export function computeEnrichmentHash(sample) {
+  const period = getSegmentPeriod(sample.segmentId, sample.requestedAt);
+  if (period) return period.enrichmentHash;
+  return hashEnrichmentInputs({ metadata: getSegmentMetadataMap().get(sample.segmentId) ?? null });
+}
+
+export function needsEnrichment(sample) {
+  return sample.enrichmentHash !== computeEnrichmentHash(sample);
+}
+
+// Forward BPR function: ratio between loaded and free-flow travel time for a given v/c.
+// Other delay models go through `travelTimeRatio` in src/delayModels.js.
+export function bprTravelTimeRatio(volumeCapacityRatio, alpha = BPR_DEFAULT_ALPHA, beta = BPR_DEFAULT_BETA) {
+  return travelTimeRatio({ type: 'bpr', alpha, beta }, volumeCapacityRatio);
+}
+
+/**
+ * Lower and upper flow consistent with the priors: the extremes of the inverted delay
+ * model over every corner of its parameter ranges, the capacity ± its uncertainty, and
+ * both durations ± the provider's rounding.
+ */
+function deriveFlowInterval(flowModel, duration, staticDuration, capacityVph) {
+  const capacitySpread = flowModel.uncertainty?.capacity ?? 0;
+  const flows = [];
+  for (const model of parameterCorners(flowModel)) {
+    for (const loaded of [duration - DURATION_ROUNDING_SECONDS, duration + DURATION_ROUNDING_SECONDS]) {
+      for (const freeFlow of [staticDuration - DURATION_ROUNDING_SECONDS, staticDuration + DURATION_ROUNDING_SECONDS]) {
+        if (freeFlow <= 0) continue;
+        for (const capacity of [capacityVph * (1 - capacitySpread), capacityVph * (1 + capacitySpread)]) {
+          const ratio = invertDelayModel(model, Math.max(loaded, 0) / freeFlow, {
+            freeFlowSeconds: freeFlow,
+            capacityVph: capacity,
+          });
+          if (ratio != null && Number.isFinite(ratio)) flows.push(Math.max(ratio, 0) * capacity);
+        }
+      }
+    }
+  }
+  if (flows.length === 0) return { lower: null, upper: null };
+  return { lower: Math.min(...flows), upper: Math.max(...flows) };
+}
+
+function detectRouteDeviation(sample, meta) {
+  const segment = findSegment(sample.segmentId);
+  return assessRouteDeviation(sample, {
+    lengthMeters: meta.lengthMeters,
+    segmentPath: segment ? resolveSegmentPath(segment, sample.direction) : null,
+  });
+}
+
 export function deriveFlowMetrics(sample) {
-  const meta = getSegmentMetadataMap().get(sample.segmentId);
-  const alpha = meta?.flowModel?.alpha ?? BPR_DEFAULT_ALPHA;
-  const beta = meta?.flowModel?.beta ?? BPR_DEFAULT_BETA;
+  const meta = getSegmentMetadata(sample.segmentId, sample.requestedAt);
+  const flowModel = meta?.flowModel ?? resolveFlowModel();
   if (!meta) {
     return {
       capacityVph: null,
@@ -98,13 +190,31 @@ export function deriveFlowMetrics(sample) {
       freeFlowSpeedKph: null,
       volumeCapacityRatio: null,
       derivedFlowVph: null,
+      derivedFlowLowerVph: null,
+      derivedFlowUpperVph: null,
       flowConfidence: 'low',
-      alpha,
-      beta,
+      routeDeviation: null,
+      flowModel,
     };
   }
 
   const { lengthMeters, capacityVph } = meta;
+  // A detour's travel times describe another route, so no flow is derived from them.
+  const routeDeviation = detectRouteDeviation(sample, meta);
+  if (routeDeviation) {
+    return {
+      capacityVph,
+      lengthMeters,
+      freeFlowSpeedKph: null,
+      volumeCapacityRatio: null,
+      derivedFlowVph: null,
+      derivedFlowLowerVph: null,
+      derivedFlowUpperVph: null,
+      flowConfidence: 'low',
+      routeDeviation,
+      flowModel,
+    };
+  }
   const duration = sample.durationSeconds ?? null;
   const staticDuration = sample.staticDurationSeconds ?? null;
 
@@ -127,22 +237,23 @@ export function deriveFlowMetrics(sample) {
       freeFlowSpeedKph,
       volumeCapacityRatio: null,
       derivedFlowVph: null,
+      derivedFlowLowerVph: null,
+      derivedFlowUpperVph: null,
       flowConfidence: 'low',
-      alpha,
-      beta,
+      routeDeviation: null,
+      flowModel,
     };
   }
 
-  // Ratio of observed to free-flow travel time
+  // Ratio of observed to free-flow travel time, inverted through the segment's delay model
   const timeRatio = duration / staticDuration;
-  let volumeCapacityRatio = 0;
-  if (timeRatio > 1) {
-    const adjusted = (timeRatio - 1) / alpha;
-    volumeCapacityRatio = Math.pow(Math.max(adjusted, 0), 1 / beta);
-  }
+  let volumeCapacityRatio = invertDelayModel(flowModel, timeRatio, {
+    freeFlowSeconds: staticDuration,
+    capacityVph,
+  });
 
   // Guard against extreme results
-  if (!Number.isFinite(volumeCapacityRatio)) {
+  if (volumeCapacityRatio == null || !Number.isFinite(volumeCapacityRatio)) {
     volumeCapacityRatio = null;
   } else if (volumeCapacityRatio < 0) {
     volumeCapacityRatio = 0;
@@ -156,6 +267,11 @@ export function deriveFlowMetrics(sample) {
     }
   }
 
+  const interval =
+    derivedFlowVph != null
+      ? deriveFlowInterval(flowModel, duration, staticDuration, capacityVph)
+      : { lower: null, upper: null };
+
   let flowConfidence = 'medium';
   if (volumeCapacityRatio == null || derivedFlowVph == null) {
     flowConfidence = 'low';
@@ -171,53 +287,75 @@ export function deriveFlowMetrics(sample) {
     freeFlowSpeedKph,
     volumeCapacityRatio,
     derivedFlowVph,
+    derivedFlowLowerVph: interval.lower != null ? Math.min(interval.lower, derivedFlowVph) : null,
+    derivedFlowUpperVph: interval.upper != null ? Math.max(interval.upper, derivedFlowVph) : null,
     flowConfidence,
-    alpha,
-    beta,
+    routeDeviation: null,
+    flowModel,
   };
 }
 
-async function enrichSamples() {
-  try {
-    const raw = await fs.readFile(DATA_FILE, 'utf8');
-    const lines = raw.split(/\r?\n/).filter(Boolean);
-
-    const enrichedLines = lines.map((line) => {
-      const sample = JSON.parse(line);
-      const metrics = deriveFlowMetrics(sample);
-      return JSON.stringify({
-        ...sample,
-        lengthMeters: metrics.lengthMeters,
-        freeFlowSpeedKph: metrics.freeFlowSpeedKph,
-        capacityVph: metrics.capacityVph,
-        volumeCapacityRatio: metrics.volumeCapacityRatio,
-        derivedFlowVph: metrics.derivedFlowVph,
-        flowConfidence: metrics.flowConfidence,
-        flowEstimationModel: {
-          alpha: metrics.alpha ?? BPR_DEFAULT_ALPHA,
-          beta: metrics.beta ?? BPR_DEFAULT_BETA,
-          source: 'BPR',
-          notes: 'Derived from travel-time ratio using BPR function and assumed lane capacity.',
-        },
-      });
-    });
+// Older samples predate direction stamping; fill the gaps from the configuration registry.
+export function resolveConfigurationStamp(sample) {
+  const segment = findSegment(sample.segmentId);
+  if (!segment) return {};
+  const { metadata, configurationPeriod } = resolveSegmentConfiguration(segment, sample.requestedAt);
+  return {
+    allowedDirections:
+      Array.isArray(sample.allowedDirections) && sample.allowedDirections.length > 0
+        ? sample.allowedDirections
+        : metadata.allowedDirections ?? ['forward', 'reverse'],
+    configurationPeriod: sample.configurationPeriod ?? configurationPeriod,
+  };
+}
 
-    // Create backup once before overwriting
-    await fs.writeFile(BACKUP_FILE, raw, 'utf8');
-    await fs.writeFile(DATA_FILE, `${enrichedLines.join('\n')}\n`, 'utf8');
+export function enrichSample(sample) {
+  const metrics = deriveFlowMetrics(sample);
+  return {
+    ...sample,
+    ...resolveConfigurationStamp(sample),
+    lengthMeters: metrics.lengthMeters,
+    freeFlowSpeedKph: metrics.freeFlowSpeedKph,
+    capacityVph: metrics.capacityVph,
+    volumeCapacityRatio: metrics.volumeCapacityRatio,
+    derivedFlowVph: metrics.derivedFlowVph,
+    derivedFlowLowerVph: metrics.derivedFlowLowerVph,
+    derivedFlowUpperVph: metrics.derivedFlowUpperVph,
+    flowConfidence: metrics.flowConfidence,
+    routeDeviation: metrics.routeDeviation,
+    flowEstimationModel: describeFlowModel(metrics.flowModel),
+    enrichmentHash: computeEnrichmentHash(sample),
+  };
+}
 
+/**
+ * Enriches samples that are new or whose enrichment inputs changed since they were last
+ * processed. `force` re-derives every sample.
+ */
+export async function enrichSamples({ storage, force = false } = {}) {
+  const store = storage ?? (await createStorage());
+  try {
+    const { total, updated, backupFile } = await store.transformSamples((sample) =>
+      force || needsEnrichment(sample) ? enrichSample(sample) : null,
+    );
+    const backupNote = backupFile
+      ? ` Backup saved to ${path.relative(path.resolve(__dirname, '..'), backupFile)}`
+      : '';
     console.log(
-      `Enriched ${enrichedLines.length} samples with length, capacity, and flow estimates. Backup saved to ${path.relative(
-        path.resolve(__dirname, '..'),
-        BACKUP_FILE,
-      )}`,
+      `Enriched ${updated} of ${total} samples with length, capacity, and flow estimates ` +
+        `(${store.backend}); ${total - updated} already up to date.${backupNote}`,
     );
-  } catch (error) {
-    console.error('Failed to enrich samples:', error);
-    process.exit(1);
+    return { total, updated };
+  } finally {
+    if (!storage) {
+      await store.close();
+    }
   }
 }
 
 if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
-  enrichSamples();
+  enrichSamples({ force: process.argv.includes('--force') }).catch((error) => {
+    console.error('Failed to enrich samples:', error);
+    process.exit(1);
+  });
 }
@@ -0,0 +1,131 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { DEFAULT_DEMAND_FILE, validateDemand } from '../src/demand.js';
+import { DEFAULT_FIELD_COUNTS_FILE, loadFieldCounts, summariseFieldCounts } from '../src/fieldCounts.js';
+import { estimateDemand, toDemandDocument } from '../src/odEstimation.js';
+import { createStorage } from '../src/storage/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const ROOT_DIR = path.resolve(__dirname, '..');
+const DEFAULT_REPORT_FILE = path.join(ROOT_DIR, 'data', 'od_estimation.json');
+
+function parseInstant(value, name) {
+  if (Number.isNaN(new Date(value).getTime())) {
+    throw new Error(`Invalid --${name} timestamp: ${value}`);
+  }
+  return new Date(value).toISOString();
+}
+
+function parseArgs(argv) {
+  const options = {
+    from: null,
+    to: null,
+    countsFile: null,
+    samplesFile: null,
+    out: DEFAULT_DEMAND_FILE,
+    report: DEFAULT_REPORT_FILE,
+    name: null,
+  };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--from') {
+      options.from = parseInstant(argv[++i], 'from');
+    } else if (arg === '--to') {
+      options.to = parseInstant(argv[++i], 'to');
+    } else if (arg === '--counts') {
+      options.countsFile = path.resolve(argv[++i]);
+    } else if (arg === '--samples') {
+      options.samplesFile = path.resolve(argv[++i]);
+    } else if (arg === '--out') {
+      options.out = path.resolve(argv[++i]);
+    } else if (arg === '--report') {
+      options.report = path.resolve(argv[++i]);
+    } else if (arg === '--name') {
+      options.name = argv[++i];
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (options.from && options.to && options.to <= options.from) {
+    throw new Error('--to must be later than --from');
+  }
+  return options;
+}
+
+async function readSamples(samplesFile) {
+  const storage = await createStorage(samplesFile ? { backend: 'jsonl', jsonlFile: samplesFile } : {});
+  try {
+    const samples = [];
+    for await (const sample of storage.readSamples()) {
+      samples.push(sample);
+    }
+    return samples;
+  } finally {
+    await storage.close();
+  }
+}
+
+// An explicit --counts file must load; the default one is optional.
+async function readFieldCounts(countsFile) {
+  try {
+    return await loadFieldCounts(countsFile ?? DEFAULT_FIELD_COUNTS_FILE);
+  } catch (error) {
+    if (!countsFile && error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+function formatFlow(value) {
+  return value == null ? '     -' : value.toFixed(0).padStart(6);
+}
+
+async function estimate() {
+  const options = parseArgs(process.argv.slice(2));
+  const samples = await readSamples(options.samplesFile);
+  const counts = await readFieldCounts(options.countsFile);
+  const fieldCountFlows = summariseFieldCounts(counts, { from: options.from, to: options.to });
+  const result = estimateDemand({ samples, from: options.from, to: options.to, fieldCountFlows });
+
+  console.log(
+    `Fitted ${result.trips.length} OD pairs to ${result.fit.observedLinks} observed links ` +
+      `(${fieldCountFlows.size} from field counts) in ${result.iterations} iterations` +
+      `${result.converged ? '' : ' without converging'}`,
+  );
+  console.log('   observed  estimated   GEH  confidence  link');
+  for (const link of result.links) {
+    const geh = link.geh == null ? '    -' : link.geh.toFixed(1).padStart(5);
+    console.log(
+      `     ${formatFlow(link.observedFlowVph)}     ${formatFlow(link.estimatedFlowVph)} ${geh}  ` +
+        `${link.confidence.padEnd(10)}  ${link.linkId}`,
+    );
+  }
+  const withinGeh = result.fit.withinGehShare == null ? 'n/a' : `${(result.fit.withinGehShare * 100).toFixed(0)}%`;
+  console.log(`${withinGeh} of observed links within GEH 5, RMSE ${result.fit.rmseVph?.toFixed(0) ?? 'n/a'} veh/h`);
+  for (const pair of result.unobservedPairs) {
+    console.warn(`  no observed link on the route from ${pair.from} to ${pair.to}`);
+  }
+
+  const document = toDemandDocument(result, { name: options.name ?? undefined });
+  if (document.trips.length === 0) {
+    throw new Error('No trips estimated: no observed flow in the window');
+  }
+  validateDemand(document, { source: path.relative(ROOT_DIR, options.out) });
+  await fs.mkdir(path.dirname(options.out), { recursive: true });
+  await fs.writeFile(options.out, `${JSON.stringify(document, null, 2)}\n`, 'utf8');
+  await fs.mkdir(path.dirname(options.report), { recursive: true });
+  await fs.writeFile(
+    options.report,
+    `${JSON.stringify({ generatedAt: new Date().toISOString(), ...result }, null, 2)}\n`,
+    'utf8',
+  );
+  console.log(`Wrote ${path.relative(ROOT_DIR, options.out)} and ${path.relative(ROOT_DIR, options.report)}`);
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  estimate().catch((error) => {
+    console.error('Demand estimation failed:', error.message ?? error);
+    process.exit(1);
+  });
+}
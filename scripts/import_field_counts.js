@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import {
+  DEFAULT_FIELD_COUNTS_FILE,
+  FieldCountValidationError,
+  importFieldCounts,
+  loadFieldCounts,
+  parseFieldCountsCsv,
+  validateFieldCounts,
+} from '../src/fieldCounts.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+function parseArgs(argv) {
+  const options = { inputs: [], out: DEFAULT_FIELD_COUNTS_FILE, dryRun: false };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--out') {
+      options.out = path.resolve(argv[++i]);
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown argument: ${arg}`);
+    } else {
+      options.inputs.push(path.resolve(arg));
+    }
+  }
+  if (options.inputs.length === 0) {
+    throw new Error('Usage: import_field_counts.js <sheet.csv> [more.csv ...] [--out file] [--dry-run]');
+  }
+  return options;
+}
+
+async function readStoredCounts(file) {
+  try {
+    return await loadFieldCounts(file);
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Sheets are imported one by one, so a rejected sheet leaves the earlier ones stored.
+async function importSheets() {
+  const options = parseArgs(process.argv.slice(2));
+  for (const input of options.inputs) {
+    const source = path.basename(input);
+    const counts = parseFieldCountsCsv(await fs.readFile(input, 'utf8'), source);
+    const { warnings, imported, total } = options.dryRun
+      ? { ...validateFieldCounts(counts, { existing: await readStoredCounts(options.out), source }), imported: 0 }
+      : await importFieldCounts(counts, { file: options.out, source });
+    for (const warning of warnings) {
+      console.warn(`  ${warning}`);
+    }
+    console.log(
+      options.dryRun
+        ? `${source}: ${counts.length} counts valid (dry run, not stored)`
+        : `${source}: imported ${imported} counts, ${total} stored in ${path.relative(ROOT_DIR, options.out)}`,
+    );
+  }
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  importSheets().catch((error) => {
+    if (error instanceof FieldCountValidationError) {
+      console.error(error.message);
+    } else {
+      console.error('Field count import failed:', error.message ?? error);
+    }
+    process.exit(1);
+  });
+}
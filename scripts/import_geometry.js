@@ -0,0 +1,256 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { decodePolyline } from '../src/polyline.js';
+import { DEFAULT_SEGMENT_GEOMETRY_FILE } from '../src/segmentGeometry.js';
+import { streetSegments } from '../src/segments.js';
+import { createStorage } from '../src/storage/index.js';
+import { computeSegmentLengthMeters } from './enrich_flows.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+// Furthest a segment endpoint may sit from the imported line before the match is rejected.
+export const DEFAULT_MAX_SNAP_METERS = 30;
+// Way ends closer than this are treated as the same node when stitching OSM ways together.
+const JOIN_TOLERANCE_METERS = 1;
+
+function distanceMeters(a, b) {
+  return computeSegmentLengthMeters([a, b]);
+}
+
+function toPoint([longitude, latitude]) {
+  return { latitude, longitude };
+}
+
+function featureLines(feature) {
+  const geometry = feature?.geometry;
+  if (geometry?.type === 'LineString') return [geometry.coordinates.map(toPoint)];
+  if (geometry?.type === 'MultiLineString') return geometry.coordinates.map((line) => line.map(toPoint));
+  return [];
+}
+
+function normaliseName(value) {
+  return String(value ?? '').trim().toLocaleLowerCase('it');
+}
+
+// Features tagged with the segment id win; otherwise OSM ways are matched on their name.
+function linesForSegment(segment, features) {
+  const tagged = features.filter((feature) => feature.properties?.segmentId === segment.id);
+  const matches = tagged.length > 0
+    ? tagged
+    : features.filter((feature) => normaliseName(feature.properties?.name) === normaliseName(segment.name));
+  return matches.flatMap(featureLines).filter((line) => line.length >= 2);
+}
+
+/**
+ * Joins lines that share an end node into continuous chains. OSM usually splits a street
+ * into several ways, often drawn in opposite directions.
+ */
+export function stitchLines(lines) {
+  const remaining = lines.map((line) => [...line]);
+  const chains = [];
+  while (remaining.length > 0) {
+    let chain = remaining.shift();
+    let extended = true;
+    while (extended) {
+      extended = false;
+      for (let i = 0; i < remaining.length; i += 1) {
+        const line = remaining[i];
+        const head = chain[0];
+        const tail = chain[chain.length - 1];
+        if (distanceMeters(tail, line[0]) <= JOIN_TOLERANCE_METERS) {
+          chain = [...chain, ...line.slice(1)];
+        } else if (distanceMeters(tail, line[line.length - 1]) <= JOIN_TOLERANCE_METERS) {
+          chain = [...chain, ...[...line].reverse().slice(1)];
+        } else if (distanceMeters(head, line[line.length - 1]) <= JOIN_TOLERANCE_METERS) {
+          chain = [...line.slice(0, -1), ...chain];
+        } else if (distanceMeters(head, line[0]) <= JOIN_TOLERANCE_METERS) {
+          chain = [...[...line].reverse().slice(0, -1), ...chain];
+        } else {
+          continue;
+        }
+        remaining.splice(i, 1);
+        extended = true;
+        break;
+      }
+    }
+    chains.push(chain);
+  }
+  return chains;
+}
+
+function nearestVertex(line, point) {
+  let best = { index: -1, distance: Infinity };
+  line.forEach((vertex, index) => {
+    const distance = distanceMeters(vertex, point);
+    if (distance < best.distance) best = { index, distance };
+  });
+  return best;
+}
+
+/**
+ * Cuts the part of `line` between the segment endpoints, oriented from the first endpoint
+ * to the second, with its ends snapped onto the endpoints so the shape and the polled
+ * origin/destination agree. Returns null when either endpoint is further than
+ * `maxSnapMeters` from the line.
+ */
+export function clipToSegment(segment, line, { maxSnapMeters = DEFAULT_MAX_SNAP_METERS } = {}) {
+  const [start, end] = segment.endpoints;
+  const from = nearestVertex(line, start);
+  const to = nearestVertex(line, end);
+  if (from.distance > maxSnapMeters || to.distance > maxSnapMeters || from.index === to.index) {
+    return null;
+  }
+  const clipped = from.index < to.index
+    ? line.slice(from.index, to.index + 1)
+    : line.slice(to.index, from.index + 1).reverse();
+  return {
+    points: [start, ...clipped.slice(1, -1), end],
+    snapMeters: Math.max(from.distance, to.distance),
+  };
+}
+
+export function extractSegmentGeometry(segments, features, options = {}) {
+  const geometry = new Map();
+  const unmatched = [];
+  for (const segment of segments) {
+    const candidates = stitchLines(linesForSegment(segment, features))
+      .map((line) => clipToSegment(segment, line, options))
+      .filter(Boolean)
+      .sort((a, b) => a.snapMeters - b.snapMeters);
+    if (candidates.length === 0) {
+      unmatched.push(segment.id);
+    } else {
+      geometry.set(segment.id, candidates[0].points);
+    }
+  }
+  return { geometry, unmatched };
+}
+
+/**
+ * Uses the latest Google route polyline recorded for each segment (POLL_RECORD_POLYLINE)
+ * as its geometry. Reverse routes are flipped so every shape runs first endpoint → second.
+ */
+export function geometryFromSamples(segments, samples, options = {}) {
+  const latest = new Map();
+  for (const sample of samples) {
+    if (!sample.routePolyline) continue;
+    const current = latest.get(sample.segmentId);
+    if (!current || sample.requestedAt > current.requestedAt) {
+      latest.set(sample.segmentId, sample);
+    }
+  }
+
+  const geometry = new Map();
+  const unmatched = [];
+  for (const segment of segments) {
+    const sample = latest.get(segment.id);
+    const points = sample ? decodePolyline(sample.routePolyline) : [];
+    const route = sample?.direction === 'reverse' ? points.reverse() : points;
+    const clipped = route.length >= 2 ? clipToSegment(segment, route, options) : null;
+    if (clipped) {
+      geometry.set(segment.id, clipped.points);
+    } else {
+      unmatched.push(segment.id);
+    }
+  }
+  return { geometry, unmatched };
+}
+
+async function readGeometryEntries(file) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')).segments ?? {};
+  } catch (error) {
+    if (error.code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+// Merges into the existing file: segments the import did not match keep their geometry.
+export async function writeSegmentGeometry(geometry, { file = DEFAULT_SEGMENT_GEOMETRY_FILE, source, now = new Date() }) {
+  const entries = await readGeometryEntries(file);
+  for (const [segmentId, points] of geometry) {
+    entries[segmentId] = { source, importedAt: now.toISOString(), points };
+  }
+  const segments = Object.fromEntries(Object.entries(entries).sort(([a], [b]) => a.localeCompare(b)));
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify({ segments }, null, 2)}\n`, 'utf8');
+}
+
+function parseArgs(argv) {
+  const options = {
+    input: null,
+    fromSamples: false,
+    samplesFile: null,
+    out: DEFAULT_SEGMENT_GEOMETRY_FILE,
+    maxSnapMeters: DEFAULT_MAX_SNAP_METERS,
+  };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--from-samples') {
+      options.fromSamples = true;
+    } else if (arg === '--samples') {
+      options.samplesFile = path.resolve(argv[++i]);
+    } else if (arg === '--out') {
+      options.out = path.resolve(argv[++i]);
+    } else if (arg === '--max-snap') {
+      options.maxSnapMeters = Number(argv[++i]);
+      if (!Number.isFinite(options.maxSnapMeters) || options.maxSnapMeters <= 0) {
+        throw new Error('--max-snap must be a positive number of meters');
+      }
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown argument: ${arg}`);
+    } else {
+      options.input = path.resolve(arg);
+    }
+  }
+  if (!options.fromSamples && !options.input) {
+    throw new Error('Usage: import_geometry.js <file.geojson> | --from-samples [--samples file]');
+  }
+  return options;
+}
+
+async function readSamples(samplesFile) {
+  const storage = await createStorage(samplesFile ? { backend: 'jsonl', jsonlFile: samplesFile } : {});
+  try {
+    const samples = [];
+    for await (const sample of storage.readSamples()) {
+      samples.push(sample);
+    }
+    return samples;
+  } finally {
+    await storage.close();
+  }
+}
+
+async function importGeometry() {
+  const options = parseArgs(process.argv.slice(2));
+  let result;
+  let source;
+  if (options.fromSamples) {
+    result = geometryFromSamples(streetSegments, await readSamples(options.samplesFile), options);
+    source = 'google-route-polyline';
+  } else {
+    const collection = JSON.parse(await fs.readFile(options.input, 'utf8'));
+    result = extractSegmentGeometry(streetSegments, collection.features ?? [], options);
+    source = `geojson:${path.basename(options.input)}`;
+  }
+
+  await writeSegmentGeometry(result.geometry, { file: options.out, source });
+  for (const [segmentId, points] of result.geometry) {
+    console.log(`${segmentId}: ${points.length} points, ${computeSegmentLengthMeters(points).toFixed(0)} m`);
+  }
+  if (result.unmatched.length > 0) {
+    console.warn(`No geometry found for: ${result.unmatched.join(', ')}`);
+  }
+  console.log(`Wrote ${result.geometry.size} segment shapes to ${path.relative(ROOT_DIR, options.out)}`);
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  importGeometry().catch((error) => {
+    console.error('Geometry import failed:', error.message);
+    process.exit(1);
+  });
+}
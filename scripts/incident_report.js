@@ -0,0 +1,83 @@
+import { pathToFileURL } from 'url';
+import { createStorage } from '../src/storage/index.js';
+import { detectIncidents, INCIDENT_Z_SCORE, MIN_INCIDENT_RATIO } from '../src/typicalWeek.js';
+
+const DEFAULT_RANGE_DAYS = 7;
+
+function parseInstant(value, name) {
+  const ms = new Date(value).getTime();
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid --${name} timestamp: ${value}`);
+  }
+  return ms;
+}
+
+function parseArgs(argv) {
+  const options = { fromMs: null, toMs: Date.now(), segmentId: null, json: false };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--from') {
+      options.fromMs = parseInstant(argv[++i], 'from');
+    } else if (arg === '--to') {
+      options.toMs = parseInstant(argv[++i], 'to');
+    } else if (arg === '--segment') {
+      options.segmentId = argv[++i];
+    } else if (arg === '--json') {
+      options.json = true;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  options.fromMs ??= options.toMs - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000;
+  if (options.toMs <= options.fromMs) {
+    throw new Error('--to must be later than --from');
+  }
+  return options;
+}
+
+function printReport(incidents, from, to) {
+  console.log(
+    `Incidents ${from} → ${to} (z-score ≥ ${INCIDENT_Z_SCORE} and ratio ≥ ${MIN_INCIDENT_RATIO})\n`,
+  );
+  for (const incident of incidents) {
+    const until = incident.end === incident.start ? '' : ` → ${incident.end}`;
+    console.log(
+      `  ${incident.start}${until}  ${incident.segmentName} ${incident.direction}  ` +
+        `ratio ${incident.peakRatio.toFixed(2)} vs ${incident.typicalRatio.toFixed(2)} typical ` +
+        `(z ${incident.peakZScore.toFixed(1)}, ${incident.sampleCount} samples)`,
+    );
+  }
+  console.log(`\n${incidents.length} incidents`);
+}
+
+// The typical week needs the whole history, so every sample is read and only the report is limited.
+async function report() {
+  const options = parseArgs(process.argv.slice(2));
+  const storage = await createStorage();
+  const samples = [];
+  try {
+    for await (const sample of storage.readSamples()) {
+      samples.push(sample);
+    }
+  } finally {
+    await storage.close();
+  }
+  const from = new Date(options.fromMs).toISOString();
+  const to = new Date(options.toMs).toISOString();
+  const incidents = detectIncidents(samples, { from, to }).filter(
+    (incident) => options.segmentId == null || incident.segmentId === options.segmentId,
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify({ from, to, incidents }, null, 2));
+  } else {
+    printReport(incidents, from, to);
+  }
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  report().catch((error) => {
+    console.error('Incident report failed:', error.message ?? error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,88 @@
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { createStorage, STORAGE_BACKENDS } from '../src/storage/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const ROOT_DIR = path.resolve(__dirname, '..');
+const BATCH_SIZE = 500;
+
+function parseArgs(argv) {
+  const options = { from: 'jsonl', to: 'sqlite', force: false };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--from') {
+      options.from = argv[++i];
+    } else if (arg === '--to') {
+      options.to = argv[++i];
+    } else if (arg === '--force') {
+      options.force = true;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  for (const backend of [options.from, options.to]) {
+    if (!STORAGE_BACKENDS.includes(backend)) {
+      throw new Error(`Unknown storage backend "${backend}". Expected one of: ${STORAGE_BACKENDS.join(', ')}.`);
+    }
+  }
+  if (options.from === options.to) {
+    throw new Error('Source and target backends must differ.');
+  }
+  return options;
+}
+
+/**
+ * Copies every sample from one store into another. The target must be empty unless
+ * `force` is set, in which case it is cleared first.
+ */
+export async function migrateSamples(source, target, { force = false } = {}) {
+  const existing = await target.countSamples();
+  if (existing > 0) {
+    if (!force) {
+      throw new Error(
+        `Target ${target.location} already holds ${existing} samples. Re-run with --force to replace them.`,
+      );
+    }
+    await target.clear();
+  }
+
+  let copied = 0;
+  let batch = [];
+  for await (const sample of source.readSamples()) {
+    batch.push(sample);
+    if (batch.length >= BATCH_SIZE) {
+      await target.appendSamples(batch);
+      copied += batch.length;
+      batch = [];
+    }
+  }
+  await target.appendSamples(batch);
+  copied += batch.length;
+  return { copied };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const source = await createStorage({ backend: options.from });
+  const target = await createStorage({ backend: options.to });
+  try {
+    const { copied } = await migrateSamples(source, target, options);
+    console.log(
+      `Copied ${copied} samples from ${path.relative(ROOT_DIR, source.location)} to ${path.relative(
+        ROOT_DIR,
+        target.location,
+      )}. Set TRAFFIC_STORAGE=${options.to} to use it.`,
+    );
+  } finally {
+    await source.close();
+    await target.close();
+  }
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  main().catch((error) => {
+    console.error('Migration failed:', error.message ?? error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,183 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { DEFAULT_DEMAND_FILE, DemandValidationError, loadDemandFile } from '../src/demand.js';
+import { evaluateScenario } from '../src/simulator.js';
+import {
+  loadScenarioFile,
+  resolveScenarioPaths,
+  ScenarioValidationError,
+} from '../src/scenarios.js';
+import { createStorage } from '../src/storage/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const ROOT_DIR = path.resolve(__dirname, '..');
+const DEFAULT_SCENARIO_DIR = path.join(ROOT_DIR, 'scenarios');
+const DEFAULT_OUTPUT_DIR = path.join(ROOT_DIR, 'data', 'simulations');
+
+function parseArgs(argv) {
+  const options = { inputs: [], outputDir: DEFAULT_OUTPUT_DIR, samplesFile: null, demandFile: null };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--out') {
+      options.outputDir = path.resolve(argv[++i]);
+    } else if (arg === '--samples') {
+      options.samplesFile = path.resolve(argv[++i]);
+    } else if (arg === '--demand') {
+      options.demandFile = path.resolve(argv[++i]);
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+  if (options.inputs.length === 0) {
+    options.inputs.push(DEFAULT_SCENARIO_DIR);
+  }
+  return options;
+}
+
+async function readSamples(samplesFile) {
+  const storage = await createStorage(samplesFile ? { backend: 'jsonl', jsonlFile: samplesFile } : {});
+  try {
+    const samples = [];
+    for await (const sample of storage.readSamples()) {
+      samples.push(sample);
+    }
+    return { samples, location: storage.location };
+  } finally {
+    await storage.close();
+  }
+}
+
+/**
+ * Loads every scenario before simulating anything, so one typo aborts the whole batch
+ * with the complete list of problems.
+ */
+export async function loadScenarios(inputs) {
+  const files = await resolveScenarioPaths(inputs);
+  const scenarios = [];
+  const errors = [];
+  for (const file of files) {
+    try {
+      scenarios.push({ file, scenario: await loadScenarioFile(file) });
+    } catch (error) {
+      if (error instanceof ScenarioValidationError) {
+        errors.push(error);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  const byId = new Map();
+  for (const { file, scenario } of scenarios) {
+    if (byId.has(scenario.id)) {
+      errors.push(
+        new ScenarioValidationError(file, [`id "${scenario.id}" already used by ${byId.get(scenario.id)}`]),
+      );
+    }
+    byId.set(scenario.id, file);
+  }
+
+  return { scenarios, errors };
+}
+
+// An explicit --demand file must load; the default one is optional.
+async function readDemand(demandFile) {
+  try {
+    return await loadDemandFile(demandFile ?? DEFAULT_DEMAND_FILE);
+  } catch (error) {
+    if (!demandFile && error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export function summariseResults(results) {
+  return results.map(({ file, result }) => ({
+    scenarioId: result.scenarioId,
+    name: result.name,
+    file,
+    ...result.summary,
+  }));
+}
+
+async function simulate() {
+  const options = parseArgs(process.argv.slice(2));
+  const { scenarios, errors } = await loadScenarios(options.inputs);
+  if (errors.length > 0) {
+    errors.forEach((error) => console.error(error.message));
+    process.exit(1);
+  }
+  if (scenarios.length === 0) {
+    console.error('No scenario files found.');
+    process.exit(1);
+  }
+
+  let demand;
+  try {
+    demand = await readDemand(options.demandFile);
+  } catch (error) {
+    if (error instanceof DemandValidationError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+  if (demand) {
+    console.log(`Assigning ${demand.trips.length} OD pairs${demand.name ? ` (${demand.name})` : ''}`);
+  }
+
+  const { samples, location } = await readSamples(options.samplesFile);
+  await fs.mkdir(options.outputDir, { recursive: true });
+
+  const results = [];
+  for (const { file, scenario } of scenarios) {
+    const result = evaluateScenario(scenario, {
+      samples,
+      from: scenario.window?.from,
+      to: scenario.window?.to,
+      demand,
+    });
+    const outputFile = path.join(options.outputDir, `${scenario.id}.json`);
+    await fs.writeFile(outputFile, `${JSON.stringify(result, null, 2)}\n`, 'utf8');
+    results.push({ file: path.relative(ROOT_DIR, file), result });
+    console.log(
+      `${scenario.id}: ${result.summary.modifiedLinks} modified, ${result.summary.removedLinks} removed, ` +
+        `${result.summary.addedLinks} added, ${result.summary.changedTurns} turns changed, ` +
+        `Δ ${result.summary.vehicleHoursDelta.toFixed(2)} veh·h`,
+    );
+    if (result.assignment) {
+      const { baseline, scenario: assigned } = result.assignment;
+      console.log(
+        `  assignment: Δ ${result.summary.assignedVehicleHoursDelta.toFixed(2)} veh·h, ` +
+          `gap ${assigned.relativeGap.toExponential(1)} after ${assigned.iterations} iterations ` +
+          `(baseline ${baseline.iterations}, ${(baseline.elapsedMs + assigned.elapsedMs).toFixed(0)} ms)`,
+      );
+      if (!assigned.converged) {
+        console.warn(`  ${scenario.id}: assignment did not converge`);
+      }
+      for (const trip of assigned.unassignedTrips) {
+        console.warn(`  ${scenario.id}: no route for ${trip.vph} veh/h from ${trip.from} to ${trip.to}`);
+      }
+    }
+    for (const problem of result.network.introducedProblems) {
+      console.warn(`  ${scenario.id}: ${problem.message}`);
+    }
+  }
+
+  const summary = {
+    generatedAt: new Date().toISOString(),
+    samples: path.relative(ROOT_DIR, location),
+    scenarios: summariseResults(results),
+  };
+  const summaryFile = path.join(options.outputDir, 'summary.json');
+  await fs.writeFile(summaryFile, `${JSON.stringify(summary, null, 2)}\n`, 'utf8');
+  console.log(`Wrote ${results.length} scenario results and ${path.relative(ROOT_DIR, summaryFile)}`);
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  simulate().catch((error) => {
+    console.error('Simulation failed:', error);
+    process.exit(1);
+  });
+}
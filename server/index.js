@@ -1,67 +1,632 @@
 import http from "http";
+import { pathToFileURL } from "url";
+import { enrichSamples, resolveSegmentMetadata } from "../scripts/enrich_flows.js";
+import { AGGREGATE_INTERVALS, createAggregator } from "../src/aggregates.js";
+import { CronExpressionError } from "../src/cron.js";
+import {
+  DEFAULT_FIELD_COUNTS_FILE,
+  FieldCountValidationError,
+  importFieldCounts,
+  loadFieldCounts,
+  parseFieldCountRows,
+  parseFieldCountsCsv
+} from "../src/fieldCounts.js";
+import { countsOverlapping, validateDerivedFlows } from "../src/flowValidation.js";
+import { backtestForecasts, buildForecastModel, forecastLink } from "../src/forecast.js";
+import { validateNetwork } from "../src/network.js";
 import { collectSamples } from "../src/poller.js";
+import { parseSampleFilter, SampleQueryError } from "../src/sampleQuery.js";
+import { streetSegments } from "../src/segments.js";
+import { describeSegmentTimeline, getSegmentsAt, resolveSegmentConfiguration } from "../src/segmentRegistry.js";
+import { createScheduler, DEFAULT_POLL_SCHEDULE, parseScheduleList } from "../src/scheduler.js";
+import { buildNetworkGraph } from "../src/simulator.js";
+import { createStorage } from "../src/storage/index.js";
+import {
+  createRoutingGraphCache,
+  queryOdMatrix,
+  queryRouteTravelTime,
+  TravelTimeQueryError
+} from "../src/travelTime.js";
+import { detectIncidents, scoreSamples } from "../src/typicalWeek.js";
 
 const PORT = Number(process.env.POLL_SERVER_PORT ?? 4000);
+const MAX_BODY_BYTES = 64 * 1024;
+// A week of 15-minute tube counts on a few links.
+const MAX_FIELD_COUNTS_BYTES = 1024 * 1024;
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Allow-Methods": "GET,POST,OPTIONS"
+};
 let isPolling = false;
 
 function sendJson(res, statusCode, payload) {
   const body = JSON.stringify(payload);
   res.writeHead(statusCode, {
     "Content-Type": "application/json",
-    "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Headers": "Content-Type",
-    "Access-Control-Allow-Methods": "GET,POST,OPTIONS"
+    ...CORS_HEADERS
   });
   res.end(body);
 }
 
-const server = http.createServer(async (req, res) => {
-  if (req.method === "OPTIONS") {
-    res.writeHead(204, {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Headers": "Content-Type",
-      "Access-Control-Allow-Methods": "GET,POST,OPTIONS"
-    });
-    res.end();
-    return;
+function describeCurrentSegments() {
+  const segments = getSegmentsAt(new Date());
+  const metadata = resolveSegmentMetadata(segments);
+  return segments.map((segment) => {
+    const meta = metadata.get(segment.id);
+    return {
+      id: segment.id,
+      name: segment.name,
+      endpoints: segment.endpoints,
+      geometry: segment.geometry,
+      allowedDirections: segment.metadata?.allowedDirections ?? ["forward", "reverse"],
+      lanes: meta.lanes,
+      laneCapacityVph: segment.metadata?.laneCapacityVph ?? null,
+      capacityVph: meta.capacityVph,
+      lengthMeters: meta.lengthMeters,
+      speedLimitKph: meta.speedLimitKph,
+      flowModel: meta.flowModel,
+      configurationPeriod: segment.configurationPeriod
+    };
+  });
+}
+
+function describeNetwork() {
+  const segments = getSegmentsAt(new Date());
+  const graph = buildNetworkGraph(segments);
+  return {
+    nodes: [...graph.nodes.values()].map((node) => ({
+      id: node.id,
+      name: node.name,
+      latitude: node.latitude,
+      longitude: node.longitude,
+      endpoints: node.endpoints,
+      incoming: node.incoming,
+      outgoing: node.outgoing
+    })),
+    turns: [...graph.turns.values()],
+    problems: validateNetwork(graph, { segments })
+  };
+}
+
+class RequestBodyError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "RequestBodyError";
   }
+}
 
-  if (req.method === "GET" && req.url === "/health") {
-    sendJson(res, 200, { status: "ok" });
-    return;
+async function readBody(req, maxBytes = MAX_BODY_BYTES) {
+  let raw = "";
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > maxBytes) {
+      throw new RequestBodyError("Request body too large.");
+    }
   }
+  return raw;
+}
 
-  if (req.method === "POST" && req.url === "/poll") {
-    if (isPolling) {
-      sendJson(res, 409, { success: false, message: "A poll is already in progress." });
-      return;
+async function readJsonBody(req, maxBytes) {
+  const raw = await readBody(req, maxBytes);
+  if (!raw.trim()) return {};
+  let body;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new RequestBodyError("Request body must be valid JSON.");
+  }
+  if (body === null || typeof body !== "object" || Array.isArray(body)) {
+    throw new RequestBodyError("Request body must be a JSON object.");
+  }
+  return body;
+}
+
+async function streamSamples(res, storage, filter) {
+  res.writeHead(200, {
+    "Content-Type": "application/x-ndjson",
+    ...CORS_HEADERS
+  });
+  // Leaving the loop on a disconnect returns the generator, which releases the store's reader.
+  for await (const sample of storage.readSamples(filter)) {
+    if (res.destroyed) break;
+    if (!res.write(`${JSON.stringify(sample)}\n`)) {
+      await new Promise((resolve) => {
+        const done = () => {
+          res.off("drain", done);
+          res.off("close", done);
+          resolve();
+        };
+        res.on("drain", done);
+        res.on("close", done);
+      });
     }
+  }
+  res.end();
+}
 
-    isPolling = true;
-    const startedAt = new Date().toISOString();
+async function readSamples(storage, filter = {}) {
+  const samples = [];
+  for await (const sample of storage.readSamples(filter)) {
+    samples.push(sample);
+  }
+  return samples;
+}
 
-    try {
-      const { samples } = await collectSamples({ logProgress: false, logErrors: true });
-      sendJson(res, 200, {
-        success: true,
-        count: samples.length,
-        startedAt,
-        completedAt: new Date().toISOString()
+/**
+ * The full sample history and what is derived from it (`derive(key, build)`), kept until
+ * the store's revision changes: a poll, an enrichment or a write by another process.
+ * Endpoints that need only part of the history read that part from the store instead.
+ */
+function createHistoryCache(getStorage) {
+  let current = null;
+  const load = async () => {
+    const storage = await getStorage();
+    const revision = await storage.revision();
+    if (current?.revision !== revision) {
+      const entry = { revision, samples: readSamples(storage), derived: new Map() };
+      entry.samples.catch(() => {
+        if (current === entry) current = null;
       });
-    } catch (error) {
-      sendJson(res, 500, {
-        success: false,
-        message: error instanceof Error ? error.message : "Unknown error"
+      current = entry;
+    }
+    return current;
+  };
+  return {
+    async samples() {
+      return (await load()).samples;
+    },
+    async derive(key, build) {
+      const entry = await load();
+      if (!entry.derived.has(key)) {
+        entry.derived.set(key, entry.samples.then(build));
+      }
+      return entry.derived.get(key);
+    }
+  };
+}
+
+// No counts file yet means nothing to validate against, not an error.
+async function readFieldCounts(file) {
+  try {
+    return await loadFieldCounts(file);
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function computeAggregates(storage, filter, interval) {
+  const aggregator = createAggregator({ interval });
+  for await (const sample of storage.readSamples(filter)) {
+    aggregator.add(sample);
+  }
+  return aggregator.result();
+}
+
+/**
+ * Builds the control server. Polls, manual (`POST /poll`) or scheduled, share one
+ * in-flight guard; scheduled runs also enrich the new samples, like `npm run poll`. The
+ * scheduler starts paused unless `startScheduler` is set.
+ */
+export function createControlServer({
+  storage,
+  provider,
+  schedule = DEFAULT_POLL_SCHEDULE,
+  startScheduler = false,
+  fieldCountsFile = DEFAULT_FIELD_COUNTS_FILE
+} = {}) {
+  let storagePromise = null;
+  // The store is opened on first use so the SQLite file is not created just by importing.
+  const getStorage = () => {
+    storagePromise ??= storage ? Promise.resolve(storage) : createStorage();
+    return storagePromise;
+  };
+
+  const runPoll = async ({ enrich = false } = {}) => {
+    if (isPolling) {
+      return { status: "busy" };
+    }
+    isPolling = true;
+    try {
+      const store = await getStorage();
+      const { samples, stats } = await collectSamples({
+        logProgress: false,
+        logErrors: true,
+        storage: store,
+        provider
       });
+      if (enrich && samples.length > 0) {
+        await enrichSamples({ storage: store });
+      }
+      return { status: "completed", count: samples.length, stats };
     } finally {
       isPolling = false;
     }
-    return;
+  };
+
+  const routingGraphs = createRoutingGraphCache();
+  const history = createHistoryCache(getStorage);
+  // Typical week and weather effects of the whole history, shared by incidents and forecasts.
+  const forecastModel = () => history.derive("forecastModel", buildForecastModel);
+
+  const scheduler = createScheduler({
+    expressions: schedule,
+    run: () => runPoll({ enrich: true })
+  });
+  if (startScheduler) {
+    scheduler.resume();
   }
 
-  sendJson(res, 404, { success: false, message: "Not found" });
-});
+  const server = http.createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host ?? "localhost"}`);
+
+    if (req.method === "GET" && url.pathname === "/health") {
+      sendJson(res, 200, { status: "ok" });
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/segments") {
+      sendJson(res, 200, { segments: describeCurrentSegments() });
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/network") {
+      sendJson(res, 200, describeNetwork());
+      return;
+    }
 
-server.listen(PORT, () => {
-  console.log(`Poll control server listening on http://localhost:${PORT}`);
-});
+    if (req.method === "GET" && (url.pathname === "/samples" || url.pathname === "/aggregates")) {
+      let filter;
+      try {
+        filter = parseSampleFilter(url.searchParams);
+      } catch (error) {
+        if (error instanceof SampleQueryError) {
+          sendJson(res, 400, { success: false, message: error.message });
+          return;
+        }
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+        return;
+      }
+
+      try {
+        if (url.pathname === "/samples") {
+          await streamSamples(res, await getStorage(), filter);
+          return;
+        }
+
+        const interval = url.searchParams.get("interval") ?? "hour";
+        if (!AGGREGATE_INTERVALS.includes(interval)) {
+          sendJson(res, 400, { success: false, message: `Invalid interval: ${interval}` });
+          return;
+        }
+        sendJson(res, 200, { interval, aggregates: await computeAggregates(await getStorage(), filter, interval) });
+      } catch (error) {
+        if (res.headersSent) {
+          res.destroy(error);
+          return;
+        }
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+      return;
+    }
+
+    if (req.method === "GET" && (url.pathname === "/routes/travel-time" || url.pathname === "/routes/matrix")) {
+      try {
+        const samples = await history.samples();
+        const at = url.searchParams.get("at") || undefined;
+        if (url.pathname === "/routes/matrix") {
+          sendJson(res, 200, queryOdMatrix({ samples, at, routingGraphs }));
+          return;
+        }
+        const result = queryRouteTravelTime({
+          samples,
+          from: url.searchParams.get("from"),
+          to: url.searchParams.get("to"),
+          at,
+          since: url.searchParams.get("since"),
+          until: url.searchParams.get("until"),
+          routingGraphs
+        });
+        if (!result) {
+          sendJson(res, 404, { success: false, message: "No allowed route between these intersections." });
+          return;
+        }
+        sendJson(res, 200, result);
+      } catch (error) {
+        if (error instanceof TravelTimeQueryError) {
+          sendJson(res, 400, { success: false, message: error.message });
+          return;
+        }
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/validation") {
+      const from = url.searchParams.get("from") || null;
+      const to = url.searchParams.get("to") || null;
+      const invalid = [from, to].find((value) => value != null && Number.isNaN(new Date(value).getTime()));
+      if (invalid) {
+        sendJson(res, 400, { success: false, message: `Invalid timestamp: ${invalid}` });
+        return;
+      }
+      try {
+        // Only the samples polled during the matching count windows can be aligned with them.
+        const counts = countsOverlapping(await readFieldCounts(fieldCountsFile), from, to);
+        const samples =
+          counts.length === 0
+            ? []
+            : await readSamples(await getStorage(), {
+                fromMs: Math.min(...counts.map((count) => new Date(count.observationStart).getTime())),
+                toMs: Math.max(...counts.map((count) => new Date(count.observationEnd).getTime()))
+              });
+        sendJson(res, 200, validateDerivedFlows({ counts, samples, from, to }));
+      } catch (error) {
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/incidents") {
+      const from = url.searchParams.get("from") || null;
+      const to = url.searchParams.get("to") || null;
+      const segmentId = url.searchParams.get("segmentId") || null;
+      const invalid = [from, to].find((value) => value != null && Number.isNaN(new Date(value).getTime()));
+      if (invalid) {
+        sendJson(res, 400, { success: false, message: `Invalid timestamp: ${invalid}` });
+        return;
+      }
+      try {
+        // The typical week comes from the whole history; only the reported window is read.
+        const [{ typicalWeek }, samples] = await Promise.all([
+          forecastModel(),
+          readSamples(await getStorage(), {
+            segmentId,
+            fromMs: from ? new Date(from).getTime() : null,
+            toMs: to ? new Date(to).getTime() : null
+          })
+        ]);
+        sendJson(res, 200, { from, to, incidents: detectIncidents(samples, { from, to, typicalWeek }) });
+      } catch (error) {
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/typical") {
+      let filter;
+      try {
+        filter = parseSampleFilter(url.searchParams);
+      } catch (error) {
+        if (error instanceof SampleQueryError) {
+          sendJson(res, 400, { success: false, message: error.message });
+          return;
+        }
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+        return;
+      }
+      try {
+        const [{ typicalWeek }, samples] = await Promise.all([forecastModel(), readSamples(await getStorage(), filter)]);
+        sendJson(res, 200, {
+          from: filter.fromMs != null ? new Date(filter.fromMs).toISOString() : null,
+          to: filter.toMs != null ? new Date(filter.toMs).toISOString() : null,
+          scores: scoreSamples(typicalWeek, samples)
+        });
+      } catch (error) {
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/forecast") {
+      const segmentId = url.searchParams.get("segmentId");
+      const direction = url.searchParams.get("direction");
+      const at = url.searchParams.get("at") || null;
+      if (!streetSegments.some((segment) => segment.id === segmentId)) {
+        sendJson(res, 400, { success: false, message: `Unknown segmentId: ${segmentId ?? "(missing)"}` });
+        return;
+      }
+      if (direction !== "forward" && direction !== "reverse") {
+        sendJson(res, 400, { success: false, message: 'direction must be "forward" or "reverse".' });
+        return;
+      }
+      if (at != null && Number.isNaN(new Date(at).getTime())) {
+        sendJson(res, 400, { success: false, message: `Invalid "at" timestamp: ${at}` });
+        return;
+      }
+      try {
+        const storage = await getStorage();
+        // Issued at `at`, the model may only see the history up to then, so it is refitted.
+        const forecast = at
+          ? forecastLink(await readSamples(storage, { toMs: new Date(at).getTime() }), { segmentId, direction, at })
+          : forecastLink(await readSamples(storage, { segmentId, direction }), {
+              segmentId,
+              direction,
+              model: await forecastModel()
+            });
+        if (!forecast) {
+          sendJson(res, 404, { success: false, message: `No usable sample for ${segmentId} ${direction}.` });
+          return;
+        }
+        const backtest = await history.derive(`backtest:${segmentId}:${direction}`, (samples) =>
+          backtestForecasts(samples, { segmentId, direction })
+        );
+        sendJson(res, 200, { ...forecast, backtest });
+      } catch (error) {
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/segments/config") {
+      const at = url.searchParams.get("at") ?? new Date().toISOString();
+      if (Number.isNaN(new Date(at).getTime())) {
+        sendJson(res, 400, { success: false, message: `Invalid "at" timestamp: ${at}` });
+        return;
+      }
+      sendJson(res, 200, {
+        at,
+        segments: streetSegments.map((segment) => {
+          const { metadata, configurationPeriod } = resolveSegmentConfiguration(segment, at);
+          return {
+            segmentId: segment.id,
+            name: segment.name,
+            allowedDirections: metadata.allowedDirections ?? ["forward", "reverse"],
+            ...configurationPeriod,
+            timeline: describeSegmentTimeline(segment).map((period) => ({
+              effectiveFrom: period.effectiveFrom,
+              effectiveTo: period.effectiveTo,
+              allowedDirections: period.metadata.allowedDirections ?? ["forward", "reverse"],
+              lanes: period.metadata.lanes ?? null,
+              laneCapacityVph: period.metadata.laneCapacityVph ?? null
+            }))
+          };
+        })
+      });
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/poll") {
+      const startedAt = new Date().toISOString();
+      try {
+        const result = await runPoll();
+        if (result.status === "busy") {
+          sendJson(res, 409, { success: false, message: "A poll is already in progress." });
+          return;
+        }
+        sendJson(res, 200, {
+          success: true,
+          count: result.count,
+          startedAt,
+          completedAt: new Date().toISOString(),
+          stats: result.stats
+        });
+      } catch (error) {
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+      return;
+    }
+
+    // A counting sheet as CSV (Content-Type: text/csv, same columns as the field counts
+    // file) or JSON `{ "counts": [...] }`; `source` in the query names it in the problems.
+    if (req.method === "POST" && url.pathname === "/field-counts") {
+      try {
+        const source = url.searchParams.get("source") ?? "upload";
+        const counts = (req.headers["content-type"] ?? "").startsWith("text/csv")
+          ? parseFieldCountsCsv(await readBody(req, MAX_FIELD_COUNTS_BYTES), source)
+          : parseFieldCountRows((await readJsonBody(req, MAX_FIELD_COUNTS_BYTES)).counts, source);
+        const result = await importFieldCounts(counts, { file: fieldCountsFile, source });
+        sendJson(res, 201, { success: true, ...result });
+      } catch (error) {
+        if (error instanceof FieldCountValidationError) {
+          sendJson(res, 400, { success: false, message: error.message, problems: error.problems });
+          return;
+        }
+        if (error instanceof RequestBodyError) {
+          sendJson(res, 400, { success: false, message: error.message });
+          return;
+        }
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/schedule") {
+      sendJson(res, 200, scheduler.status());
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/schedule") {
+      try {
+        const body = await readJsonBody(req);
+        if (body.action != null && !["pause", "resume"].includes(body.action)) {
+          throw new RequestBodyError(`Unknown action: ${body.action}`);
+        }
+        if (body.expressions != null) {
+          const expressions = parseScheduleList(body.expressions);
+          if (expressions.length === 0) {
+            throw new RequestBodyError("At least one cron expression is required.");
+          }
+          scheduler.setExpressions(expressions);
+        }
+        if (body.action === "pause") scheduler.pause();
+        if (body.action === "resume") scheduler.resume();
+        sendJson(res, 200, scheduler.status());
+      } catch (error) {
+        if (error instanceof RequestBodyError || error instanceof CronExpressionError) {
+          sendJson(res, 400, { success: false, message: error.message });
+          return;
+        }
+        sendJson(res, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+      return;
+    }
+
+    sendJson(res, 404, { success: false, message: "Not found" });
+  });
+
+  server.scheduler = scheduler;
+  server.on("close", () => scheduler.stop());
+  return server;
+}
+
+const executedDirectly = import.meta.url === pathToFileURL(process.argv[1] ?? "").href;
+
+if (executedDirectly) {
+  // POLL_SCHEDULE turns on scheduled polling: "default" for the built-in schedule, or
+  // cron expressions separated by ";". Unset or "off" leaves it waiting for POST /schedule.
+  const scheduleSetting = process.env.POLL_SCHEDULE?.trim() ?? "";
+  const startScheduler = scheduleSetting !== "" && scheduleSetting !== "off";
+  const schedule =
+    startScheduler && scheduleSetting !== "default"
+      ? parseScheduleList(scheduleSetting)
+      : DEFAULT_POLL_SCHEDULE;
+  const server = createControlServer({ schedule, startScheduler });
+  server.listen(PORT, () => {
+    console.log(`Poll control server listening on http://localhost:${PORT}`);
+    const { nextRunAt, expressions } = server.scheduler.status();
+    if (nextRunAt) {
+      console.log(`Scheduled polling (${expressions.join("; ")}), next run at ${nextRunAt}`);
+    }
+  });
+}
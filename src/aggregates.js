@@ -0,0 +1,100 @@
+import { deriveFlowMetrics } from "../scripts/enrich_flows.js";
+
+export const AGGREGATE_INTERVALS = ["hour", "day"];
+
+// Buckets are aligned to UTC so the result does not depend on the server's timezone.
+export function bucketStart(requestedAt, interval) {
+  const date = new Date(requestedAt);
+  if (Number.isNaN(date.getTime())) return null;
+  if (interval === "day") {
+    date.setUTCHours(0, 0, 0, 0);
+  } else {
+    date.setUTCMinutes(0, 0, 0);
+  }
+  return date.toISOString();
+}
+
+function createBucket(sample, interval, start) {
+  return {
+    segmentId: sample.segmentId,
+    direction: sample.direction,
+    interval,
+    bucketStart: start,
+    sampleCount: 0,
+    ratioSum: 0,
+    ratioCount: 0,
+    delaySum: 0,
+    delayCount: 0,
+    flowSum: 0,
+    flowCount: 0
+  };
+}
+
+function resolveFlow(sample) {
+  if (typeof sample.derivedFlowVph === "number") return sample.derivedFlowVph;
+  return deriveFlowMetrics(sample).derivedFlowVph;
+}
+
+/**
+ * Incrementally aggregates samples into hourly or daily buckets per segment-direction.
+ * Call `add` for each sample and `result` once at the end.
+ */
+export function createAggregator({ interval = "hour" } = {}) {
+  const buckets = new Map();
+
+  return {
+    add(sample) {
+      const start = bucketStart(sample.requestedAt, interval);
+      if (!start) return;
+      const key = `${sample.segmentId}|${sample.direction}|${start}`;
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = createBucket(sample, interval, start);
+        buckets.set(key, bucket);
+      }
+      bucket.sampleCount += 1;
+
+      const { durationSeconds, staticDurationSeconds } = sample;
+      if (durationSeconds != null && staticDurationSeconds != null && staticDurationSeconds > 0) {
+        bucket.ratioSum += durationSeconds / staticDurationSeconds;
+        bucket.ratioCount += 1;
+        bucket.delaySum += durationSeconds - staticDurationSeconds;
+        bucket.delayCount += 1;
+      }
+
+      const flow = resolveFlow(sample);
+      if (flow != null && Number.isFinite(flow)) {
+        bucket.flowSum += flow;
+        bucket.flowCount += 1;
+      }
+    },
+
+    result() {
+      return Array.from(buckets.values())
+        .map((bucket) => ({
+          segmentId: bucket.segmentId,
+          direction: bucket.direction,
+          interval: bucket.interval,
+          bucketStart: bucket.bucketStart,
+          sampleCount: bucket.sampleCount,
+          meanRatio: bucket.ratioCount > 0 ? bucket.ratioSum / bucket.ratioCount : null,
+          meanDelaySeconds: bucket.delayCount > 0 ? bucket.delaySum / bucket.delayCount : null,
+          meanDerivedFlowVph: bucket.flowCount > 0 ? bucket.flowSum / bucket.flowCount : null
+        }))
+        .sort(
+          (a, b) =>
+            a.bucketStart.localeCompare(b.bucketStart) ||
+            a.segmentId.localeCompare(b.segmentId) ||
+            a.direction.localeCompare(b.direction)
+        );
+    }
+  };
+}
+
+export function aggregateSamples(samples, options) {
+  const aggregator = createAggregator(options);
+  for (const sample of samples) {
+    aggregator.add(sample);
+  }
+  return aggregator.result();
+}
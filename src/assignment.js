@@ -0,0 +1,224 @@
+import { travelTimeRatio } from "./delayModels.js";
+import { findShortestPath, freeFlowSeconds as speedLimitSeconds, turnId } from "./network.js";
+
+export const ASSIGNMENT_METHODS = ["frank-wolfe", "msa"];
+export const DEFAULT_MAX_ITERATIONS = 100;
+// Relative gap at which the flows count as an equilibrium.
+export const DEFAULT_GAP_TOLERANCE = 1e-4;
+
+const LINE_SEARCH_STEPS = 40;
+
+function linkTravelTime(link, flowVph, freeFlow) {
+  if (!(link.capacityVph > 0)) return freeFlow;
+  const ratio = travelTimeRatio(link.flowModel, flowVph / link.capacityVph, {
+    freeFlowSeconds: freeFlow,
+    capacityVph: link.capacityVph
+  });
+  return ratio != null ? freeFlow * ratio : freeFlow;
+}
+
+// Loads every trip onto its current shortest path. Turn flows are tracked because turn
+// penalties are part of the path cost.
+function allOrNothing(graph, trips, times) {
+  const linkFlows = new Map();
+  const turnFlows = new Map();
+  for (const trip of trips) {
+    const path = findShortestPath(graph, {
+      fromNodeId: trip.from,
+      toNodeId: trip.to,
+      linkCostSeconds: (link) => times.get(link.id)
+    });
+    path.linkIds.forEach((id, index) => {
+      linkFlows.set(id, (linkFlows.get(id) ?? 0) + trip.vph);
+      if (index > 0) {
+        const turn = turnId(path.linkIds[index - 1], id);
+        turnFlows.set(turn, (turnFlows.get(turn) ?? 0) + trip.vph);
+      }
+    });
+  }
+  return { linkFlows, turnFlows };
+}
+
+function turnPenalty(graph, id) {
+  return graph.turns.get(id)?.penaltySeconds ?? 0;
+}
+
+// Total cost of a flow pattern with link times taken from `times`, in vehicle-seconds per hour.
+function totalCost(graph, flows, times) {
+  let total = 0;
+  for (const [id, flow] of flows.linkFlows) total += flow * times.get(id);
+  for (const [id, flow] of flows.turnFlows) total += flow * turnPenalty(graph, id);
+  return total;
+}
+
+function interpolate(current, target, step) {
+  const result = new Map();
+  for (const id of new Set([...current.keys(), ...target.keys()])) {
+    const from = current.get(id) ?? 0;
+    result.set(id, from + step * ((target.get(id) ?? 0) - from));
+  }
+  return result;
+}
+
+/**
+ * Bisection on the derivative of the Beckmann objective along the move from `current`
+ * to `target`; returns the step in [0, 1] that minimises it.
+ */
+function lineSearch(graph, current, target, freeFlow) {
+  const slope = (step) => {
+    let total = 0;
+    for (const id of new Set([...current.linkFlows.keys(), ...target.linkFlows.keys()])) {
+      const from = current.linkFlows.get(id) ?? 0;
+      const change = (target.linkFlows.get(id) ?? 0) - from;
+      if (change !== 0) total += change * linkTravelTime(graph.links.get(id), from + step * change, freeFlow.get(id));
+    }
+    for (const id of new Set([...current.turnFlows.keys(), ...target.turnFlows.keys()])) {
+      const change = (target.turnFlows.get(id) ?? 0) - (current.turnFlows.get(id) ?? 0);
+      total += change * turnPenalty(graph, id);
+    }
+    return total;
+  };
+  if (slope(1) <= 0) return 1;
+  if (slope(0) >= 0) return 0;
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < LINE_SEARCH_STEPS; i += 1) {
+    const middle = (low + high) / 2;
+    if (slope(middle) < 0) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Static user-equilibrium assignment of `trips` (`{ from, to, vph }` between node ids)
+ * over a routing graph, with link times from each link's capacity and delay model. Frank-Wolfe
+ * picks every step by line search; "msa" uses the method of successive averages (1/k).
+ * Iterations stop once the relative gap (share of total travel time that shortest paths
+ * would save) falls below `gapTolerance`. `freeFlowSeconds(link)` defaults to the speed
+ * limit; links it returns null for are not used. Trips without any route are reported in
+ * `unassignedTrips`.
+ */
+export function assignTraffic(
+  graph,
+  trips,
+  {
+    method = "frank-wolfe",
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+    gapTolerance = DEFAULT_GAP_TOLERANCE,
+    freeFlowSeconds = speedLimitSeconds
+  } = {}
+) {
+  if (!ASSIGNMENT_METHODS.includes(method)) {
+    throw new Error(`Unknown assignment method: ${method}`);
+  }
+  const startedAt = performance.now();
+  const freeFlow = new Map();
+  for (const link of graph.links.values()) {
+    const seconds = freeFlowSeconds(link);
+    if (seconds != null) freeFlow.set(link.id, seconds);
+  }
+  const timesFor = (linkFlows) =>
+    new Map([...freeFlow].map(([id, seconds]) => [id, linkTravelTime(graph.links.get(id), linkFlows.get(id) ?? 0, seconds)]));
+
+  const routable = [];
+  const unassignedTrips = [];
+  for (const trip of trips) {
+    if (trip.vph <= 0) continue;
+    const path = findShortestPath(graph, {
+      fromNodeId: trip.from,
+      toNodeId: trip.to,
+      linkCostSeconds: (link) => freeFlow.get(link.id)
+    });
+    (path ? routable : unassignedTrips).push(trip);
+  }
+
+  let flows = allOrNothing(graph, routable, new Map(freeFlow));
+  const history = [];
+  let relativeGap = routable.length > 0 ? Infinity : 0;
+  for (let iteration = 1; iteration <= maxIterations && relativeGap > gapTolerance; iteration += 1) {
+    const iterationStartedAt = performance.now();
+    const times = timesFor(flows.linkFlows);
+    const target = allOrNothing(graph, routable, times);
+    const current = totalCost(graph, flows, times);
+    relativeGap = current > 0 ? (current - totalCost(graph, target, times)) / current : 0;
+
+    let step = 0;
+    if (relativeGap > gapTolerance) {
+      step = method === "msa" ? 1 / (iteration + 1) : lineSearch(graph, flows, target, freeFlow);
+      flows = {
+        linkFlows: interpolate(flows.linkFlows, target.linkFlows, step),
+        turnFlows: interpolate(flows.turnFlows, target.turnFlows, step)
+      };
+    }
+    history.push({ iteration, relativeGap, step, elapsedMs: performance.now() - iterationStartedAt });
+  }
+
+  const times = timesFor(flows.linkFlows);
+  const links = [...graph.links.values()].map((link) => {
+    const flowVph = flows.linkFlows.get(link.id) ?? 0;
+    return {
+      linkId: link.id,
+      parentLinkId: link.parentLinkId ?? link.id,
+      segmentId: link.segmentId,
+      direction: link.direction,
+      fraction: link.fraction ?? 1,
+      flowVph,
+      freeFlowSeconds: freeFlow.get(link.id) ?? null,
+      travelTimeSeconds: times.get(link.id) ?? null,
+      volumeCapacityRatio: link.capacityVph > 0 ? flowVph / link.capacityVph : null
+    };
+  });
+
+  return {
+    method,
+    converged: relativeGap <= gapTolerance,
+    iterations: history.length,
+    relativeGap,
+    elapsedMs: performance.now() - startedAt,
+    history,
+    links,
+    turns: [...flows.turnFlows]
+      .filter(([, flowVph]) => flowVph > 0)
+      .map(([id, flowVph]) => ({ turnId: id, flowVph })),
+    totalVehicleHours: totalCost(graph, flows, times) / 3600,
+    assignedVph: routable.reduce((sum, trip) => sum + trip.vph, 0),
+    unassignedTrips
+  };
+}
+
+/**
+ * Folds the pieces of links cut at interior junctions back into whole links: flow is the
+ * length-weighted mean, times add up and v/c is the worst piece.
+ */
+export function summariseAssignedLinks(links) {
+  const byParent = new Map();
+  for (const piece of links) {
+    const current = byParent.get(piece.parentLinkId);
+    if (!current) {
+      byParent.set(piece.parentLinkId, {
+        linkId: piece.parentLinkId,
+        segmentId: piece.segmentId,
+        direction: piece.direction,
+        flowVph: piece.flowVph * piece.fraction,
+        freeFlowSeconds: piece.freeFlowSeconds,
+        travelTimeSeconds: piece.travelTimeSeconds,
+        volumeCapacityRatio: piece.volumeCapacityRatio
+      });
+      continue;
+    }
+    current.flowVph += piece.flowVph * piece.fraction;
+    current.freeFlowSeconds = sumOrNull(current.freeFlowSeconds, piece.freeFlowSeconds);
+    current.travelTimeSeconds = sumOrNull(current.travelTimeSeconds, piece.travelTimeSeconds);
+    current.volumeCapacityRatio =
+      piece.volumeCapacityRatio == null
+        ? current.volumeCapacityRatio
+        : Math.max(current.volumeCapacityRatio ?? 0, piece.volumeCapacityRatio);
+  }
+  return [...byParent.values()];
+}
+
+function sumOrNull(a, b) {
+  if (a == null || b == null) return null;
+  return a + b;
+}
@@ -0,0 +1,246 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { BPR_DEFAULT_ALPHA, BPR_DEFAULT_BETA, travelTimeRatio } from "./delayModels.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_CALIBRATION_FILE = path.resolve(__dirname, "..", "config", "calibrated_flow_models.json");
+
+// Search bounds of the fit, as in notebooks/bpr_calibration.ipynb.
+export const CALIBRATION_BOUNDS = {
+  alpha: [1e-6, 5],
+  beta: [0.5, 12],
+  capacityVph: [100, 20000]
+};
+// Pull of each parameter towards its prior, per unit of log deviation, in travel-time
+// ratio units. BPR cannot tell α from capacity (only α / c^β is identifiable), so without
+// it a single count lets the two drift apart freely; the capacity prior is the firmer one.
+const PRIOR_WEIGHTS = { alpha: 0.05, beta: 0.05, capacityVph: 0.2 };
+const PARAMETERS = ["alpha", "beta", "capacityVph"];
+const MAX_ITERATIONS = 200;
+const CONVERGENCE_TOLERANCE = 1e-10;
+
+function positiveNumber(value) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Metadata fields that set a capacity outright. A period or scenario edit that sets one
+// replaces the calibrated capacity, which was fitted to the base configuration.
+export const CAPACITY_FIELDS = ["laneCapacityVph", "capacityVph"];
+
+// The calibration minus its capacity, keeping the fitted BPR parameters; null stays null.
+export function withoutCalibratedCapacity(calibration) {
+  if (!calibration) return null;
+  const { laneCapacityVph, ...rest } = calibration;
+  return rest;
+}
+
+/**
+ * Reads the calibration file written by scripts/calibrate_flows.js into a map of segment
+ * id to `{ flowModel, laneCapacityVph }`. Read synchronously because src/segments.js
+ * attaches it at import time; a missing file means nothing is calibrated.
+ */
+export function loadCalibratedFlowModels(file = DEFAULT_CALIBRATION_FILE) {
+  let document;
+  try {
+    document = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    if (error.code === "ENOENT") return new Map();
+    throw new Error(`Unable to read flow model calibration ${file}: ${error.message}`);
+  }
+
+  const calibration = new Map();
+  for (const [segmentId, entry] of Object.entries(document.segments ?? {})) {
+    const { alpha, beta } = entry?.flowModel ?? {};
+    if (!positiveNumber(alpha) || !positiveNumber(beta) || !positiveNumber(entry.laneCapacityVph)) {
+      throw new Error(`Calibration for ${segmentId} in ${file} needs positive alpha, beta and laneCapacityVph`);
+    }
+    calibration.set(segmentId, {
+      flowModel: { type: "bpr", alpha, beta },
+      laneCapacityVph: entry.laneCapacityVph
+    });
+  }
+  return calibration;
+}
+
+function mean(values) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Pairs every field count with the samples polled on the same link during its interval
+ * (bounds included), like `summarise_window` in notebooks/bpr_calibration.ipynb: the
+ * counted flow in veh/h next to the mean live/free-flow duration ratio and the mean
+ * enriched `derivedFlowVph` (with its range) of those samples. Samples the provider routed
+ * off the segment are left out; counts without a usable sample are dropped.
+ */
+export function alignFieldCounts(counts, samples) {
+  const observations = [];
+  for (const count of counts) {
+    const startMs = new Date(count.observationStart).getTime();
+    const endMs = new Date(count.observationEnd).getTime();
+    const window = samples.filter((sample) => {
+      if (sample.segmentId !== count.segmentId || sample.direction !== count.direction) return false;
+      if (sample.routeDeviation) return false;
+      const requestedMs = new Date(sample.requestedAt).getTime();
+      return requestedMs >= startMs && requestedMs <= endMs;
+    });
+    const ratios = window
+      .filter((sample) => sample.durationSeconds > 0 && sample.staticDurationSeconds > 0)
+      .map((sample) => sample.durationSeconds / sample.staticDurationSeconds);
+    if (ratios.length === 0) continue;
+    const derived = window.filter((sample) => Number.isFinite(sample.derivedFlowVph));
+    const ranged = derived.filter(
+      (sample) => Number.isFinite(sample.derivedFlowLowerVph) && Number.isFinite(sample.derivedFlowUpperVph)
+    );
+    observations.push({
+      segmentId: count.segmentId,
+      direction: count.direction,
+      observationStart: count.observationStart,
+      observationEnd: count.observationEnd,
+      observedFlowVph: (count.observedVehicles * 3600000) / (endMs - startMs),
+      capacityGuessVph: positiveNumber(count.capacityGuessVph),
+      sampleCount: ratios.length,
+      meanRatio: mean(ratios),
+      derivedFlowSampleCount: derived.length,
+      meanDerivedFlowVph: derived.length > 0 ? mean(derived.map((sample) => sample.derivedFlowVph)) : null,
+      meanDerivedFlowLowerVph: ranged.length > 0 ? mean(ranged.map((sample) => sample.derivedFlowLowerVph)) : null,
+      meanDerivedFlowUpperVph: ranged.length > 0 ? mean(ranged.map((sample) => sample.derivedFlowUpperVph)) : null
+    });
+  }
+  return observations;
+}
+
+function predictedRatio({ alpha, beta, capacityVph }, flowVph) {
+  return travelTimeRatio({ type: "bpr", alpha, beta }, flowVph / capacityVph);
+}
+
+/** Root-mean-square and mean absolute error of the predicted travel-time ratios. */
+export function ratioErrors(parameters, observations) {
+  const residuals = observations.map(
+    (observation) => predictedRatio(parameters, observation.observedFlowVph) - observation.meanRatio
+  );
+  return {
+    rmse: Math.sqrt(mean(residuals.map((residual) => residual ** 2))),
+    mae: mean(residuals.map(Math.abs))
+  };
+}
+
+// Gaussian elimination with partial pivoting; the systems here are 3 × 3.
+function solveLinearSystem(matrix, vector) {
+  const n = vector.length;
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+  for (let column = 0; column < n; column += 1) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row += 1) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-15) return null;
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = column + 1; row < n; row += 1) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= n; k += 1) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row -= 1) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k += 1) sum -= rows[row][k] * solution[k];
+    solution[row] = sum / rows[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Fits BPR α, β and capacity to aligned observations (see `alignFieldCounts`) by
+ * nonlinear least squares on the travel-time ratio, t / t₀ = 1 + α (v / c)^β, like
+ * notebooks/bpr_calibration.ipynb. The fit runs Levenberg–Marquardt on the logarithm of
+ * each parameter within `CALIBRATION_BOUNDS`, with a weak pull towards `prior` so that
+ * parameters the counts do not pin down stay where they were. The counts'
+ * `capacityGuessVph` only stands in for a missing `prior.capacityVph`: the segment's
+ * resolved capacity knows its lanes, a guess on a counting sheet does not. Observations
+ * at or below free flow carry no delay to fit and are skipped. Returns null when nothing
+ * is left.
+ */
+export function calibrateBpr(observations, prior = {}) {
+  const usable = observations.filter((observation) => observation.meanRatio > 1 && observation.observedFlowVph > 0);
+  if (usable.length === 0) return null;
+
+  const guesses = usable.map((observation) => observation.capacityGuessVph).filter(Boolean);
+  const start = {
+    alpha: positiveNumber(prior.alpha) ?? BPR_DEFAULT_ALPHA,
+    beta: positiveNumber(prior.beta) ?? BPR_DEFAULT_BETA,
+    capacityVph:
+      positiveNumber(prior.capacityVph) ??
+      (guesses.length > 0 ? mean(guesses) : null) ??
+      Math.max(...usable.map((observation) => observation.observedFlowVph)) * 1.25
+  };
+  const priorLog = PARAMETERS.map((key) => Math.log(start[key]));
+  const logBounds = PARAMETERS.map((key) => CALIBRATION_BOUNDS[key].map(Math.log));
+  const clamp = (theta) => theta.map((value, i) => Math.min(Math.max(value, logBounds[i][0]), logBounds[i][1]));
+  const toParameters = (theta) => Object.fromEntries(PARAMETERS.map((key, i) => [key, Math.exp(theta[i])]));
+  const residuals = (theta) => {
+    const parameters = toParameters(theta);
+    return [
+      ...usable.map((observation) => predictedRatio(parameters, observation.observedFlowVph) - observation.meanRatio),
+      ...PARAMETERS.map((key, i) => PRIOR_WEIGHTS[key] * (theta[i] - priorLog[i]))
+    ];
+  };
+  const cost = (values) => values.reduce((sum, value) => sum + value * value, 0);
+
+  let theta = clamp(priorLog);
+  let current = residuals(theta);
+  let damping = 1e-3;
+  let iterations = 0;
+  let converged = false;
+  while (!converged && iterations < MAX_ITERATIONS) {
+    iterations += 1;
+    const jacobian = PARAMETERS.map((_, j) => {
+      const step = 1e-6;
+      const plus = [...theta];
+      const minus = [...theta];
+      plus[j] += step;
+      minus[j] -= step;
+      const high = residuals(plus);
+      const low = residuals(minus);
+      return high.map((value, i) => (value - low[i]) / (2 * step));
+    });
+    const normal = PARAMETERS.map((_, a) =>
+      PARAMETERS.map((_, b) => jacobian[a].reduce((sum, value, i) => sum + value * jacobian[b][i], 0))
+    );
+    const gradient = PARAMETERS.map((_, a) => jacobian[a].reduce((sum, value, i) => sum + value * current[i], 0));
+
+    let improved = false;
+    while (!improved && damping < 1e10) {
+      const damped = normal.map((row, a) => row.map((value, b) => (a === b ? value * (1 + damping) + 1e-12 : value)));
+      const delta = solveLinearSystem(damped, gradient.map((value) => -value));
+      if (!delta) break;
+      const candidate = clamp(theta.map((value, i) => value + delta[i]));
+      const next = residuals(candidate);
+      if (cost(next) < cost(current)) {
+        const previousCost = cost(current);
+        theta = candidate;
+        current = next;
+        damping = Math.max(damping / 10, 1e-12);
+        improved = true;
+        converged = (previousCost - cost(current)) / previousCost < CONVERGENCE_TOLERANCE;
+      } else {
+        damping *= 10;
+      }
+    }
+    if (!improved) converged = true;
+  }
+
+  const parameters = toParameters(theta);
+  const flows = usable.map((observation) => observation.observedFlowVph);
+  return {
+    ...parameters,
+    ...ratioErrors(parameters, usable),
+    observations: usable.length,
+    maxObservedFlowVph: Math.max(...flows),
+    converged,
+    iterations
+  };
+}
@@ -0,0 +1,40 @@
+function wait(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `fn(item, index)` over `items` with at most `limit` calls in flight and resolves
+ * with the results in input order, regardless of completion order.
+ */
+export async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Spaces calls to `acquire()` at least `minIntervalMs` apart across every caller sharing
+ * the limiter, so concurrency does not turn into request bursts.
+ */
+export function createRateLimiter({ minIntervalMs = 0, sleep = wait } = {}) {
+  let nextSlotMs = 0;
+  return {
+    async acquire() {
+      const now = Date.now();
+      const slotMs = Math.max(now, nextSlotMs);
+      nextSlotMs = slotMs + minIntervalMs;
+      if (slotMs > now) {
+        await sleep(slotMs - now);
+      }
+    }
+  };
+}
@@ -0,0 +1,146 @@
+import { streetSegments } from "./segments.js";
+import { resolveSegmentConfiguration } from "./segmentRegistry.js";
+
+export const DEFAULT_INTERVAL_MINUTES = 15;
+export const DEFAULT_MIN_GAP_INTERVALS = 2;
+
+function linkKey(segmentId, direction) {
+  return `${segmentId}|${direction}`;
+}
+
+function sampleTimeMs(sample) {
+  return new Date(sample.snapshotAt ?? sample.requestedAt).getTime();
+}
+
+function toPercent(observed, expected) {
+  return expected > 0 ? Math.round((observed / expected) * 1000) / 10 : null;
+}
+
+// Why a gap happened, as far as the run log can tell. Gaps older than the first run
+// record predate the log and stay unexplained.
+function explainGap(runs, firstRunMs, segmentId, direction, startMs, endMs) {
+  if (firstRunMs == null || endMs <= firstRunMs) return { cause: null, pollRuns: null, failedRuns: null };
+  const inGap = runs.filter((run) => {
+    const ms = new Date(run.startedAt).getTime();
+    return ms >= startMs && ms < endMs;
+  });
+  const failedRuns = inGap.filter((run) =>
+    (run.failures ?? []).some((failure) => failure.segmentId === segmentId && failure.direction === direction)
+  ).length;
+  let cause = "mixed";
+  if (inGap.length === 0) cause = "no-poll";
+  else if (failedRuns === inGap.length) cause = "failed";
+  else if (failedRuns === 0) cause = "no-sample";
+  return { cause, pollRuns: inGap.length, failedRuns };
+}
+
+/**
+ * Compares the samples in [fromMs, toMs) against the segment-directions that should have
+ * been polled in every `intervalMinutes` slot (per the configuration active at the time).
+ * Returns coverage per link and per segment, plus gaps of at least `minGapIntervals`
+ * consecutive missing slots annotated with what the poll run log recorded.
+ */
+export function computeCoverage({
+  samples,
+  runs = [],
+  segments = streetSegments,
+  fromMs,
+  toMs,
+  intervalMinutes = DEFAULT_INTERVAL_MINUTES,
+  minGapIntervals = DEFAULT_MIN_GAP_INTERVALS
+}) {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const firstSlotMs = Math.floor(fromMs / intervalMs) * intervalMs;
+  const slotCount = Math.max(Math.ceil((toMs - firstSlotMs) / intervalMs), 0);
+
+  const observed = new Map();
+  for (const sample of samples) {
+    const ms = sampleTimeMs(sample);
+    if (Number.isNaN(ms) || ms < firstSlotMs || ms >= toMs) continue;
+    const key = linkKey(sample.segmentId, sample.direction);
+    if (!observed.has(key)) observed.set(key, new Set());
+    observed.get(key).add(Math.floor((ms - firstSlotMs) / intervalMs));
+  }
+
+  const runStarts = runs.map((run) => new Date(run.startedAt).getTime()).filter((ms) => !Number.isNaN(ms));
+  const firstRunMs = runStarts.length > 0 ? Math.min(...runStarts) : null;
+
+  const links = [];
+  const segmentTotals = [];
+  const gaps = [];
+
+  for (const segment of segments) {
+    const expectedByDirection = { forward: [], reverse: [] };
+    for (let slot = 0; slot < slotCount; slot += 1) {
+      const { metadata } = resolveSegmentConfiguration(segment, firstSlotMs + slot * intervalMs);
+      for (const direction of metadata.allowedDirections ?? ["forward", "reverse"]) {
+        expectedByDirection[direction]?.push(slot);
+      }
+    }
+
+    let segmentExpected = 0;
+    let segmentObserved = 0;
+    for (const [direction, expectedSlots] of Object.entries(expectedByDirection)) {
+      const seen = observed.get(linkKey(segment.id, direction)) ?? new Set();
+      const observedCount = expectedSlots.filter((slot) => seen.has(slot)).length;
+      if (expectedSlots.length === 0 && seen.size === 0) continue;
+      links.push({
+        segmentId: segment.id,
+        direction,
+        expectedIntervals: expectedSlots.length,
+        observedIntervals: observedCount,
+        coveragePct: toPercent(observedCount, expectedSlots.length)
+      });
+      segmentExpected += expectedSlots.length;
+      segmentObserved += observedCount;
+
+      let gapStart = null;
+      let previous = null;
+      const closeGap = () => {
+        if (gapStart == null) return;
+        const missingIntervals = previous - gapStart + 1;
+        if (missingIntervals >= minGapIntervals) {
+          const startMs = firstSlotMs + gapStart * intervalMs;
+          const endMs = firstSlotMs + (previous + 1) * intervalMs;
+          gaps.push({
+            segmentId: segment.id,
+            direction,
+            from: new Date(startMs).toISOString(),
+            to: new Date(Math.min(endMs, toMs)).toISOString(),
+            missingIntervals,
+            ...explainGap(runs, firstRunMs, segment.id, direction, startMs, endMs)
+          });
+        }
+        gapStart = null;
+      };
+      for (const slot of expectedSlots) {
+        const missing = !seen.has(slot);
+        // A slot where the direction was not expected ends the gap.
+        if (gapStart != null && (!missing || slot !== previous + 1)) closeGap();
+        if (missing && gapStart == null) gapStart = slot;
+        previous = slot;
+      }
+      closeGap();
+    }
+
+    segmentTotals.push({
+      segmentId: segment.id,
+      segmentName: segment.name,
+      expectedIntervals: segmentExpected,
+      observedIntervals: segmentObserved,
+      coveragePct: toPercent(segmentObserved, segmentExpected)
+    });
+  }
+
+  gaps.sort((a, b) => a.from.localeCompare(b.from) || a.segmentId.localeCompare(b.segmentId));
+
+  return {
+    from: new Date(firstSlotMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    intervalMinutes,
+    minGapIntervals,
+    segments: segmentTotals,
+    links,
+    gaps
+  };
+}
@@ -0,0 +1,98 @@
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }
+];
+
+// Far enough to cover any valid expression (e.g. "0 0 29 2 *" waits for a leap year).
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+export class CronExpressionError extends Error {
+  constructor(expression, message) {
+    super(`Invalid cron expression "${expression}": ${message}`);
+    this.name = "CronExpressionError";
+    this.expression = expression;
+  }
+}
+
+function parseField(expression, source, { name, min, max }) {
+  const values = new Set();
+  for (const part of source.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new CronExpressionError(expression, `cannot parse ${name} "${part}"`);
+    }
+    const [, range, startText, endText, stepText] = match;
+    let start = range === "*" ? min : Number(startText);
+    let end = range === "*" ? max : Number(endText ?? startText);
+    if (stepText && range !== "*" && endText == null) end = max;
+    const step = stepText ? Number(stepText) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new CronExpressionError(expression, `${name} "${part}" is outside ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+/**
+ * Parses a standard five-field cron expression (minute hour day-of-month month
+ * day-of-week) with `*`, lists, ranges and steps. As in cron, when both day fields are
+ * restricted a day matches if either does. Times are evaluated in the process timezone.
+ */
+export function parseCronExpression(expression) {
+  const parts = String(expression).trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronExpressionError(expression, "expected 5 fields");
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(expression, part, FIELDS[index])
+  );
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+  return {
+    expression: parts.join(" "),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*"
+  };
+}
+
+function matchesDay(cron, date) {
+  const dom = cron.daysOfMonth.has(date.getDate());
+  const dow = cron.daysOfWeek.has(date.getDay());
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dom || dow;
+  if (cron.dayOfMonthRestricted) return dom;
+  if (cron.dayOfWeekRestricted) return dow;
+  return true;
+}
+
+// First matching minute strictly after `after`, or null if none within the search limit.
+export function nextCronOccurrence(cron, after = new Date()) {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limitMs = after.getTime() + SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limitMs) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,174 @@
+// Volume-delay functions relating a link's travel time to its volume/capacity ratio. Every
+// model works both ways: `travelTimeRatio` gives loaded over free-flow time for a v/c (used
+// by the simulator and the assignment), `volumeCapacityRatio` recovers the v/c that
+// explains an observed time ratio (used by enrichment to derive flows). Segments pick one
+// with `metadata.flowModel.type`; BPR is the default.
+
+export const BPR_DEFAULT_ALPHA = 0.15;
+export const BPR_DEFAULT_BETA = 4;
+export const DEFAULT_DELAY_MODEL = "bpr";
+
+// Akçelik's delay parameter J_A by the control at the end of the link.
+export const AKCELIK_DELAY_PARAMETERS = { signalised: 0.4, priority: 0.8 };
+// Relative uncertainty of the assumed capacity (lanes × lane capacity), ± this share.
+export const DEFAULT_CAPACITY_UNCERTAINTY = 0.15;
+
+function positiveNumber(value) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// t = t₀ (1 + α x^β)
+const bpr = {
+  type: "bpr",
+  label: "BPR",
+  notes: "Derived from travel-time ratio using BPR function and assumed lane capacity.",
+  uncertainty: { alpha: 0.3, beta: 0.25 },
+  normalise({ alpha, beta }) {
+    return {
+      alpha: positiveNumber(alpha) ?? BPR_DEFAULT_ALPHA,
+      beta: positiveNumber(beta) ?? BPR_DEFAULT_BETA
+    };
+  },
+  travelTimeRatio(x, { alpha, beta }) {
+    return 1 + alpha * Math.pow(x, beta);
+  },
+  volumeCapacityRatio(timeRatio, { alpha, beta }) {
+    return Math.pow((timeRatio - 1) / alpha, 1 / beta);
+  }
+};
+
+// t = t₀ (1 + J x / (1 − x)), continued linearly from x = `linearFrom` so the time stays
+// finite at and beyond capacity.
+const davidson = {
+  type: "davidson",
+  label: "Davidson",
+  notes: "Derived from travel-time ratio using the modified Davidson function and assumed lane capacity.",
+  uncertainty: { delayParameter: 0.3 },
+  normalise({ delayParameter, linearFrom }) {
+    return {
+      delayParameter: positiveNumber(delayParameter) ?? 0.25,
+      linearFrom: positiveNumber(linearFrom) != null && linearFrom < 1 ? linearFrom : 0.95
+    };
+  },
+  travelTimeRatio(x, { delayParameter: j, linearFrom: mu }) {
+    if (x < mu) return 1 + (j * x) / (1 - x);
+    return 1 + (j * mu) / (1 - mu) + (j * (x - mu)) / (1 - mu) ** 2;
+  },
+  volumeCapacityRatio(timeRatio, { delayParameter: j, linearFrom: mu }) {
+    const excess = timeRatio - 1;
+    const knee = (j * mu) / (1 - mu);
+    if (excess <= knee) return excess / (j + excess);
+    return mu + ((excess - knee) * (1 - mu) ** 2) / j;
+  }
+};
+
+// Akçelik's time-dependent function for links ending at an intersection. Its delay is
+// absolute (hours over an analysis period of T hours at capacity Q), so it needs the
+// link's free-flow time and capacity:
+// t = t₀ + 0.25 T ((x − 1) + √((x − 1)² + 8 J x / (Q T)))
+const akcelik = {
+  type: "akcelik",
+  label: "Akçelik",
+  notes: "Derived from travel-time ratio using the Akçelik function and assumed lane capacity.",
+  uncertainty: { delayParameter: 0.3 },
+  normalise({ control, delayParameter, periodHours }) {
+    const resolvedControl = Object.hasOwn(AKCELIK_DELAY_PARAMETERS, control) ? control : "priority";
+    return {
+      control: resolvedControl,
+      delayParameter: positiveNumber(delayParameter) ?? AKCELIK_DELAY_PARAMETERS[resolvedControl],
+      periodHours: positiveNumber(periodHours) ?? 1
+    };
+  },
+  travelTimeRatio(x, { delayParameter: j, periodHours: period }, { freeFlowSeconds, capacityVph }) {
+    if (!(freeFlowSeconds > 0) || !(capacityVph > 0)) return null;
+    const delayHours =
+      0.25 * period * (x - 1 + Math.sqrt((x - 1) ** 2 + (8 * j * x) / (capacityVph * period)));
+    return 1 + (delayHours * 3600) / freeFlowSeconds;
+  },
+  volumeCapacityRatio(timeRatio, { delayParameter: j, periodHours: period }, { freeFlowSeconds, capacityVph }) {
+    if (!(freeFlowSeconds > 0) || !(capacityVph > 0)) return null;
+    const z = (4 * (timeRatio - 1) * freeFlowSeconds) / 3600 / period;
+    return (z * z + 2 * z) / (2 * z + (8 * j) / (capacityVph * period));
+  }
+};
+
+export const delayModels = new Map([bpr, davidson, akcelik].map((model) => [model.type, model]));
+
+function modelFor(flowModel) {
+  const type = flowModel?.type ?? DEFAULT_DELAY_MODEL;
+  const model = delayModels.get(type);
+  if (!model) {
+    throw new Error(`Unknown flow model type "${type}"; expected one of ${[...delayModels.keys()].join(", ")}`);
+  }
+  return model;
+}
+
+// Relative spread (0 ≤ s < 1) of each uncertain parameter and of the capacity; values
+// in `flowModel.uncertainty` override the model's priors.
+function normaliseUncertainty(model, overrides = {}) {
+  const defaults = { ...model.uncertainty, capacity: DEFAULT_CAPACITY_UNCERTAINTY };
+  return Object.fromEntries(
+    Object.entries(defaults).map(([key, spread]) => {
+      const value = overrides?.[key];
+      return [key, typeof value === "number" && value >= 0 && value < 1 ? value : spread];
+    })
+  );
+}
+
+/**
+ * Fills in the model's defaults for missing or invalid parameters:
+ * `{ type, ...parameters, uncertainty }`. Throws on an unknown `type`.
+ */
+export function resolveFlowModel(flowModel = {}) {
+  const model = modelFor(flowModel);
+  return {
+    type: model.type,
+    ...model.normalise(flowModel ?? {}),
+    uncertainty: normaliseUncertainty(model, flowModel?.uncertainty)
+  };
+}
+
+/**
+ * The resolved model at every corner of its parameter priors: each uncertain parameter
+ * at value × (1 ± spread). The capacity spread is left to the caller.
+ */
+export function parameterCorners(flowModel) {
+  const resolved = resolveFlowModel(flowModel);
+  let corners = [resolved];
+  for (const key of Object.keys(modelFor(resolved).uncertainty)) {
+    const spread = resolved.uncertainty[key];
+    if (!(spread > 0)) continue;
+    corners = corners.flatMap((corner) => [
+      { ...corner, [key]: corner[key] * (1 - spread) },
+      { ...corner, [key]: corner[key] * (1 + spread) }
+    ]);
+  }
+  return corners;
+}
+
+/**
+ * Loaded over free-flow travel time at the given v/c. `context` holds the link's
+ * `freeFlowSeconds` and `capacityVph`; null when the model cannot be evaluated.
+ */
+export function travelTimeRatio(flowModel, volumeCapacityRatio, context = {}) {
+  if (volumeCapacityRatio == null || !Number.isFinite(volumeCapacityRatio)) return null;
+  const resolved = resolveFlowModel(flowModel);
+  return modelFor(resolved).travelTimeRatio(Math.max(volumeCapacityRatio, 0), resolved, context);
+}
+
+// Inverse of `travelTimeRatio`: the v/c that explains an observed time ratio (0 at or
+// below free flow).
+export function volumeCapacityRatio(flowModel, timeRatio, context = {}) {
+  if (timeRatio == null || !Number.isFinite(timeRatio)) return null;
+  if (timeRatio <= 1) return 0;
+  const resolved = resolveFlowModel(flowModel);
+  return modelFor(resolved).volumeCapacityRatio(timeRatio, resolved, context);
+}
+
+// The `flowEstimationModel` stamp of an enriched sample: the model's name as `source`
+// next to its parameters.
+export function describeFlowModel(flowModel) {
+  const { type, ...parameters } = resolveFlowModel(flowModel);
+  const model = delayModels.get(type);
+  return { ...parameters, type, source: model.label, notes: model.notes };
+}
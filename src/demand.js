@@ -0,0 +1,98 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { buildIntersectionRegistry } from "./network.js";
+import { parseScenario } from "./scenarios.js";
+import { streetSegments } from "./segments.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_DEMAND_FILE = path.resolve(__dirname, "..", "config", "od_demand.json");
+
+const DEMAND_KEYS = new Set(["name", "description", "trips"]);
+const TRIP_KEYS = new Set(["from", "to", "vph"]);
+
+export class DemandValidationError extends Error {
+  constructor(source, problems) {
+    super(`Invalid demand ${source}:\n  - ${problems.join("\n  - ")}`);
+    this.name = "DemandValidationError";
+    this.source = source;
+    this.problems = problems;
+  }
+}
+
+/**
+ * Validates an origin–destination demand document: `trips` lists `{ from, to, vph }` with
+ * intersection ids as produced by `buildIntersectionRegistry` (see `GET /network`). All
+ * problems are collected and reported together; the normalised copy is returned.
+ */
+export function validateDemand(raw, { segments = streetSegments, source = "demand" } = {}) {
+  if (raw == null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new DemandValidationError(source, ["demand must be an object"]);
+  }
+  const problems = [];
+  for (const key of Object.keys(raw)) {
+    if (!DEMAND_KEYS.has(key)) {
+      problems.push(`unknown field "${key}"`);
+    }
+  }
+
+  if (!Array.isArray(raw.trips) || raw.trips.length === 0) {
+    problems.push("trips must be a non-empty list");
+  } else {
+    const nodeIds = new Set(buildIntersectionRegistry(segments).nodes.keys());
+    const seen = new Set();
+    raw.trips.forEach((trip, index) => {
+      const prefix = `trips[${index}]`;
+      if (trip == null || typeof trip !== "object" || Array.isArray(trip)) {
+        problems.push(`${prefix} must be an object`);
+        return;
+      }
+      for (const key of Object.keys(trip)) {
+        if (!TRIP_KEYS.has(key)) {
+          problems.push(`${prefix} has unknown field "${key}"`);
+        }
+      }
+      for (const field of ["from", "to"]) {
+        if (typeof trip[field] !== "string") {
+          problems.push(`${prefix}.${field} is required`);
+        } else if (!nodeIds.has(trip[field])) {
+          problems.push(`${prefix}.${field} "${trip[field]}" does not match any intersection`);
+        }
+      }
+      if (trip.from === trip.to) {
+        problems.push(`${prefix} starts and ends at the same intersection`);
+      }
+      if (!(typeof trip.vph === "number" && Number.isFinite(trip.vph) && trip.vph >= 0)) {
+        problems.push(`${prefix}.vph must be a non-negative number`);
+      }
+      const key = `${trip.from}|${trip.to}`;
+      if (seen.has(key)) {
+        problems.push(`${prefix} repeats the ${trip.from} → ${trip.to} pair`);
+      }
+      seen.add(key);
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new DemandValidationError(source, problems);
+  }
+
+  return {
+    name: raw.name ?? null,
+    description: raw.description ?? null,
+    trips: raw.trips.map(({ from, to, vph }) => ({ from, to, vph }))
+  };
+}
+
+export async function loadDemandFile(filePath = DEFAULT_DEMAND_FILE, options = {}) {
+  const text = await fs.readFile(filePath, "utf8");
+  let raw;
+  try {
+    raw = parseScenario(text, filePath);
+  } catch (error) {
+    throw new DemandValidationError(filePath, [`cannot parse file: ${error.message}`]);
+  }
+  return validateDemand(raw, { ...options, source: filePath });
+}
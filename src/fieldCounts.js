@@ -0,0 +1,228 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { resolveSegmentMetadata } from "../scripts/enrich_flows.js";
+import { findSegment, resolveSegmentConfiguration } from "./segmentRegistry.js";
+import { streetSegments } from "./segments.js";
+import { linkId } from "./simulator.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_FIELD_COUNTS_FILE = path.resolve(__dirname, "..", "data", "field_counts.csv");
+
+const REQUIRED_COLUMNS = ["segmentId", "direction", "observationStart", "observationEnd", "observedVehicles"];
+const COLUMNS = [...REQUIRED_COLUMNS, "capacityGuessVph"];
+const DIRECTIONS = ["forward", "reverse"];
+// Counts cover whole bins of this length: tube counters report 15-minute bins, manual
+// tallies usually whole hours.
+export const COUNT_BIN_MINUTES = 15;
+const MAX_COUNT_HOURS = 24;
+// A counted flow above this share of the link's capacity is taken for a typo.
+export const MAX_PLAUSIBLE_CAPACITY_SHARE = 1.5;
+
+export class FieldCountValidationError extends Error {
+  constructor(source, problems) {
+    super(`Invalid field counts ${source}:\n  - ${problems.join("\n  - ")}`);
+    this.name = "FieldCountValidationError";
+    this.source = source;
+    this.problems = problems;
+  }
+}
+
+// Checks one row's own fields; `prefix` locates it in the problems ("line 3", "row 2").
+function normaliseFieldCount(row, prefix, problems) {
+  const startMs = new Date(row.observationStart).getTime();
+  const endMs = new Date(row.observationEnd).getTime();
+  const observedVehicles = Number(row.observedVehicles);
+  const capacityGuessVph = row.capacityGuessVph == null || row.capacityGuessVph === "" ? null : Number(row.capacityGuessVph);
+  if (!row.segmentId) problems.push(`${prefix}: segmentId is required`);
+  if (!DIRECTIONS.includes(row.direction)) problems.push(`${prefix}: unknown direction "${row.direction}"`);
+  if (Number.isNaN(startMs) || Number.isNaN(endMs) || endMs <= startMs) {
+    problems.push(`${prefix}: observationEnd must be a timestamp after observationStart`);
+  }
+  if (row.observedVehicles == null || row.observedVehicles === "" || !Number.isFinite(observedVehicles) || observedVehicles < 0) {
+    problems.push(`${prefix}: observedVehicles must be a non-negative number`);
+  }
+  return {
+    segmentId: row.segmentId,
+    direction: row.direction,
+    observationStart: row.observationStart,
+    observationEnd: row.observationEnd,
+    observedVehicles,
+    capacityGuessVph
+  };
+}
+
+/**
+ * Parses the field count CSV (see data/field_counts.sample.csv): one manual or tube count
+ * per row, with `observedVehicles` passing during [observationStart, observationEnd).
+ * Every malformed row is reported together.
+ */
+export function parseFieldCountsCsv(text, source = "field counts") {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length === 0) {
+    throw new FieldCountValidationError(source, ["file is empty"]);
+  }
+  const columns = lines[0].split(",").map((column) => column.trim());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new FieldCountValidationError(source, [`missing columns: ${missing.join(", ")}`]);
+  }
+
+  const problems = [];
+  const counts = lines.slice(1).map((line, index) => {
+    const values = line.split(",").map((value) => value.trim());
+    const row = Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""]));
+    return normaliseFieldCount(row, `line ${index + 2}`, problems);
+  });
+
+  if (problems.length > 0) {
+    throw new FieldCountValidationError(source, problems);
+  }
+  return counts;
+}
+
+// Same as `parseFieldCountsCsv` for counts posted as JSON objects.
+export function parseFieldCountRows(rows, source = "field counts") {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new FieldCountValidationError(source, ["expected a non-empty array of counts"]);
+  }
+  const problems = [];
+  const counts = rows.map((row, index) => normaliseFieldCount(row ?? {}, `row ${index + 1}`, problems));
+  if (problems.length > 0) {
+    throw new FieldCountValidationError(source, problems);
+  }
+  return counts;
+}
+
+export function formatFieldCountsCsv(counts) {
+  const rows = counts.map((count) => COLUMNS.map((column) => count[column] ?? "").join(","));
+  return `${[COLUMNS.join(","), ...rows].join("\n")}\n`;
+}
+
+function overlaps(a, b) {
+  return (
+    a.segmentId === b.segmentId &&
+    a.direction === b.direction &&
+    new Date(a.observationStart).getTime() < new Date(b.observationEnd).getTime() &&
+    new Date(b.observationStart).getTime() < new Date(a.observationEnd).getTime()
+  );
+}
+
+function describeCount(count) {
+  return `${count.segmentId} ${count.direction} ${count.observationStart}–${count.observationEnd}`;
+}
+
+/**
+ * Checks parsed counts against the network and the counts already stored: the segment
+ * must exist and allow the direction at the start of the count, the interval must be a
+ * whole number of `COUNT_BIN_MINUTES` bins (at most a day), and no two counts of one link
+ * may overlap. Flows above capacity are returned as warnings, flows above
+ * `MAX_PLAUSIBLE_CAPACITY_SHARE` × capacity are rejected. Throws a
+ * `FieldCountValidationError` listing every problem; otherwise returns `{ warnings }`.
+ */
+export function validateFieldCounts(counts, { existing = [], segments = streetSegments, source = "field counts" } = {}) {
+  const problems = [];
+  const warnings = [];
+  counts.forEach((count, index) => {
+    const prefix = `count ${index + 1} (${describeCount(count)})`;
+    const segment = findSegment(count.segmentId, segments);
+    if (!segment) {
+      problems.push(`${prefix}: unknown segment "${count.segmentId}"`);
+      return;
+    }
+    const configured = resolveSegmentConfiguration(segment, count.observationStart);
+    const allowedDirections = configured.metadata.allowedDirections ?? DIRECTIONS;
+    if (!allowedDirections.includes(count.direction)) {
+      problems.push(`${prefix}: ${count.direction} traffic is not allowed on ${segment.id} at that date`);
+    }
+
+    const minutes = (new Date(count.observationEnd).getTime() - new Date(count.observationStart).getTime()) / 60000;
+    if (minutes % COUNT_BIN_MINUTES !== 0 || minutes > MAX_COUNT_HOURS * 60) {
+      problems.push(`${prefix}: the interval must be whole ${COUNT_BIN_MINUTES}-minute bins, up to ${MAX_COUNT_HOURS} hours`);
+    } else {
+      const flowVph = (count.observedVehicles * 60) / minutes;
+      const { capacityVph } = resolveSegmentMetadata([configured]).get(segment.id);
+      if (flowVph > capacityVph * MAX_PLAUSIBLE_CAPACITY_SHARE) {
+        problems.push(`${prefix}: ${Math.round(flowVph)} veh/h is implausible for a capacity of ${Math.round(capacityVph)} veh/h`);
+      } else if (flowVph > capacityVph) {
+        warnings.push(`${prefix}: ${Math.round(flowVph)} veh/h exceeds the capacity of ${Math.round(capacityVph)} veh/h`);
+      }
+    }
+
+    const clash =
+      counts.slice(0, index).find((other) => overlaps(count, other)) ?? existing.find((other) => overlaps(count, other));
+    if (clash) {
+      problems.push(`${prefix}: overlaps the count ${describeCount(clash)}`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new FieldCountValidationError(source, problems);
+  }
+  return { warnings };
+}
+
+export async function loadFieldCounts(filePath = DEFAULT_FIELD_COUNTS_FILE) {
+  return parseFieldCountsCsv(await fs.readFile(filePath, "utf8"), filePath);
+}
+
+// Imports are queued so that two uploads never read the same file and drop each other's rows.
+let importQueue = Promise.resolve();
+
+/**
+ * Validates `counts` against the file's stored counts (see `validateFieldCounts`) and adds
+ * them, sorted by link and start. The file is written to a temporary file and renamed over
+ * the original. A missing file is created. Returns `{ imported, total, warnings }`.
+ */
+export function importFieldCounts(counts, { file = DEFAULT_FIELD_COUNTS_FILE, segments = streetSegments, source } = {}) {
+  const run = async () => {
+    let existing = [];
+    try {
+      existing = await loadFieldCounts(file);
+    } catch (error) {
+      if (error.code !== "ENOENT") throw error;
+    }
+    const { warnings } = validateFieldCounts(counts, { existing, segments, source });
+    const merged = [...existing, ...counts].sort(
+      (a, b) =>
+        a.segmentId.localeCompare(b.segmentId) ||
+        a.direction.localeCompare(b.direction) ||
+        new Date(a.observationStart).getTime() - new Date(b.observationStart).getTime()
+    );
+    const tempFile = `${file}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(tempFile, formatFieldCountsCsv(merged), "utf8");
+    await fs.rename(tempFile, file);
+    return { imported: counts.length, total: merged.length, warnings };
+  };
+  const result = importQueue.then(run);
+  importQueue = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Hourly flow per link from the counts overlapping the `from`/`to` window: all vehicles
+ * counted on the link divided by the hours counted.
+ */
+export function summariseFieldCounts(counts, { from = null, to = null } = {}) {
+  const fromMs = from ? new Date(from).getTime() : null;
+  const toMs = to ? new Date(to).getTime() : null;
+  const totals = new Map();
+  for (const count of counts) {
+    const startMs = new Date(count.observationStart).getTime();
+    const endMs = new Date(count.observationEnd).getTime();
+    if (fromMs != null && endMs <= fromMs) continue;
+    if (toMs != null && startMs >= toMs) continue;
+    const id = linkId(count.segmentId, count.direction);
+    const total = totals.get(id) ?? { vehicles: 0, hours: 0, counts: 0 };
+    total.vehicles += count.observedVehicles;
+    total.hours += (endMs - startMs) / 3600000;
+    total.counts += 1;
+    totals.set(id, total);
+  }
+  return new Map(
+    [...totals].map(([id, total]) => [id, { flowVph: total.vehicles / total.hours, counts: total.counts }])
+  );
+}
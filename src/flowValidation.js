@@ -0,0 +1,117 @@
+import { alignFieldCounts } from "./calibration.js";
+import { GEH_THRESHOLD, gehStatistic } from "./odEstimation.js";
+import { streetSegments } from "./segments.js";
+
+function mean(values) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function errorStatistics(windows) {
+  if (windows.length === 0) {
+    return { windows: 0, biasVph: null, rmseVph: null, withinGehShare: null, withinRangeShare: null };
+  }
+  const ranged = windows.filter((window) => window.withinRange != null);
+  return {
+    windows: windows.length,
+    biasVph: mean(windows.map((window) => window.errorVph)),
+    rmseVph: Math.sqrt(mean(windows.map((window) => window.errorVph ** 2))),
+    withinGehShare: windows.filter((window) => window.geh < GEH_THRESHOLD).length / windows.length,
+    withinRangeShare: ranged.length > 0 ? ranged.filter((window) => window.withinRange).length / ranged.length : null
+  };
+}
+
+// A segment passes when at least this share of its count windows is within GEH 5, the
+// usual acceptance criterion for link flows in model validation.
+export const MIN_WITHIN_GEH_SHARE = 0.85;
+
+// Count windows overlapping `from`–`to`; either bound may be null.
+export function countsOverlapping(counts, from = null, to = null) {
+  const fromMs = from ? new Date(from).getTime() : null;
+  const toMs = to ? new Date(to).getTime() : null;
+  return counts.filter((count) => {
+    if (fromMs != null && new Date(count.observationEnd).getTime() <= fromMs) return false;
+    if (toMs != null && new Date(count.observationStart).getTime() >= toMs) return false;
+    return true;
+  });
+}
+
+/**
+ * Compares the enriched `derivedFlowVph` with field counts. Every count window between
+ * `from` and `to` is matched to the samples of its link (see `alignFieldCounts`); windows
+ * without a derived flow are skipped. Each window reports the mean derived flow, its
+ * error against the counted flow, the GEH statistic and whether the count falls inside
+ * the derived range (`derivedFlowLowerVph`–`derivedFlowUpperVph`).
+ *
+ * Per segment, over the windows of both directions: the bias (mean derived minus counted
+ * flow), the RMSE, the share of windows within GEH 5 and of windows covered by the range,
+ * and the worst window (`worstWindow`, whose GEH is `geh`). GEH is only ever taken per
+ * direction and window, so errors in opposite directions cannot cancel out. A segment is
+ * flagged (`exceedsGeh`) when fewer than 85% of its windows are within GEH 5.
+ * `overall` gives the same error statistics over all windows.
+ */
+export function validateDerivedFlows({ counts, samples, from = null, to = null, segments = streetSegments }) {
+  const inWindow = countsOverlapping(counts, from, to);
+
+  const windows = alignFieldCounts(inWindow, samples)
+    .filter((observation) => observation.meanDerivedFlowVph != null)
+    .map((observation) => {
+      const observed = observation.observedFlowVph;
+      const derived = observation.meanDerivedFlowVph;
+      const lower = observation.meanDerivedFlowLowerVph;
+      const upper = observation.meanDerivedFlowUpperVph;
+      return {
+        segmentId: observation.segmentId,
+        direction: observation.direction,
+        observationStart: observation.observationStart,
+        observationEnd: observation.observationEnd,
+        sampleCount: observation.derivedFlowSampleCount,
+        observedFlowVph: observed,
+        derivedFlowVph: derived,
+        derivedFlowLowerVph: lower,
+        derivedFlowUpperVph: upper,
+        errorVph: derived - observed,
+        geh: gehStatistic(derived, observed),
+        withinRange: lower != null && upper != null ? observed >= lower && observed <= upper : null
+      };
+    });
+
+  const bySegment = new Map();
+  for (const window of windows) {
+    const list = bySegment.get(window.segmentId) ?? [];
+    list.push(window);
+    bySegment.set(window.segmentId, list);
+  }
+  const names = new Map(segments.map((segment) => [segment.id, segment.name]));
+  const segmentResults = [...bySegment]
+    .map(([segmentId, segmentWindows]) => {
+      const statistics = errorStatistics(segmentWindows);
+      const worst = segmentWindows.reduce((current, window) => (window.geh > current.geh ? window : current));
+      return {
+        segmentId,
+        segmentName: names.get(segmentId) ?? segmentId,
+        directions: [...new Set(segmentWindows.map((window) => window.direction))].sort(),
+        ...statistics,
+        geh: worst.geh,
+        worstWindow: {
+          direction: worst.direction,
+          observationStart: worst.observationStart,
+          observationEnd: worst.observationEnd,
+          observedFlowVph: worst.observedFlowVph,
+          derivedFlowVph: worst.derivedFlowVph
+        },
+        exceedsGeh: statistics.withinGehShare < MIN_WITHIN_GEH_SHARE
+      };
+    })
+    .sort((a, b) => b.geh - a.geh);
+
+  return {
+    from,
+    to,
+    gehThreshold: GEH_THRESHOLD,
+    minWithinGehShare: MIN_WITHIN_GEH_SHARE,
+    unmatchedCounts: inWindow.length - windows.length,
+    overall: errorStatistics(windows),
+    segments: segmentResults,
+    windows
+  };
+}
@@ -0,0 +1,206 @@
+import { linkId } from "./simulator.js";
+import { DEFAULT_TIME_ZONE } from "./travelTime.js";
+import { buildTypicalWeek, scoreSample, travelTimeRatio, typicalBaseline } from "./typicalWeek.js";
+
+export const FORECAST_STEP_MINUTES = 15;
+export const FORECAST_HORIZON_MINUTES = 120;
+// The latest sample's deviation from the typical ratio halves every this many minutes. Picked
+// with `backtestForecasts` on the first week of samples: 30 did better at 15 minutes ahead
+// but held on to deviations too long beyond that.
+export const DEVIATION_HALF_LIFE_MINUTES = 20;
+// A weather class shifts the forecast once it has this many scored samples over this many
+// days: a single foggy morning says more about that morning than about fog.
+const MIN_WEATHER_SAMPLES = 30;
+const MIN_WEATHER_DAYS = 3;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Groups the WMO weather codes of the Open-Meteo snapshot into the classes the forecast
+ * distinguishes. Null when the sample carries no weather.
+ */
+export function weatherClass(weather) {
+  const code = weather?.weatherCode;
+  if (!Number.isFinite(code)) return null;
+  if (code <= 3) return "clear";
+  if (code === 45 || code === 48) return "fog";
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return "snow";
+  if (code >= 95) return "thunderstorm";
+  return "rain";
+}
+
+/**
+ * Fits the forecast to a history: its typical week (see `buildTypicalWeek`) and, per
+ * weather class, the mean deviation of that class's samples from their typical ratio.
+ */
+export function buildForecastModel(samples, { timeZone = DEFAULT_TIME_ZONE } = {}) {
+  const typicalWeek = buildTypicalWeek(samples, { timeZone });
+  const deviations = new Map();
+  for (const sample of samples) {
+    const weather = weatherClass(sample.weather);
+    const score = weather ? scoreSample(typicalWeek, sample) : null;
+    if (!score) continue;
+    const entry = deviations.get(weather) ?? { values: [], days: new Set() };
+    entry.values.push(score.ratio - score.typicalRatio);
+    entry.days.add(String(sample.requestedAt).slice(0, 10));
+    deviations.set(weather, entry);
+  }
+  const weatherEffects = new Map();
+  for (const [weather, { values, days }] of deviations) {
+    if (values.length < MIN_WEATHER_SAMPLES || days.size < MIN_WEATHER_DAYS) continue;
+    weatherEffects.set(weather, values.reduce((sum, value) => sum + value, 0) / values.length);
+  }
+  return { typicalWeek, weatherEffects };
+}
+
+// Latest usable sample of a link at or before `atMs`; `linkSamples` is sorted by time.
+function latestSample(linkSamples, atMs) {
+  for (let index = linkSamples.length - 1; index >= 0; index -= 1) {
+    if (linkSamples[index].ms <= atMs) return linkSamples[index];
+  }
+  return null;
+}
+
+/**
+ * Forecast from `latest` ({ sample, ratio, ms }) at every 15-minute step after `issuedMs`.
+ * A step's ratio is the typical ratio at that time, shifted by the latest weather's effect,
+ * plus the latest sample's remaining deviation from both, which halves every 20 minutes.
+ * Without a typical ratio at the step the latest ratio is carried forward (`basis: latest`).
+ */
+function forecastSteps(model, latest, issuedMs) {
+  const link = linkId(latest.sample.segmentId, latest.sample.direction);
+  const weather = weatherClass(latest.sample.weather);
+  const weatherEffect = model.weatherEffects.get(weather) ?? 0;
+  const current = typicalBaseline(model.typicalWeek, link, latest.ms);
+  const deviation = current ? latest.ratio - current.typicalRatio - weatherEffect : 0;
+
+  const points = [];
+  for (let horizon = FORECAST_STEP_MINUTES; horizon <= FORECAST_HORIZON_MINUTES; horizon += FORECAST_STEP_MINUTES) {
+    const ms = issuedMs + horizon * MINUTE_MS;
+    const typical = typicalBaseline(model.typicalWeek, link, ms);
+    const ageMinutes = (ms - latest.ms) / MINUTE_MS;
+    const decay = 0.5 ** (ageMinutes / DEVIATION_HALF_LIFE_MINUTES);
+    const ratio = typical ? typical.typicalRatio + weatherEffect + deviation * decay : latest.ratio;
+    points.push({
+      horizonMinutes: horizon,
+      at: new Date(ms).toISOString(),
+      ratio,
+      typicalRatio: typical?.typicalRatio ?? null,
+      basis: typical ? "profile" : "latest",
+      durationSeconds: ratio * latest.sample.staticDurationSeconds
+    });
+  }
+  return { weather, weatherEffect, deviation, points };
+}
+
+function usableLinkSamples(samples, segmentId, direction) {
+  return samples
+    .filter((sample) => sample.segmentId === segmentId && sample.direction === direction)
+    .map((sample) => ({ sample, ratio: travelTimeRatio(sample), ms: new Date(sample.requestedAt).getTime() }))
+    .filter((entry) => entry.ratio != null && !Number.isNaN(entry.ms))
+    .sort((a, b) => a.ms - b.ms);
+}
+
+/**
+ * Forecasts the travel-time ratio of one link for the next 2 hours, in 15-minute steps,
+ * from the samples at or before `at` (default: the link's latest sample, which is then
+ * also when the forecast is issued). The latest sample's deviation decays from its own
+ * time, so a forecast issued long after it is the typical week shifted by the weather.
+ * Each point also gives the duration at its ratio over the latest free-flow duration.
+ * A `model` from `buildForecastModel` saves refitting it; it must not have seen samples
+ * after `at`, and `samples` then only need to hold the link's own. Null when the link has
+ * no usable sample by then.
+ */
+export function forecastLink(samples, { segmentId, direction, at = null, timeZone = DEFAULT_TIME_ZONE, model = null }) {
+  const atMs = at ? new Date(at).getTime() : Infinity;
+  const history = at ? samples.filter((sample) => new Date(sample.requestedAt).getTime() <= atMs) : samples;
+  const latest = latestSample(usableLinkSamples(history, segmentId, direction), atMs);
+  if (!latest) return null;
+
+  const issuedMs = at ? atMs : latest.ms;
+  return {
+    segmentId,
+    direction,
+    issuedAt: new Date(issuedMs).toISOString(),
+    latest: { requestedAt: latest.sample.requestedAt, ratio: latest.ratio, durationSeconds: latest.sample.durationSeconds },
+    halfLifeMinutes: DEVIATION_HALF_LIFE_MINUTES,
+    ...forecastSteps(model ?? buildForecastModel(history, { timeZone }), latest, issuedMs)
+  };
+}
+
+function errorMetrics(errors) {
+  if (errors.length === 0) return { mae: null, rmse: null };
+  return {
+    mae: errors.reduce((sum, error) => sum + Math.abs(error), 0) / errors.length,
+    rmse: Math.sqrt(errors.reduce((sum, error) => sum + error ** 2, 0) / errors.length)
+  };
+}
+
+/**
+ * Backtests the forecast on held-out history. The model is fitted to the samples before the
+ * last `holdoutFraction` of the time span; every held-out sample then issues a forecast,
+ * which is compared with the sample of the same link nearest to each step (within half a
+ * step). Per horizon it reports the MAE and RMSE of the ratio for the forecast and for two
+ * references: the typical ratio alone and the latest ratio carried forward (persistence).
+ * Steps without a typical ratio are left out, so all three are scored on the same pairs.
+ * `segmentId`/`direction` restrict the issuing samples; the model always sees every link.
+ */
+export function backtestForecasts(
+  samples,
+  { holdoutFraction = 0.2, segmentId = null, direction = null, timeZone = DEFAULT_TIME_ZONE } = {}
+) {
+  const times = samples.map((sample) => new Date(sample.requestedAt).getTime()).filter((ms) => !Number.isNaN(ms));
+  if (times.length === 0) return null;
+  const firstMs = Math.min(...times);
+  const splitMs = firstMs + (1 - holdoutFraction) * (Math.max(...times) - firstMs);
+  const model = buildForecastModel(
+    samples.filter((sample) => new Date(sample.requestedAt).getTime() < splitMs),
+    { timeZone }
+  );
+
+  const byLink = new Map();
+  for (const sample of samples) {
+    if (segmentId && sample.segmentId !== segmentId) continue;
+    if (direction && sample.direction !== direction) continue;
+    const id = linkId(sample.segmentId, sample.direction);
+    if (!byLink.has(id)) byLink.set(id, usableLinkSamples(samples, sample.segmentId, sample.direction));
+  }
+
+  const toleranceMs = (FORECAST_STEP_MINUTES / 2) * MINUTE_MS;
+  const errors = new Map();
+  let origins = 0;
+  for (const linkSamples of byLink.values()) {
+    const heldOut = linkSamples.filter((entry) => entry.ms >= splitMs);
+    for (const origin of heldOut) {
+      origins += 1;
+      for (const point of forecastSteps(model, origin, origin.ms).points) {
+        const targetMs = new Date(point.at).getTime();
+        let actual = null;
+        for (const entry of heldOut) {
+          const distance = Math.abs(entry.ms - targetMs);
+          if (distance <= toleranceMs && (!actual || distance < Math.abs(actual.ms - targetMs))) actual = entry;
+        }
+        if (!actual || point.typicalRatio == null) continue;
+        const horizon = errors.get(point.horizonMinutes) ?? { forecast: [], typical: [], persistence: [] };
+        horizon.forecast.push(point.ratio - actual.ratio);
+        horizon.typical.push(point.typicalRatio - actual.ratio);
+        horizon.persistence.push(origin.ratio - actual.ratio);
+        errors.set(point.horizonMinutes, horizon);
+      }
+    }
+  }
+
+  return {
+    trainedUntil: new Date(splitMs).toISOString(),
+    holdoutFraction,
+    origins,
+    horizons: [...errors]
+      .sort(([a], [b]) => a - b)
+      .map(([horizonMinutes, { forecast, typical, persistence }]) => ({
+        horizonMinutes,
+        pairs: forecast.length,
+        forecast: errorMetrics(forecast),
+        typical: errorMetrics(typical),
+        persistence: errorMetrics(persistence)
+      }))
+  };
+}
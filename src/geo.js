@@ -0,0 +1,98 @@
+const EARTH_RADIUS_METERS = 6371000;
+
+function toRadians(value) {
+  return (value * Math.PI) / 180;
+}
+
+export function haversineDistanceMeters(a, b) {
+  const lat1 = toRadians(a.latitude);
+  const lat2 = toRadians(b.latitude);
+  const deltaLat = lat2 - lat1;
+  const deltaLon = toRadians(b.longitude - a.longitude);
+
+  const sinLat = Math.sin(deltaLat / 2);
+  const sinLon = Math.sin(deltaLon / 2);
+
+  const calc = sinLat * sinLat + Math.cos(lat1) * Math.cos(lat2) * sinLon * sinLon;
+  const c = 2 * Math.atan2(Math.sqrt(calc), Math.sqrt(1 - calc));
+  return EARTH_RADIUS_METERS * c;
+}
+
+export function computePathLengthMeters(points) {
+  if (!points || points.length < 2) return null;
+  let total = 0;
+  for (let i = 0; i < points.length - 1; i += 1) {
+    total += haversineDistanceMeters(points[i], points[i + 1]);
+  }
+  return total;
+}
+
+/**
+ * Projects `point` onto the polyline `path` on a local flat projection centred on the
+ * point (accurate to well under a metre at street scale). Returns the distance to the
+ * closest point of the path and how far along the path that closest point lies.
+ */
+export function locateOnPath(point, path) {
+  if (!path || path.length === 0) return null;
+  const metersPerDegreeLat = (Math.PI * EARTH_RADIUS_METERS) / 180;
+  const metersPerDegreeLon = metersPerDegreeLat * Math.cos(toRadians(point.latitude));
+  const project = (vertex) => ({
+    x: (vertex.longitude - point.longitude) * metersPerDegreeLon,
+    y: (vertex.latitude - point.latitude) * metersPerDegreeLat
+  });
+
+  const projected = path.map(project);
+  if (projected.length === 1) {
+    return { distanceMeters: Math.hypot(projected[0].x, projected[0].y), offsetMeters: 0, lengthMeters: 0 };
+  }
+  let best = { distanceMeters: Infinity, offsetMeters: 0 };
+  let travelled = 0;
+  for (let i = 0; i < projected.length - 1; i += 1) {
+    const a = projected[i];
+    const b = projected[i + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.min(Math.max(-(a.x * dx + a.y * dy) / lengthSquared, 0), 1) : 0;
+    const distance = Math.hypot(a.x + t * dx, a.y + t * dy);
+    if (distance < best.distanceMeters) {
+      best = { distanceMeters: distance, offsetMeters: travelled + t * Math.sqrt(lengthSquared) };
+    }
+    travelled += Math.sqrt(lengthSquared);
+  }
+  return { ...best, lengthMeters: travelled };
+}
+
+// Shortest distance from `point` to the polyline `path`.
+export function distanceToPathMeters(point, path) {
+  return locateOnPath(point, path)?.distanceMeters ?? null;
+}
+
+/**
+ * Cuts the part of `points` between two fractions of its length (0 = first point,
+ * 1 = last point), interpolating the cut ends.
+ */
+export function slicePath(points, fromFraction, toFraction) {
+  const total = computePathLengthMeters(points);
+  if (total == null || total === 0) return points.slice();
+  const interpolate = (a, b, t) => ({
+    latitude: a.latitude + (b.latitude - a.latitude) * t,
+    longitude: a.longitude + (b.longitude - a.longitude) * t
+  });
+  const startMeters = fromFraction * total;
+  const endMeters = toFraction * total;
+  const result = [];
+  let travelled = 0;
+  for (let i = 0; i < points.length - 1; i += 1) {
+    const length = haversineDistanceMeters(points[i], points[i + 1]);
+    const next = travelled + length;
+    if (next >= startMeters && travelled <= endMeters && length > 0) {
+      if (result.length === 0) {
+        result.push(interpolate(points[i], points[i + 1], Math.max(startMeters - travelled, 0) / length));
+      }
+      result.push(next <= endMeters ? points[i + 1] : interpolate(points[i], points[i + 1], (endMeters - travelled) / length));
+    }
+    travelled = next;
+  }
+  return result;
+}
@@ -0,0 +1,38 @@
+// Named intersections of the Tre Torri graph. Nodes are derived from shared segment
+// endpoints (see src/network.js); an entry names the node found within the clustering
+// tolerance of `location` and carries its turn rules. A turn is the movement from one
+// segment into another at the node: `banned: true` forbids it, `penaltySeconds` adds a
+// fixed delay. The intersection's `penaltySeconds` applies to every movement without a
+// value of its own. U-turns are banned unless a rule sets `banned: false`.
+export const intersections = [
+  {
+    id: "sturzo-sant-ambrogio",
+    name: "Via Don Luigi Sturzo / Via Sant'Ambrogio",
+    location: { latitude: 45.5185424, longitude: 9.3228744 }
+  },
+  {
+    id: "sant-ambrogio-milani-pontida",
+    name: "Via Sant'Ambrogio / Via Don Lorenzo Milani / Via Pontida",
+    location: { latitude: 45.5178105, longitude: 9.3229557 }
+  },
+  {
+    id: "milani-kolbe",
+    name: "Via Don Lorenzo Milani / Via Padre Kolbe",
+    location: { latitude: 45.5164186, longitude: 9.3214657 }
+  },
+  {
+    id: "melghera-kolbe",
+    name: "Via Melghera / Via Padre Kolbe",
+    location: { latitude: 45.5163, longitude: 9.3203 }
+  },
+  {
+    id: "piazza-ghezzi",
+    name: "Piazza Ghezzi / Via Don Primo Mazzolari",
+    location: { latitude: 45.5168, longitude: 9.325 }
+  },
+  {
+    id: "plesso-scolastico",
+    name: "Plesso Scolastico",
+    location: { latitude: 45.5151, longitude: 9.3232 }
+  }
+];
@@ -0,0 +1,374 @@
+import { haversineDistanceMeters, locateOnPath } from "./geo.js";
+import { intersections as namedIntersections } from "./intersections.js";
+import { resolveSegmentPath } from "./segmentGeometry.js";
+import { streetSegments } from "./segments.js";
+
+// Endpoints closer than this are the same intersection. The hand-placed endpoints of
+// the smaller streets (Piazza Ghezzi, the school access roads) sit up to ~20 m apart.
+export const DEFAULT_NODE_TOLERANCE_METERS = 20;
+
+const SEGMENT_ENDS = ["start", "end"];
+
+function endpointOf(segment, end) {
+  return end === "start" ? segment.endpoints[0] : segment.endpoints[1];
+}
+
+function generatedNodeId(members) {
+  return members
+    .map(({ segmentId, end }) => `${segmentId}:${end}`)
+    .sort()
+    .join("+");
+}
+
+/**
+ * Derives the intersections of the network by clustering segment endpoints that lie
+ * within `toleranceMeters` of each other (single linkage, so a chain of close endpoints
+ * forms one node). Nodes near a named intersection take its id, name and turn rules;
+ * the others get an id listing the segment ends that meet there.
+ */
+export function buildIntersectionRegistry(
+  segments = streetSegments,
+  { intersections = namedIntersections, toleranceMeters = DEFAULT_NODE_TOLERANCE_METERS } = {}
+) {
+  const members = segments.flatMap((segment) =>
+    SEGMENT_ENDS.map((end) => ({ segmentId: segment.id, end, point: endpointOf(segment, end) }))
+  );
+  const parent = members.map((_, index) => index);
+  const find = (index) => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  for (let i = 0; i < members.length; i += 1) {
+    for (let j = i + 1; j < members.length; j += 1) {
+      if (haversineDistanceMeters(members[i].point, members[j].point) <= toleranceMeters) {
+        parent[find(i)] = find(j);
+      }
+    }
+  }
+
+  const clusters = new Map();
+  members.forEach((member, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), member]);
+  });
+
+  const nodes = new Map();
+  const nodeByEnd = new Map();
+  const matchedIntersections = new Set();
+  for (const cluster of clusters.values()) {
+    const latitude = cluster.reduce((sum, member) => sum + member.point.latitude, 0) / cluster.length;
+    const longitude = cluster.reduce((sum, member) => sum + member.point.longitude, 0) / cluster.length;
+    const named = intersections.find(
+      (intersection) =>
+        !matchedIntersections.has(intersection.id) &&
+        haversineDistanceMeters(intersection.location, { latitude, longitude }) <= toleranceMeters
+    );
+    if (named) matchedIntersections.add(named.id);
+
+    const id = named?.id ?? generatedNodeId(cluster);
+    nodes.set(id, {
+      id,
+      name: named?.name ?? null,
+      latitude,
+      longitude,
+      endpoints: cluster.map(({ segmentId, end }) => ({ segmentId, end })),
+      penaltySeconds: named?.penaltySeconds ?? 0,
+      turns: (named?.turns ?? []).map((turn) => ({ ...turn }))
+    });
+    for (const { segmentId, end } of cluster) {
+      nodeByEnd.set(`${segmentId}:${end}`, id);
+    }
+  }
+
+  return {
+    nodes,
+    nodeAt: (segmentId, end) => nodeByEnd.get(`${segmentId}:${end}`) ?? null,
+    unmatchedIntersections: intersections
+      .filter((intersection) => !matchedIntersections.has(intersection.id))
+      .map((intersection) => intersection.id)
+  };
+}
+
+/**
+ * Merges turn rule overrides (`{ node, from, to, banned, penaltySeconds }`) into the
+ * registry's nodes, replacing any rule for the same movement. Returns a new node map.
+ */
+export function applyTurnOverrides(nodes, overrides = []) {
+  const result = new Map([...nodes].map(([id, node]) => [id, { ...node, turns: [...node.turns] }]));
+  for (const { node: nodeId, ...rule } of overrides) {
+    const node = result.get(nodeId);
+    if (!node) continue;
+    node.turns = [
+      ...node.turns.filter((turn) => turn.from !== rule.from || turn.to !== rule.to),
+      rule
+    ];
+  }
+  return result;
+}
+
+export function resolveTurn(node, fromSegmentId, toSegmentId) {
+  const rule = node.turns.find((turn) => turn.from === fromSegmentId && turn.to === toSegmentId);
+  const isUTurn = fromSegmentId === toSegmentId;
+  return {
+    allowed: rule?.banned != null ? !rule.banned : !isUTurn,
+    penaltySeconds: rule?.penaltySeconds ?? node.penaltySeconds ?? 0
+  };
+}
+
+export function turnId(fromLinkId, toLinkId) {
+  return `${fromLinkId}>${toLinkId}`;
+}
+
+// Every movement from an incoming into an outgoing link at each node, banned ones included.
+// Carrying straight on along a segment split at a junction is not a turn and always allowed.
+export function buildTurnMovements(nodes, links) {
+  const turns = new Map();
+  for (const node of nodes.values()) {
+    for (const fromLinkId of node.incoming) {
+      for (const toLinkId of node.outgoing) {
+        const from = links.get(fromLinkId);
+        const to = links.get(toLinkId);
+        const { allowed, penaltySeconds } =
+          from.segmentId === to.segmentId && from.direction === to.direction
+            ? { allowed: true, penaltySeconds: 0 }
+            : resolveTurn(node, from.segmentId, to.segmentId);
+        const id = turnId(fromLinkId, toLinkId);
+        turns.set(id, { id, nodeId: node.id, fromLinkId, toLinkId, allowed, penaltySeconds });
+      }
+    }
+  }
+  return turns;
+}
+
+function allowedTurnsFrom(graph, linkId) {
+  const link = graph.links.get(linkId);
+  return graph.nodes
+    .get(link.to)
+    .outgoing.map((next) => graph.turns.get(turnId(linkId, next)))
+    .filter((turn) => turn?.allowed);
+}
+
+function allowedTurnsInto(graph, linkId) {
+  const link = graph.links.get(linkId);
+  return graph.nodes
+    .get(link.from)
+    .incoming.map((previous) => graph.turns.get(turnId(previous, linkId)))
+    .filter((turn) => turn?.allowed);
+}
+
+function reachable(starts, step) {
+  const seen = new Set(starts);
+  const queue = [...starts];
+  while (queue.length > 0) {
+    for (const next of step(queue.shift())) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Finds boundary nodes (a single segment end) that lie on another segment away from its
+ * endpoints, i.e. T-junctions in the middle of a segment. `fraction` is how far along the
+ * host segment, from its first endpoint, the junction sits.
+ */
+export function findInteriorJunctions(graph, { segments = streetSegments, toleranceMeters = DEFAULT_NODE_TOLERANCE_METERS } = {}) {
+  const junctions = [];
+  for (const node of graph.nodes.values()) {
+    if (node.endpoints.length !== 1) continue;
+    const { segmentId } = node.endpoints[0];
+    for (const host of segments) {
+      if (host.id === segmentId) continue;
+      const located = locateOnPath(node, resolveSegmentPath(host));
+      if (located.distanceMeters <= toleranceMeters && located.lengthMeters > 0) {
+        junctions.push({
+          nodeId: node.id,
+          segmentId,
+          hostSegmentId: host.id,
+          fraction: located.offsetMeters / located.lengthMeters
+        });
+        break;
+      }
+    }
+  }
+  return junctions;
+}
+
+/**
+ * Returns a copy of the graph in which segments hosting interior junctions are cut into
+ * pieces at those junctions, so traffic can turn there. Every link of the result carries
+ * the `parentLinkId` it belongs to, the `fraction` of that link's length it covers (1 for
+ * links that were not cut) and the `startFraction` where it begins along that link. Use it
+ * for routing; the simulator keeps whole links.
+ */
+export function splitAtInteriorJunctions(graph, options = {}) {
+  const cuts = new Map();
+  for (const junction of findInteriorJunctions(graph, options)) {
+    cuts.set(junction.hostSegmentId, [...(cuts.get(junction.hostSegmentId) ?? []), junction]);
+  }
+
+  const nodes = new Map([...graph.nodes].map(([id, node]) => [id, { ...node, incoming: [], outgoing: [] }]));
+  const links = new Map();
+  const addLink = (link) => {
+    links.set(link.id, link);
+    nodes.get(link.from).outgoing.push(link.id);
+    nodes.get(link.to).incoming.push(link.id);
+  };
+
+  for (const link of graph.links.values()) {
+    const junctions = cuts.get(link.segmentId) ?? [];
+    if (junctions.length === 0) {
+      addLink({ ...link, parentLinkId: link.id, fraction: 1, startFraction: 0 });
+      continue;
+    }
+    // Positions along the direction of travel, from the link's start node to its end node.
+    const stops = junctions
+      .map(({ nodeId, fraction }) => ({ nodeId, at: link.direction === "forward" ? fraction : 1 - fraction }))
+      .sort((a, b) => a.at - b.at);
+    const waypoints = [{ nodeId: link.from, at: 0 }, ...stops, { nodeId: link.to, at: 1 }];
+    for (let i = 0; i < waypoints.length - 1; i += 1) {
+      const fraction = waypoints[i + 1].at - waypoints[i].at;
+      addLink({
+        ...link,
+        id: `${link.id}#${i + 1}`,
+        from: waypoints[i].nodeId,
+        to: waypoints[i + 1].nodeId,
+        parentLinkId: link.id,
+        fraction,
+        startFraction: waypoints[i].at,
+        lengthMeters: link.lengthMeters != null ? link.lengthMeters * fraction : null
+      });
+    }
+  }
+
+  return { ...graph, nodes, links, turns: buildTurnMovements(nodes, links) };
+}
+
+/**
+ * Checks a built graph for configuration mistakes and connectivity holes. Nodes where a
+ * single segment ends are the network's boundary: traffic may enter and leave there.
+ * Every link should be reachable from the boundary and able to reach it again through
+ * allowed turns; an endpoint that lands on another segment's interior usually means that
+ * segment needs splitting for the junction to exist.
+ */
+export function validateNetwork(graph, { segments = streetSegments, toleranceMeters = DEFAULT_NODE_TOLERANCE_METERS } = {}) {
+  const problems = [];
+
+  for (const intersectionId of graph.unmatchedIntersections ?? []) {
+    problems.push({
+      type: "unmatched-intersection",
+      nodeId: intersectionId,
+      message: `Intersection ${intersectionId} matches no segment endpoints`
+    });
+  }
+
+  for (const node of graph.nodes.values()) {
+    const segmentIds = new Set(node.endpoints.map((endpoint) => endpoint.segmentId));
+    for (const turn of node.turns) {
+      if (!segmentIds.has(turn.from) || !segmentIds.has(turn.to)) {
+        problems.push({
+          type: "unknown-turn",
+          nodeId: node.id,
+          message: `Turn ${turn.from} → ${turn.to} at ${node.id} refers to a segment that does not meet there`
+        });
+      }
+    }
+  }
+
+  for (const junction of findInteriorJunctions(graph, { segments, toleranceMeters })) {
+    problems.push({
+      type: "junction-inside-segment",
+      nodeId: junction.nodeId,
+      segmentId: junction.hostSegmentId,
+      message: `${junction.segmentId} ends on ${junction.hostSegmentId} away from its endpoints; the junction is not part of the graph`
+    });
+  }
+
+  const boundaryNodes = [...graph.nodes.values()].filter((node) => node.endpoints.length === 1);
+
+  const entries = boundaryNodes.flatMap((node) => graph.nodes.get(node.id).outgoing);
+  const exits = boundaryNodes.flatMap((node) => graph.nodes.get(node.id).incoming);
+  const fromBoundary = reachable(entries, (linkId) => allowedTurnsFrom(graph, linkId).map((turn) => turn.toLinkId));
+  const toBoundary = reachable(exits, (linkId) => allowedTurnsInto(graph, linkId).map((turn) => turn.fromLinkId));
+  for (const linkId of graph.links.keys()) {
+    if (!fromBoundary.has(linkId)) {
+      problems.push({ type: "unreachable-link", linkId, message: `${linkId} cannot be reached from the network boundary` });
+    }
+    if (!toBoundary.has(linkId)) {
+      problems.push({ type: "dead-end-link", linkId, message: `${linkId} has no allowed way back to the network boundary` });
+    }
+  }
+
+  return problems;
+}
+
+export function freeFlowSeconds(link) {
+  if (link.lengthMeters == null || !link.speedLimitKph) return null;
+  return link.lengthMeters / (link.speedLimitKph / 3.6);
+}
+
+/**
+ * Turn-aware Dijkstra between two nodes. The search runs over links rather than nodes,
+ * so a banned turn only blocks that movement and the penalty of each turn taken is added
+ * to the path cost. `linkCostSeconds` defaults to free-flow time at the speed limit; links
+ * it returns null for are skipped. Returns null when no allowed path exists.
+ */
+export function findShortestPath(graph, { fromNodeId, toNodeId, linkCostSeconds = freeFlowSeconds }) {
+  if (!graph.nodes.has(fromNodeId) || !graph.nodes.has(toNodeId)) return null;
+  const costs = new Map();
+  const previous = new Map();
+  const settled = new Set();
+
+  for (const linkId of graph.nodes.get(fromNodeId).outgoing) {
+    const cost = linkCostSeconds(graph.links.get(linkId));
+    if (cost != null) {
+      costs.set(linkId, { total: cost, turnPenalty: 0 });
+    }
+  }
+
+  // A linear scan for the next link is plenty for a network of a few dozen links.
+  while (true) {
+    let current = null;
+    for (const [linkId, cost] of costs) {
+      if (!settled.has(linkId) && (current == null || cost.total < costs.get(current).total)) {
+        current = linkId;
+      }
+    }
+    if (current == null) return null;
+    settled.add(current);
+
+    if (graph.links.get(current).to === toNodeId) {
+      const linkIds = [current];
+      while (previous.has(linkIds[0])) {
+        linkIds.unshift(previous.get(linkIds[0]));
+      }
+      return {
+        linkIds,
+        nodeIds: [fromNodeId, ...linkIds.map((linkId) => graph.links.get(linkId).to)],
+        travelTimeSeconds: costs.get(current).total,
+        turnPenaltySeconds: costs.get(current).turnPenalty
+      };
+    }
+
+    for (const turn of allowedTurnsFrom(graph, current)) {
+      if (settled.has(turn.toLinkId)) continue;
+      const linkCost = linkCostSeconds(graph.links.get(turn.toLinkId));
+      if (linkCost == null) continue;
+      const total = costs.get(current).total + turn.penaltySeconds + linkCost;
+      const known = costs.get(turn.toLinkId);
+      if (!known || total < known.total) {
+        costs.set(turn.toLinkId, {
+          total,
+          turnPenalty: costs.get(current).turnPenalty + turn.penaltySeconds
+        });
+        previous.set(turn.toLinkId, current);
+      }
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import { findShortestPath, freeFlowSeconds } from "./network.js";
+import { streetSegments } from "./segments.js";
+import { summariseObservations } from "./simulator.js";
+import { createRoutingGraphCache } from "./travelTime.js";
+import { zones as configuredZones } from "./zones.js";
+
+// Seed flow of every OD pair whose route crosses at least one observed link.
+export const DEFAULT_SEED_VPH = 10;
+// Links within this GEH of their observation count as fitted (the usual calibration target).
+export const GEH_THRESHOLD = 5;
+
+const MAX_ITERATIONS = 500;
+// Relative improvement of the squared error below which the fit has converged.
+const CONVERGENCE_TOLERANCE = 1e-4;
+// Fewer derived-flow samples than this and a well-fitted link still only gets "medium".
+const MIN_CONFIDENT_SAMPLES = 4;
+
+export function gehStatistic(modelledVph, observedVph) {
+  const sum = modelledVph + observedVph;
+  return sum > 0 ? Math.sqrt((2 * (modelledVph - observedVph) ** 2) / sum) : 0;
+}
+
+// Observed flow per link in the window. Field counts are ground truth and replace the
+// flow derived from travel times on the links they cover.
+function observedLinkFlows(observations, fieldCountFlows) {
+  const targets = new Map();
+  for (const [id, observation] of observations) {
+    if (observation.meanFlowVph == null) continue;
+    targets.set(id, {
+      source: "samples",
+      flowVph: observation.meanFlowVph,
+      sampleCount: observation.flowSampleCount,
+      stdDevVph: observation.flowStdDevVph
+    });
+  }
+  for (const [id, count] of fieldCountFlows) {
+    targets.set(id, { source: "field-count", flowVph: count.flowVph, sampleCount: count.counts, stdDevVph: null });
+  }
+  return targets;
+}
+
+// Share of each whole link a route covers: 1 per link driven, the piece fraction for
+// links cut at interior junctions.
+function routeCoverage(graph, path) {
+  const coverage = new Map();
+  for (const id of path.linkIds) {
+    const link = graph.links.get(id);
+    coverage.set(link.parentLinkId, (coverage.get(link.parentLinkId) ?? 0) + link.fraction);
+  }
+  return coverage;
+}
+
+function estimatedLinkFlows(pairs) {
+  const flows = new Map();
+  for (const pair of pairs) {
+    for (const [id, share] of pair.coverage) {
+      flows.set(id, (flows.get(id) ?? 0) + pair.vph * share);
+    }
+  }
+  return flows;
+}
+
+function squaredError(estimated, targets) {
+  let total = 0;
+  for (const [id, observed] of targets) total += ((estimated.get(id) ?? 0) - observed.flowVph) ** 2;
+  return total;
+}
+
+function linkConfidence(observed, pairCount, geh) {
+  if (!observed) return "unobserved";
+  if (pairCount === 0 || geh >= 2 * GEH_THRESHOLD) return "low";
+  const backed = observed.source === "field-count" || observed.sampleCount >= MIN_CONFIDENT_SAMPLES;
+  return geh < GEH_THRESHOLD && backed ? "high" : "medium";
+}
+
+/**
+ * Estimates hourly trips between the traffic zones (src/zones.js) that reproduce the link
+ * flows observed between `from` and `to`. Every zone pair is routed on the fastest path at
+ * the observed travel times of the window, over the configuration active at its start.
+ * Starting from `seedVph` per pair, trips are rescaled multiplicatively (a non-negative
+ * least-squares update, so no pair goes below zero) until the squared difference between
+ * estimated and observed link flows stops improving. Pairs whose route crosses no observed
+ * link cannot be estimated and get no trips.
+ *
+ * Each link reports its observed and estimated flow, the GEH statistic between them and a
+ * `confidence`: "high" for a fit within GEH 5 backed by a field count or enough samples,
+ * "medium" within GEH 10, "low" beyond that or when no zone pair uses the link, and
+ * "unobserved" for links without a measurement.
+ */
+export function estimateDemand({
+  samples,
+  from = null,
+  to = null,
+  fieldCountFlows = new Map(),
+  segments = streetSegments,
+  zones = configuredZones,
+  seedVph = DEFAULT_SEED_VPH,
+  routingGraphs = createRoutingGraphCache(segments)
+}) {
+  const graph = routingGraphs.at(from ?? to ?? new Date());
+  for (const zone of zones) {
+    if (!graph.nodes.has(zone.nodeId)) {
+      throw new Error(`Zone "${zone.id}" names unknown node "${zone.nodeId}"`);
+    }
+  }
+
+  const observations = summariseObservations(samples, { from, to });
+  const targets = observedLinkFlows(observations, fieldCountFlows);
+  const linkCostSeconds = (link) => {
+    const observed = observations.get(link.parentLinkId)?.meanDurationSeconds;
+    return observed != null ? observed * link.fraction : freeFlowSeconds(link);
+  };
+
+  const pairs = [];
+  const unroutablePairs = [];
+  const unobservedPairs = [];
+  for (const origin of zones) {
+    for (const destination of zones) {
+      if (origin === destination) continue;
+      const pair = { from: origin.id, to: destination.id };
+      const path = findShortestPath(graph, { fromNodeId: origin.nodeId, toNodeId: destination.nodeId, linkCostSeconds });
+      if (!path) {
+        unroutablePairs.push(pair);
+        continue;
+      }
+      const coverage = routeCoverage(graph, path);
+      if (![...coverage.keys()].some((id) => targets.has(id))) {
+        unobservedPairs.push(pair);
+        continue;
+      }
+      pairs.push({ ...pair, fromNodeId: origin.nodeId, toNodeId: destination.nodeId, coverage, vph: seedVph });
+    }
+  }
+
+  let iterations = 0;
+  let converged = pairs.length === 0;
+  let error = squaredError(estimatedLinkFlows(pairs), targets);
+  while (!converged && iterations < MAX_ITERATIONS) {
+    iterations += 1;
+    const estimated = estimatedLinkFlows(pairs);
+    for (const pair of pairs) {
+      let observedSum = 0;
+      let estimatedSum = 0;
+      for (const [id, share] of pair.coverage) {
+        if (!targets.has(id)) continue;
+        observedSum += share * targets.get(id).flowVph;
+        estimatedSum += share * estimated.get(id);
+      }
+      pair.vph = estimatedSum > 0 ? (pair.vph * observedSum) / estimatedSum : 0;
+    }
+    const previousError = error;
+    error = squaredError(estimatedLinkFlows(pairs), targets);
+    converged = previousError === 0 || (previousError - error) / previousError < CONVERGENCE_TOLERANCE;
+  }
+
+  const estimated = estimatedLinkFlows(pairs);
+  const pairCounts = new Map();
+  for (const pair of pairs) {
+    for (const id of pair.coverage.keys()) pairCounts.set(id, (pairCounts.get(id) ?? 0) + 1);
+  }
+  const parentLinks = new Map();
+  for (const link of graph.links.values()) parentLinks.set(link.parentLinkId, link);
+
+  const links = [...parentLinks.values()]
+    .map((link) => {
+      const observed = targets.get(link.parentLinkId) ?? null;
+      const estimatedFlowVph = estimated.get(link.parentLinkId) ?? 0;
+      const pairCount = pairCounts.get(link.parentLinkId) ?? 0;
+      const geh = observed ? gehStatistic(estimatedFlowVph, observed.flowVph) : null;
+      return {
+        linkId: link.parentLinkId,
+        segmentId: link.segmentId,
+        direction: link.direction,
+        source: observed?.source ?? null,
+        observedFlowVph: observed?.flowVph ?? null,
+        observedStdDevVph: observed?.stdDevVph ?? null,
+        sampleCount: observed?.sampleCount ?? 0,
+        estimatedFlowVph,
+        residualVph: observed ? estimatedFlowVph - observed.flowVph : null,
+        geh,
+        pairCount,
+        confidence: linkConfidence(observed, pairCount, geh)
+      };
+    })
+    .sort((a, b) => a.linkId.localeCompare(b.linkId));
+
+  const fitted = links.filter((link) => link.observedFlowVph != null);
+  return {
+    from,
+    to,
+    zones: zones.map(({ id, name, kind, nodeId }) => ({ id, name, kind, nodeId })),
+    converged,
+    iterations,
+    trips: pairs.map(({ from: origin, to: destination, fromNodeId, toNodeId, vph }) => ({
+      from: origin,
+      to: destination,
+      fromNodeId,
+      toNodeId,
+      vph
+    })),
+    totalVph: pairs.reduce((sum, pair) => sum + pair.vph, 0),
+    unobservedPairs,
+    unroutablePairs,
+    links,
+    fit: {
+      observedLinks: fitted.length,
+      withinGehShare: fitted.length > 0 ? fitted.filter((link) => link.geh < GEH_THRESHOLD).length / fitted.length : null,
+      rmseVph:
+        fitted.length > 0
+          ? Math.sqrt(fitted.reduce((sum, link) => sum + link.residualVph ** 2, 0) / fitted.length)
+          : null
+    }
+  };
+}
+
+/**
+ * The estimate as a demand document for `validateDemand` (src/demand.js): trips between
+ * the zones' nodes, rounded to 0.1 veh/h, dropping pairs that round to nothing.
+ */
+export function toDemandDocument(estimate, { name = "Estimated demand" } = {}) {
+  const window = estimate.from || estimate.to ? ` between ${estimate.from ?? "the start"} and ${estimate.to ?? "now"}` : "";
+  return {
+    name,
+    description: `Estimated from observed link flows${window}.`,
+    trips: estimate.trips
+      .map((trip) => ({ from: trip.fromNodeId, to: trip.toNodeId, vph: Math.round(trip.vph * 10) / 10 }))
+      .filter((trip) => trip.vph > 0)
+  };
+}
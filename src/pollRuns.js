@@ -0,0 +1,30 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { streamSampleLines } from "./sampleQuery.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_POLL_RUNS_FILE = path.resolve(__dirname, "..", "data", "poll_runs.jsonl");
+
+/**
+ * Appends one run record to the poll log. Records are small and written once per run, so
+ * a plain append is enough even with the server and the CLI polling side by side.
+ */
+export async function appendPollRun(record, file = DEFAULT_POLL_RUNS_FILE) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, `${JSON.stringify(record)}\n`, "utf8");
+}
+
+// Runs whose start falls inside [fromMs, toMs]; either bound may be null.
+export async function readPollRuns(file = DEFAULT_POLL_RUNS_FILE, { fromMs = null, toMs = null } = {}) {
+  const runs = [];
+  for await (const { sample: run } of streamSampleLines(file)) {
+    const startedMs = new Date(run.startedAt).getTime();
+    if (fromMs != null && startedMs < fromMs) continue;
+    if (toMs != null && startedMs > toMs) continue;
+    runs.push(run);
+  }
+  return runs;
+}
@@ -1,76 +1,30 @@
-import fs from "fs/promises";
 import path from "path";
-import { fileURLToPath, pathToFileURL } from "url";
+import { pathToFileURL } from "url";
+import { randomUUID } from "crypto";
 import dotenv from "dotenv";
-import { streetSegments } from "./segments.js";
+import { createRateLimiter, mapWithConcurrency } from "./concurrency.js";
+import { appendPollRun, DEFAULT_POLL_RUNS_FILE } from "./pollRuns.js";
+import { createTravelTimeProvider } from "./providers/index.js";
+import { defaultFetch } from "./providers/http.js";
+import { createRequestBudget, RequestBudgetExceededError } from "./requestBudget.js";
+import { withRetry } from "./retry.js";
+import { getSegmentsAt } from "./segmentRegistry.js";
+import { createStorage } from "./storage/index.js";
 
-dotenv.config();
-
-const fetchImpl = globalThis.fetch ?? (await import("node-fetch")).default;
+export { parseDurationSeconds } from "./providers/google.js";
 
-const GOOGLE_ROUTES_URL = "https://routes.googleapis.com/directions/v2:computeRoutes";
-const FIELD_MASK = [
-  "routes.duration",
-  "routes.distanceMeters",
-  "routes.staticDuration",
-  "routes.travelAdvisory",
-  "routes.routeLabels"
-].join(",");
+dotenv.config();
 
 const DEPARTURE_LEAD_SECONDS = 120;
-const DEFAULT_DELAY_MS = 250;
+// Minimum spacing between request starts, shared by all in-flight requests.
+const DEFAULT_DELAY_MS = 100;
+const DEFAULT_CONCURRENCY = 4;
 const WEATHER_LATITUDE = 45.5189;
 const WEATHER_LONGITUDE = 9.3247;
 const WEATHER_URL =
   `https://api.open-meteo.com/v1/forecast?latitude=${WEATHER_LATITUDE}&longitude=${WEATHER_LONGITUDE}` +
   '&current=temperature_2m,weather_code&timezone=auto';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const DATA_DIR = path.resolve(__dirname, "..", "data");
-const DATA_FILE = path.join(DATA_DIR, "traffic_samples.jsonl");
-
-const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-if (!apiKey) {
-  throw new Error("GOOGLE_MAPS_API_KEY missing. Set it in your environment or .env file.");
-}
-
-export function parseDurationSeconds(duration) {
-  if (!duration) return null;
-  const match = duration.match(/([0-9]+)(?:\.([0-9]+))?s/);
-  if (!match) return null;
-  const integer = Number(match[1]);
-  const fraction = match[2] ? Number(`0.${match[2]}`) : 0;
-  return integer + fraction;
-}
-
-function buildRequestBody(origin, destination) {
-  return {
-    origin: {
-      location: {
-        latLng: {
-          latitude: origin.latitude,
-          longitude: origin.longitude
-        }
-      }
-    },
-    destination: {
-      location: {
-        latLng: {
-          latitude: destination.latitude,
-          longitude: destination.longitude
-        }
-      }
-    },
-    travelMode: "DRIVE",
-    routingPreference: "TRAFFIC_AWARE",
-    computeAlternativeRoutes: false,
-    departureTime: {
-      seconds: Math.floor(Date.now() / 1000) + DEPARTURE_LEAD_SECONDS
-    }
-  };
-}
-
 export function describeWeatherCode(code) {
   if (code == null || Number.isNaN(code)) return null;
   const lookup = {
@@ -108,7 +62,7 @@ export function describeWeatherCode(code) {
 
 async function fetchWeatherSnapshot() {
   try {
-    const response = await fetchImpl(WEATHER_URL, {
+    const response = await defaultFetch(WEATHER_URL, {
       method: "GET",
       headers: {
         "Content-Type": "application/json"
@@ -141,93 +95,187 @@ async function fetchWeatherSnapshot() {
   }
 }
 
-async function fetchTravelTime({ segment, direction }) {
+async function fetchTravelTime(
+  provider,
+  { segment, direction },
+  { budget, limiter, retry, stats, logErrors, recordPolyline }
+) {
   const [forward, reverse] = segment.endpoints;
   const origin = direction === "forward" ? forward : reverse;
   const destination = direction === "forward" ? reverse : forward;
-  const body = buildRequestBody(origin, destination);
 
-  const response = await fetchImpl(GOOGLE_ROUTES_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Goog-Api-Key": apiKey,
-      "X-Goog-FieldMask": FIELD_MASK
+  return withRetry(
+    async () => {
+      await limiter.acquire();
+      // Charged before the request: a failed call still counts against the quota.
+      stats.estimatedCostUsd += budget.consume(provider.name);
+      stats.attempts += 1;
+      const requestedAt = new Date();
+      const departureTime = new Date(requestedAt.getTime() + DEPARTURE_LEAD_SECONDS * 1000);
+      const { routePolyline, ...result } = await provider.fetchTravelTime({
+        segment,
+        direction,
+        origin,
+        destination,
+        departureTime
+      });
+      return {
+        segmentId: segment.id,
+        segmentName: segment.name,
+        direction,
+        requestedAt: requestedAt.toISOString(),
+        provider: provider.name,
+        origin,
+        destination,
+        ...result,
+        ...(recordPolyline && routePolyline ? { routePolyline } : {})
+      };
     },
-    body: JSON.stringify(body)
-  });
-
-  if (!response.ok) {
-    const errorPayload = await response.text();
-    throw new Error(
-      `Google Routes API error (${response.status} ${response.statusText}) for ${segment.id} ${direction}: ${errorPayload}`
-    );
-  }
-
-  const json = await response.json();
-  const route = json?.routes?.[0];
-  if (!route) {
-    throw new Error(`No route returned for ${segment.id} ${direction}`);
-  }
-
-  const travelAdvisory = route.travelAdvisory ?? {};
-
-  return {
-    segmentId: segment.id,
-    segmentName: segment.name,
-    direction,
-    requestedAt: new Date().toISOString(),
-    origin,
-    destination,
-    distanceMeters: route.distanceMeters ?? null,
-    durationSeconds: parseDurationSeconds(route.duration),
-    staticDurationSeconds: parseDurationSeconds(route.staticDuration),
-    delaySeconds: parseDurationSeconds(travelAdvisory.delayDuration),
-    speedReadingIntervals: travelAdvisory.speedReadingIntervals ?? null,
-    routeLabels: route.routeLabels ?? null
-  };
+    {
+      ...retry,
+      onRetry(error, attempt, delayMs) {
+        stats.retries += 1;
+        if (logErrors) {
+          console.warn(
+            `Retrying ${segment.id} ${direction} (retry ${attempt}) in ${delayMs} ms: ${error.message}`
+          );
+        }
+      }
+    }
+  );
 }
 
-async function ensureDataDir() {
-  await fs.mkdir(DATA_DIR, { recursive: true });
+function planRequests(segments, logErrors) {
+  const plan = [];
+  for (const segment of segments) {
+    const allowedDirections = segment?.metadata?.allowedDirections ?? ["forward", "reverse"];
+    if (!Array.isArray(allowedDirections) || allowedDirections.length === 0) {
+      if (logErrors) {
+        console.warn(`No allowed directions configured for segment ${segment.id}. Skipping.`);
+      }
+      continue;
+    }
+    for (const direction of allowedDirections) {
+      plan.push({ segment, direction, allowedDirections });
+    }
+  }
+  return plan;
 }
 
-async function appendSamples(samples) {
-  const lines = samples.map((sample) => JSON.stringify(sample));
-  await fs.appendFile(DATA_FILE, `${lines.join("\n")}\n`, "utf8");
+function readNumberEnv(name, fallback) {
+  const value = Number(process.env[name]);
+  return process.env[name] != null && Number.isFinite(value) ? value : fallback;
 }
 
-function wait(ms) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function resolveRetryOptions() {
+  return process.env.POLL_MAX_RETRIES != null
+    ? { maxRetries: Number(process.env.POLL_MAX_RETRIES) }
+    : {};
 }
 
+/**
+ * Runs one collection over every allowed segment-direction, with up to `concurrency`
+ * requests in flight behind a shared rate limiter. Transient provider errors are retried
+ * with backoff, every attempt is charged to the daily request budget, and the run stops
+ * early once the budget is spent. Samples come back in segment order and share the run's
+ * `pollId` and `snapshotAt`. A record of the run, failed ones included, is appended to
+ * `runsFile` (pass null to skip). With `recordPolyline` the provider's encoded route
+ * polyline is kept on each sample as `routePolyline`.
+ */
 export async function collectSamples({
-  delayMs = DEFAULT_DELAY_MS,
+  delayMs = readNumberEnv("POLL_MIN_INTERVAL_MS", DEFAULT_DELAY_MS),
+  concurrency = readNumberEnv("POLL_CONCURRENCY", DEFAULT_CONCURRENCY),
   logProgress = true,
-  logErrors = true
+  logErrors = true,
+  storage,
+  provider,
+  budget,
+  retry = resolveRetryOptions(),
+  runsFile = process.env.POLL_RUNS_FILE ?? DEFAULT_POLL_RUNS_FILE,
+  recordPolyline = process.env.POLL_RECORD_POLYLINE === "true"
 } = {}) {
-  await ensureDataDir();
-
+  const source = provider ?? (await createTravelTimeProvider());
+  const ledger = budget ?? (await createRequestBudget());
+  const store = storage ?? (await createStorage());
+  const limiter = createRateLimiter({ minIntervalMs: delayMs });
+  const pollId = randomUUID();
+  const snapshotAt = new Date().toISOString();
   const samples = [];
-  const weatherSnapshot = await fetchWeatherSnapshot();
+  const plan = planRequests(getSegmentsAt(new Date(snapshotAt)), logErrors);
+  const stats = {
+    pollId,
+    provider: source.name,
+    startedAt: snapshotAt,
+    completedAt: null,
+    durationMs: null,
+    planned: plan.length,
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+    attempts: 0,
+    retries: 0,
+    estimatedCostUsd: 0,
+    budgetExhausted: false,
+    weatherFetched: false,
+    successes: [],
+    failures: []
+  };
+  let runError = null;
 
-  for (const segment of streetSegments) {
-    const allowedDirections = segment?.metadata?.allowedDirections ?? ["forward", "reverse"];
-    if (!Array.isArray(allowedDirections) || allowedDirections.length === 0) {
-      if (logErrors) {
-        console.warn(`No allowed directions configured for segment ${segment.id}. Skipping.`);
-      }
-      continue;
-    }
+  try {
+    const weatherSnapshot = source.fetchWeather
+      ? await source.fetchWeather()
+      : await fetchWeatherSnapshot();
+    stats.weatherFetched = weatherSnapshot != null;
 
-    for (const direction of allowedDirections) {
+    const outcomes = await mapWithConcurrency(plan, concurrency, async ({ segment, direction }) => {
+      if (stats.budgetExhausted) return { skipped: true };
       try {
-        const sample = await fetchTravelTime({ segment, direction });
+        const sample = await fetchTravelTime(
+          source,
+          { segment, direction },
+          { budget: ledger, limiter, retry, stats, logErrors, recordPolyline }
+        );
+        return { sample };
+      } catch (error) {
+        if (error instanceof RequestBudgetExceededError) {
+          if (logErrors && !stats.budgetExhausted) {
+            console.error(`${error.message} Skipping the remaining requests.`);
+          }
+          stats.budgetExhausted = true;
+          return { skipped: true };
+        }
+        return { error };
+      }
+    });
+
+    for (const [index, outcome] of outcomes.entries()) {
+      const { segment, direction, allowedDirections } = plan[index];
+      if (outcome.skipped) {
+        stats.skipped += 1;
+      } else if (outcome.error) {
+        stats.failed += 1;
+        stats.failures.push({
+          segmentId: segment.id,
+          direction,
+          status: outcome.error.status ?? null,
+          message: outcome.error.message
+        });
+        if (logErrors) {
+          console.error(`Failed to collect ${segment.id} ${direction}:`, outcome.error.message);
+        }
+      } else {
+        const { sample } = outcome;
         samples.push({
           ...sample,
+          pollId,
+          snapshotAt,
           weather: weatherSnapshot,
-          allowedDirections: [...allowedDirections]
+          allowedDirections: [...allowedDirections],
+          configurationPeriod: segment.configurationPeriod
         });
+        stats.succeeded += 1;
+        stats.successes.push({ segmentId: segment.id, direction });
         if (logProgress) {
           console.log(
             `${segment.name} (${direction}) → duration ${sample.durationSeconds ?? "n/a"}s, delay ${
@@ -235,32 +283,50 @@ export async function collectSamples({
             }s`
           );
         }
-      } catch (error) {
-        if (logErrors) {
-          console.error(`Failed to collect ${segment.id} ${direction}:`, error.message);
-        }
       }
+    }
 
-      if (delayMs > 0) {
-        await wait(delayMs);
+    if (samples.length > 0) {
+      await store.appendSamples(samples);
+      if (logProgress) {
+        console.log(
+          `Appended ${samples.length} ${source.name} samples to ${path.relative(process.cwd(), store.location)} (${store.backend})`
+        );
       }
+    } else if (logProgress) {
+      console.warn("No samples collected. Nothing written to disk.");
+    }
+  } catch (error) {
+    runError = error;
+    throw error;
+  } finally {
+    stats.completedAt = new Date().toISOString();
+    stats.durationMs = new Date(stats.completedAt).getTime() - new Date(stats.startedAt).getTime();
+    stats.estimatedCostUsd = Math.round(stats.estimatedCostUsd * 1e6) / 1e6;
+    const { successes, failures, ...runSummary } = stats;
+    ledger.recordRun({ ...runSummary, failures: failures.length });
+    await ledger.save();
+    if (runsFile) {
+      await appendPollRun(runError ? { ...stats, error: runError.message } : stats, runsFile);
+    }
+    if (!storage) {
+      await store.close();
     }
   }
 
-  if (samples.length > 0) {
-    await appendSamples(samples);
-    if (logProgress) {
-      console.log(
-        `Appended ${samples.length} samples to ${path.relative(process.cwd(), DATA_FILE)}`
-      );
-    }
-  } else if (logProgress) {
-    console.warn("No samples collected. Nothing written to disk.");
+  if (logProgress) {
+    const usage = ledger.usage();
+    console.log(
+      `Run: ${stats.succeeded}/${stats.planned} succeeded, ${stats.failed} failed, ${stats.skipped} skipped, ` +
+        `${stats.attempts} requests (${stats.retries} retries), ~$${stats.estimatedCostUsd.toFixed(4)}. ` +
+        `Today: ${usage.requests}/${usage.limit} requests, ~$${usage.estimatedCostUsd.toFixed(2)}.`
+    );
   }
 
   return {
     samples,
-    dataFile: DATA_FILE
+    dataFile: store.location,
+    stats
   };
 }
 
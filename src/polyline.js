@@ -0,0 +1,98 @@
+import { haversineDistanceMeters } from "./geo.js";
+
+export const CONGESTION_SPEEDS = ["NORMAL", "SLOW", "TRAFFIC_JAM"];
+
+/**
+ * Decodes a Google encoded polyline (precision 5 by default) into
+ * `{ latitude, longitude }` points.
+ */
+export function decodePolyline(encoded, precision = 5) {
+  if (!encoded) return [];
+  const factor = 10 ** precision;
+  const points = [];
+  let index = 0;
+  let latitude = 0;
+  let longitude = 0;
+
+  const readDelta = () => {
+    let result = 0;
+    let shift = 0;
+    let byte;
+    do {
+      if (index >= encoded.length) {
+        throw new Error("Truncated encoded polyline");
+      }
+      byte = encoded.charCodeAt(index) - 63;
+      index += 1;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    latitude += readDelta();
+    longitude += readDelta();
+    points.push({ latitude: latitude / factor, longitude: longitude / factor });
+  }
+  return points;
+}
+
+export function encodePolyline(points, precision = 5) {
+  const factor = 10 ** precision;
+  let previousLatitude = 0;
+  let previousLongitude = 0;
+  let encoded = "";
+
+  const writeDelta = (delta) => {
+    let value = delta < 0 ? ~(delta << 1) : delta << 1;
+    while (value >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (value & 0x1f)) + 63);
+      value >>= 5;
+    }
+    encoded += String.fromCharCode(value + 63);
+  };
+
+  for (const { latitude, longitude } of points) {
+    const lat = Math.round(latitude * factor);
+    const lng = Math.round(longitude * factor);
+    writeDelta(lat - previousLatitude);
+    writeDelta(lng - previousLongitude);
+    previousLatitude = lat;
+    previousLongitude = lng;
+  }
+  return encoded;
+}
+
+function roundMeters(value) {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Turns Routes API speed reading intervals (point index ranges on the route polyline) into
+ * geographic spans with their distance from the route origin. Google omits
+ * `startPolylinePointIndex` when it is 0.
+ */
+export function buildCongestionSpans(points, intervals) {
+  if (!Array.isArray(intervals) || points.length < 2) return [];
+  const offsets = [0];
+  for (let i = 1; i < points.length; i += 1) {
+    offsets.push(offsets[i - 1] + haversineDistanceMeters(points[i - 1], points[i]));
+  }
+
+  const lastIndex = points.length - 1;
+  return intervals
+    .map((interval) => {
+      const startIndex = Math.min(Math.max(interval.startPolylinePointIndex ?? 0, 0), lastIndex);
+      const endIndex = Math.min(Math.max(interval.endPolylinePointIndex ?? lastIndex, 0), lastIndex);
+      return {
+        speed: interval.speed ?? "SPEED_UNSPECIFIED",
+        startIndex,
+        endIndex,
+        startOffsetMeters: roundMeters(offsets[startIndex]),
+        endOffsetMeters: roundMeters(offsets[endIndex]),
+        points: points.slice(startIndex, endIndex + 1)
+      };
+    })
+    .filter((span) => span.endIndex > span.startIndex);
+}
@@ -0,0 +1,27 @@
+/**
+ * Non-2xx answer from a routing API. 429 and 5xx are worth retrying; everything else
+ * (bad key, malformed request) will fail the same way again.
+ */
+export class ProviderHttpError extends Error {
+  constructor(provider, response, body, context) {
+    super(
+      `${provider} error (${response.status} ${response.statusText}) for ${context}: ${body}`
+    );
+    this.name = "ProviderHttpError";
+    this.provider = provider;
+    this.status = response.status;
+    this.retryAfterMs = parseRetryAfter(response.headers?.get?.("retry-after"));
+  }
+
+  get retryable() {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+function parseRetryAfter(value) {
+  if (value == null || value === "") return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+  const dateMs = new Date(value).getTime();
+  return Number.isNaN(dateMs) ? null : Math.max(dateMs - Date.now(), 0);
+}
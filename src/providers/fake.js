@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { computePathLengthMeters } from "../geo.js";
+import { resolveSegmentPath } from "../segmentGeometry.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_FAKE_PROVIDER_CONFIG = path.resolve(
+  __dirname,
+  "..",
+  "..",
+  "config",
+  "fake_provider.json"
+);
+
+const SLOT_MS = 15 * 60 * 1000;
+
+function congestionLevel(factor) {
+  if (factor < 1.15) return "NORMAL";
+  if (factor < 1.5) return "SLOW";
+  return "TRAFFIC_JAM";
+}
+
+function localHour(date, timeZone) {
+  const hour = new Intl.DateTimeFormat("en-GB", { hour: "numeric", hourCycle: "h23", timeZone }).format(
+    date
+  );
+  return Number(hour);
+}
+
+// Uniform in [-1, 1), stable for a given seed, link and 15-minute slot.
+function deterministicNoise(...parts) {
+  const digest = createHash("sha1").update(parts.join("|")).digest();
+  return (digest.readUInt32BE(0) / 0x100000000) * 2 - 1;
+}
+
+function resolveLinkProfile(config, segmentId, direction) {
+  const defaults = config.defaults ?? {};
+  const segment = config.segments?.[segmentId] ?? {};
+  const { directions = {}, ...segmentOverrides } = segment;
+  return { ...defaults, ...segmentOverrides, ...(directions[direction] ?? {}) };
+}
+
+/**
+ * Synthetic travel times for offline runs and tests. Durations follow the hourly congestion
+ * profile in the config file with seeded noise per 15-minute slot, so the same departure
+ * time always yields the same sample.
+ */
+export function createFakeProviderFromConfig(config) {
+  const seed = String(config.seed ?? "fake");
+  const timeZone = config.timeZone ?? "UTC";
+
+  return {
+    name: "fake",
+
+    async fetchWeather() {
+      return config.weather ?? null;
+    },
+
+    async fetchTravelTime({ segment, direction, origin, destination, departureTime }) {
+      const profile = resolveLinkProfile(config, segment.id, direction);
+      if (profile.unavailable) {
+        throw new Error(`Fake provider has no route for ${segment.id} ${direction}`);
+      }
+
+      const routePoints = segment.geometry ? resolveSegmentPath(segment, direction) : [origin, destination];
+      const distanceMeters = Math.round(computePathLengthMeters(routePoints) ?? 0);
+      const freeFlowSpeedKph = profile.freeFlowSpeedKph ?? 30;
+      const staticDurationSeconds = Math.round(distanceMeters / (freeFlowSpeedKph / 3.6));
+
+      const hourly = profile.hourlyCongestion ?? [];
+      const congestion = hourly[localHour(departureTime, timeZone)] ?? 1;
+      const scale = profile.congestionScale ?? 1;
+      const slot = Math.floor(departureTime.getTime() / SLOT_MS);
+      const noise = deterministicNoise(seed, segment.id, direction, slot) * (profile.jitter ?? 0);
+      const factor = Math.max(1 + (congestion - 1) * scale + noise, 0.9);
+      const durationSeconds = Math.round(staticDurationSeconds * factor);
+
+      return {
+        distanceMeters,
+        durationSeconds,
+        staticDurationSeconds,
+        delaySeconds: Math.max(durationSeconds - staticDurationSeconds, 0),
+        speedReadingIntervals: null,
+        congestionSpans: [
+          {
+            speed: congestionLevel(factor),
+            startIndex: 0,
+            endIndex: routePoints.length - 1,
+            startOffsetMeters: 0,
+            endOffsetMeters: distanceMeters,
+            points: routePoints
+          }
+        ],
+        routeLabels: ["DEFAULT_ROUTE"]
+      };
+    }
+  };
+}
+
+export async function createFakeProvider({
+  configFile = process.env.FAKE_PROVIDER_CONFIG ?? DEFAULT_FAKE_PROVIDER_CONFIG
+} = {}) {
+  const config = JSON.parse(await fs.readFile(configFile, "utf8"));
+  return createFakeProviderFromConfig(config);
+}
@@ -0,0 +1,103 @@
+import { buildCongestionSpans, decodePolyline } from "../polyline.js";
+import { ProviderHttpError } from "./errors.js";
+import { defaultFetch } from "./http.js";
+
+const GOOGLE_ROUTES_URL = "https://routes.googleapis.com/directions/v2:computeRoutes";
+const FIELD_MASK = [
+  "routes.duration",
+  "routes.distanceMeters",
+  "routes.staticDuration",
+  "routes.polyline.encodedPolyline",
+  "routes.travelAdvisory",
+  "routes.routeLabels"
+].join(",");
+
+export function parseDurationSeconds(duration) {
+  if (!duration) return null;
+  const match = duration.match(/([0-9]+)(?:\.([0-9]+))?s/);
+  if (!match) return null;
+  const integer = Number(match[1]);
+  const fraction = match[2] ? Number(`0.${match[2]}`) : 0;
+  return integer + fraction;
+}
+
+function toLocation({ latitude, longitude }) {
+  return { location: { latLng: { latitude, longitude } } };
+}
+
+function buildRequestBody(origin, destination, departureTime) {
+  return {
+    origin: toLocation(origin),
+    destination: toLocation(destination),
+    travelMode: "DRIVE",
+    routingPreference: "TRAFFIC_AWARE",
+    computeAlternativeRoutes: false,
+    // Needed for travelAdvisory.speedReadingIntervals, indexed on the returned polyline.
+    extraComputations: ["TRAFFIC_ON_POLYLINE"],
+    polylineQuality: "HIGH_QUALITY",
+    departureTime: {
+      seconds: Math.floor(departureTime.getTime() / 1000)
+    }
+  };
+}
+
+/**
+ * Google Routes `computeRoutes` with live traffic. Reports both the traffic-aware and the
+ * static (free-flow) duration plus Google's own delay estimate.
+ */
+export function createGoogleProvider({
+  apiKey = process.env.GOOGLE_MAPS_API_KEY,
+  fetchImpl = defaultFetch
+} = {}) {
+  if (!apiKey) {
+    throw new Error("GOOGLE_MAPS_API_KEY missing. Set it in your environment or .env file.");
+  }
+
+  return {
+    name: "google",
+
+    async fetchTravelTime({ segment, direction, origin, destination, departureTime }) {
+      const response = await fetchImpl(GOOGLE_ROUTES_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Goog-Api-Key": apiKey,
+          "X-Goog-FieldMask": FIELD_MASK
+        },
+        body: JSON.stringify(buildRequestBody(origin, destination, departureTime))
+      });
+
+      if (!response.ok) {
+        const errorPayload = await response.text();
+        throw new ProviderHttpError(
+          "Google Routes API",
+          response,
+          errorPayload,
+          `${segment.id} ${direction}`
+        );
+      }
+
+      const json = await response.json();
+      const route = json?.routes?.[0];
+      if (!route) {
+        throw new Error(`No route returned for ${segment.id} ${direction}`);
+      }
+
+      const travelAdvisory = route.travelAdvisory ?? {};
+      const speedReadingIntervals = travelAdvisory.speedReadingIntervals ?? null;
+      const polylinePoints = decodePolyline(route.polyline?.encodedPolyline);
+      return {
+        distanceMeters: route.distanceMeters ?? null,
+        durationSeconds: parseDurationSeconds(route.duration),
+        staticDurationSeconds: parseDurationSeconds(route.staticDuration),
+        delaySeconds: parseDurationSeconds(travelAdvisory.delayDuration),
+        speedReadingIntervals,
+        congestionSpans: speedReadingIntervals
+          ? buildCongestionSpans(polylinePoints, speedReadingIntervals)
+          : null,
+        routeLabels: route.routeLabels ?? null,
+        routePolyline: route.polyline?.encodedPolyline ?? null
+      };
+    }
+  };
+}
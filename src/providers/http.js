@@ -0,0 +1 @@
+export const defaultFetch = globalThis.fetch ?? (await import("node-fetch")).default;
@@ -0,0 +1,32 @@
+import { createFakeProvider } from "./fake.js";
+import { createGoogleProvider } from "./google.js";
+import { createOsrmProvider } from "./osrm.js";
+import { createTomTomProvider } from "./tomtom.js";
+
+export const TRAVEL_TIME_PROVIDERS = ["google", "tomtom", "osrm", "fake"];
+
+/**
+ * Opens the travel-time provider selected by `name` (default: the TRAVEL_TIME_PROVIDER env
+ * var, falling back to Google). Every provider exposes `name` and
+ * `fetchTravelTime({ segment, direction, origin, destination, departureTime })`, and may
+ * expose `fetchWeather()` to replace the Open-Meteo lookup.
+ */
+export async function createTravelTimeProvider({
+  name = process.env.TRAVEL_TIME_PROVIDER ?? "google",
+  ...options
+} = {}) {
+  switch (name) {
+    case "google":
+      return createGoogleProvider(options);
+    case "tomtom":
+      return createTomTomProvider(options);
+    case "osrm":
+      return createOsrmProvider(options);
+    case "fake":
+      return createFakeProvider(options);
+    default:
+      throw new Error(
+        `Unknown travel-time provider "${name}". Expected one of: ${TRAVEL_TIME_PROVIDERS.join(", ")}.`
+      );
+  }
+}
@@ -0,0 +1,54 @@
+import { ProviderHttpError } from "./errors.js";
+import { defaultFetch } from "./http.js";
+
+const DEFAULT_OSRM_URL = "http://localhost:5000";
+
+/**
+ * A local OSRM instance. OSRM has no live traffic, so the routed duration is reported as
+ * both the observed and the static duration; useful for geometry checks and offline runs
+ * against a real network.
+ */
+export function createOsrmProvider({
+  baseUrl = process.env.OSRM_URL ?? DEFAULT_OSRM_URL,
+  profile = "driving",
+  fetchImpl = defaultFetch
+} = {}) {
+  return {
+    name: "osrm",
+
+    async fetchTravelTime({ segment, direction, origin, destination }) {
+      const coordinates = [origin, destination]
+        .map(({ latitude, longitude }) => `${longitude},${latitude}`)
+        .join(";");
+      const url = new URL(`${baseUrl.replace(/\/$/, "")}/route/v1/${profile}/${coordinates}`);
+      url.searchParams.set("overview", "false");
+
+      const response = await fetchImpl(url, { method: "GET" });
+      if (!response.ok) {
+        const errorPayload = await response.text();
+        throw new ProviderHttpError(
+          "OSRM",
+          response,
+          errorPayload,
+          `${segment.id} ${direction}`
+        );
+      }
+
+      const json = await response.json();
+      const route = json?.code === "Ok" ? json.routes?.[0] : null;
+      if (!route) {
+        throw new Error(`No route returned for ${segment.id} ${direction}: ${json?.code ?? "unknown"}`);
+      }
+
+      return {
+        distanceMeters: route.distance ?? null,
+        durationSeconds: route.duration ?? null,
+        staticDurationSeconds: route.duration ?? null,
+        delaySeconds: 0,
+        speedReadingIntervals: null,
+        congestionSpans: null,
+        routeLabels: null
+      };
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import { ProviderHttpError } from "./errors.js";
+import { defaultFetch } from "./http.js";
+
+const TOMTOM_ROUTING_URL = "https://api.tomtom.com/routing/1/calculateRoute";
+
+function formatPoint({ latitude, longitude }) {
+  return `${latitude},${longitude}`;
+}
+
+/**
+ * TomTom Routing `calculateRoute` with live traffic. `noTrafficTravelTimeInSeconds` plays
+ * the role of Google's static duration; HERE's Routing v8 summary maps the same way
+ * (`duration` / `baseDuration`).
+ */
+export function createTomTomProvider({
+  apiKey = process.env.TOMTOM_API_KEY,
+  baseUrl = TOMTOM_ROUTING_URL,
+  fetchImpl = defaultFetch
+} = {}) {
+  if (!apiKey) {
+    throw new Error("TOMTOM_API_KEY missing. Set it in your environment or .env file.");
+  }
+
+  return {
+    name: "tomtom",
+
+    async fetchTravelTime({ segment, direction, origin, destination, departureTime }) {
+      const url = new URL(`${baseUrl}/${formatPoint(origin)}:${formatPoint(destination)}/json`);
+      url.searchParams.set("key", apiKey);
+      url.searchParams.set("traffic", "true");
+      url.searchParams.set("travelMode", "car");
+      url.searchParams.set("computeTravelTimeFor", "all");
+      url.searchParams.set("departAt", departureTime.toISOString());
+
+      const response = await fetchImpl(url, { method: "GET" });
+      if (!response.ok) {
+        const errorPayload = await response.text();
+        throw new ProviderHttpError(
+          "TomTom Routing API",
+          response,
+          errorPayload,
+          `${segment.id} ${direction}`
+        );
+      }
+
+      const json = await response.json();
+      const summary = json?.routes?.[0]?.summary;
+      if (!summary) {
+        throw new Error(`No route returned for ${segment.id} ${direction}`);
+      }
+
+      return {
+        distanceMeters: summary.lengthInMeters ?? null,
+        durationSeconds: summary.travelTimeInSeconds ?? null,
+        staticDurationSeconds: summary.noTrafficTravelTimeInSeconds ?? null,
+        delaySeconds: summary.trafficDelayInSeconds ?? null,
+        speedReadingIntervals: null,
+        congestionSpans: null,
+        routeLabels: null
+      };
+    }
+  };
+}
@@ -0,0 +1,112 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_BUDGET_FILE = path.resolve(__dirname, "..", "data", "request_budget.json");
+export const DEFAULT_DAILY_REQUEST_LIMIT = 3000;
+const RETAINED_DAYS = 31;
+
+// List prices per billable request, used for the estimate only. Google Routes bills the
+// traffic-aware field mask we request at the "Advanced" rate.
+export const REQUEST_COST_USD = {
+  google: 0.01,
+  tomtom: 0.00075,
+  osrm: 0,
+  fake: 0
+};
+
+export class RequestBudgetExceededError extends Error {
+  constructor(day, limit) {
+    super(`Daily request budget of ${limit} requests exhausted for ${day} (UTC).`);
+    this.name = "RequestBudgetExceededError";
+    this.day = day;
+    this.limit = limit;
+  }
+}
+
+function dayKey(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundCost(value) {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+async function readLedger(file) {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    if (error.code === "ENOENT") return { days: {} };
+    throw error;
+  }
+}
+
+/**
+ * Per-day (UTC) ledger of provider requests kept in a small JSON file. Every HTTP attempt,
+ * retries included, is charged before it is made; once the day's limit is reached
+ * `consume` throws RequestBudgetExceededError and the poller stops.
+ */
+export async function createRequestBudget({
+  file = process.env.POLL_BUDGET_FILE ?? DEFAULT_BUDGET_FILE,
+  dailyLimit = Number(process.env.POLL_DAILY_REQUEST_LIMIT ?? DEFAULT_DAILY_REQUEST_LIMIT),
+  costPerRequestUsd = process.env.POLL_COST_PER_REQUEST_USD
+    ? Number(process.env.POLL_COST_PER_REQUEST_USD)
+    : null,
+  now = () => new Date()
+} = {}) {
+  const ledger = await readLedger(file);
+  ledger.days ??= {};
+
+  const today = () => {
+    const day = dayKey(now());
+    ledger.days[day] ??= { requests: 0, estimatedCostUsd: 0, byProvider: {}, runs: [] };
+    return { day, entry: ledger.days[day] };
+  };
+
+  return {
+    file,
+    dailyLimit,
+
+    remaining() {
+      return Math.max(dailyLimit - today().entry.requests, 0);
+    },
+
+    consume(providerName) {
+      const { day, entry } = today();
+      if (entry.requests >= dailyLimit) {
+        throw new RequestBudgetExceededError(day, dailyLimit);
+      }
+      const cost = costPerRequestUsd ?? REQUEST_COST_USD[providerName] ?? 0;
+      entry.requests += 1;
+      entry.estimatedCostUsd = roundCost(entry.estimatedCostUsd + cost);
+      entry.byProvider[providerName] = (entry.byProvider[providerName] ?? 0) + 1;
+      return cost;
+    },
+
+    usage() {
+      const { day, entry } = today();
+      return {
+        day,
+        requests: entry.requests,
+        limit: dailyLimit,
+        estimatedCostUsd: entry.estimatedCostUsd
+      };
+    },
+
+    recordRun(summary) {
+      today().entry.runs.push(summary);
+    },
+
+    async save() {
+      const days = Object.keys(ledger.days).sort();
+      for (const day of days.slice(0, Math.max(days.length - RETAINED_DAYS, 0))) {
+        delete ledger.days[day];
+      }
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, `${JSON.stringify(ledger, null, 2)}\n`, "utf8");
+    }
+  };
+}
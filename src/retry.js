@@ -0,0 +1,66 @@
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_BASE_DELAY_MS = 500;
+export const DEFAULT_MAX_DELAY_MS = 10000;
+
+function wait(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Network failures (fetch rejects before any response) are transient too.
+export function isRetryableError(error) {
+  if (error?.retryable != null) return error.retryable;
+  return error?.name === "TypeError" || error?.name === "FetchError" || error?.code === "ECONNRESET";
+}
+
+/**
+ * "Full jitter" exponential backoff: a random delay between 0 and base·2^attempt, capped.
+ * A server-provided Retry-After wins when it is longer.
+ */
+export function computeBackoffDelay(
+  attempt,
+  {
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    random = Math.random,
+    retryAfterMs = null
+  } = {}
+) {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  const jittered = Math.round(random() * ceiling);
+  return retryAfterMs != null ? Math.min(Math.max(jittered, retryAfterMs), maxDelayMs) : jittered;
+}
+
+/**
+ * Calls `fn(attempt)` until it succeeds, a non-retryable error is thrown or `maxRetries`
+ * retries have been spent. `onRetry(error, attempt, delayMs)` runs before each wait.
+ */
+export async function withRetry(
+  fn,
+  {
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    random = Math.random,
+    sleep = wait,
+    shouldRetry = isRetryableError,
+    onRetry
+  } = {}
+) {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= maxRetries || !shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = computeBackoffDelay(attempt, {
+        baseDelayMs,
+        maxDelayMs,
+        random,
+        retryAfterMs: error?.retryAfterMs ?? null
+      });
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
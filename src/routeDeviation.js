@@ -0,0 +1,64 @@
+import { distanceToPathMeters } from "./geo.js";
+import { decodePolyline } from "./polyline.js";
+
+// A route more than 30% longer or shorter than the segment is not the segment.
+export const ROUTE_LENGTH_TOLERANCE = 0.3;
+// Furthest a route point may stray from the segment's shape.
+export const ROUTE_OFFSET_TOLERANCE_METERS = 50;
+// Length ratio (either way) and offset at which the severity saturates at 1.
+const FULL_SEVERITY_LENGTH_RATIO = 3;
+const FULL_SEVERITY_OFFSET_METERS = 250;
+
+function round(value, digits) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Route shape of a sample: the recorded polyline, else the congestion span points.
+export function extractRoutePoints(sample) {
+  if (sample.routePolyline) {
+    return decodePolyline(sample.routePolyline);
+  }
+  const spans = Array.isArray(sample.congestionSpans) ? sample.congestionSpans : [];
+  const points = spans.flatMap((span) => span.points ?? []);
+  return points.length >= 2 ? points : null;
+}
+
+/**
+ * Checks whether the provider routed along the segment. Google silently detours when it
+ * cannot drive a link as requested (a one-way street polled against its direction), which
+ * shows up as a route distance far from the segment length or a route shape away from the
+ * segment. Returns null when the route matches, otherwise the evidence and a severity
+ * between 0 and 1.
+ */
+export function assessRouteDeviation(sample, { lengthMeters, segmentPath = null }) {
+  const reasons = [];
+  let severity = 0;
+
+  const distanceRatio =
+    sample.distanceMeters > 0 && lengthMeters > 0 ? sample.distanceMeters / lengthMeters : null;
+  if (distanceRatio != null && Math.abs(Math.log(distanceRatio)) > Math.log(1 + ROUTE_LENGTH_TOLERANCE)) {
+    reasons.push(distanceRatio > 1 ? "route-longer" : "route-shorter");
+    severity = Math.max(
+      severity,
+      Math.min(Math.abs(Math.log(distanceRatio)) / Math.log(FULL_SEVERITY_LENGTH_RATIO), 1)
+    );
+  }
+
+  const routePoints = segmentPath ? extractRoutePoints(sample) : null;
+  const maxOffsetMeters = routePoints
+    ? Math.max(...routePoints.map((point) => distanceToPathMeters(point, segmentPath)))
+    : null;
+  if (maxOffsetMeters != null && maxOffsetMeters > ROUTE_OFFSET_TOLERANCE_METERS) {
+    reasons.push("off-segment");
+    severity = Math.max(severity, Math.min(maxOffsetMeters / FULL_SEVERITY_OFFSET_METERS, 1));
+  }
+
+  if (reasons.length === 0) return null;
+  return {
+    severity: round(severity, 2),
+    distanceRatio: distanceRatio != null ? round(distanceRatio, 3) : null,
+    maxOffsetMeters: maxOffsetMeters != null ? round(maxOffsetMeters, 1) : null,
+    reasons
+  };
+}
@@ -0,0 +1,82 @@
+import fs from "fs";
+import readline from "readline";
+
+const VALID_DIRECTIONS = new Set(["forward", "reverse"]);
+
+export class SampleQueryError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "SampleQueryError";
+  }
+}
+
+function parseInstant(value, name) {
+  if (value == null || value === "") return null;
+  const ms = new Date(value).getTime();
+  if (Number.isNaN(ms)) {
+    throw new SampleQueryError(`Invalid "${name}" timestamp: ${value}`);
+  }
+  return ms;
+}
+
+/**
+ * Turns `segmentId`, `direction`, `from` and `to` query parameters into a filter. Invalid
+ * values throw a SampleQueryError so the server can answer with a 400.
+ */
+export function parseSampleFilter(searchParams) {
+  const direction = searchParams.get("direction") || null;
+  if (direction && !VALID_DIRECTIONS.has(direction)) {
+    throw new SampleQueryError(`Invalid direction: ${direction}`);
+  }
+  const fromMs = parseInstant(searchParams.get("from"), "from");
+  const toMs = parseInstant(searchParams.get("to"), "to");
+  if (fromMs != null && toMs != null && toMs < fromMs) {
+    throw new SampleQueryError('"to" must not be earlier than "from"');
+  }
+  return {
+    segmentId: searchParams.get("segmentId") || null,
+    direction,
+    fromMs,
+    toMs
+  };
+}
+
+export function matchesSampleFilter(sample, filter = {}) {
+  if (filter.segmentId && sample.segmentId !== filter.segmentId) return false;
+  if (filter.direction && sample.direction !== filter.direction) return false;
+  if (filter.fromMs != null || filter.toMs != null) {
+    const requestedMs = new Date(sample.requestedAt).getTime();
+    if (Number.isNaN(requestedMs)) return false;
+    if (filter.fromMs != null && requestedMs < filter.fromMs) return false;
+    if (filter.toMs != null && requestedMs > filter.toMs) return false;
+  }
+  return true;
+}
+
+/**
+ * Streams a JSONL file line by line and yields the raw line with its parsed sample, so
+ * callers can forward rows without re-serialising them.
+ */
+export async function* streamSampleLines(file, filter = {}) {
+  let input;
+  try {
+    input = fs.createReadStream(file, { encoding: "utf8" });
+    await new Promise((resolve, reject) => {
+      input.once("open", resolve);
+      input.once("error", reject);
+    });
+  } catch (error) {
+    if (error.code === "ENOENT") return;
+    throw error;
+  }
+
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const sample = JSON.parse(trimmed);
+    if (matchesSampleFilter(sample, filter)) {
+      yield { line: trimmed, sample };
+    }
+  }
+}
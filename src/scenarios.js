@@ -0,0 +1,244 @@
+import fs from "fs/promises";
+import path from "path";
+import YAML from "yaml";
+import { buildIntersectionRegistry } from "./network.js";
+import { streetSegments } from "./segments.js";
+
+const VALID_DIRECTIONS = new Set(["forward", "reverse"]);
+const SCENARIO_KEYS = new Set(["id", "name", "description", "window", "edits", "turns"]);
+const EDIT_KEYS = new Set([
+  "segmentId",
+  "allowedDirections",
+  "lanes",
+  "laneCapacityVph",
+  "capacityVph",
+  "closed"
+]);
+const TURN_KEYS = new Set(["node", "from", "to", "banned", "penaltySeconds"]);
+const SCENARIO_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+
+export class ScenarioValidationError extends Error {
+  constructor(source, problems) {
+    super(`Invalid scenario ${source}:\n  - ${problems.join("\n  - ")}`);
+    this.name = "ScenarioValidationError";
+    this.source = source;
+    this.problems = problems;
+  }
+}
+
+function isPositiveNumber(value) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isValidDate(value) {
+  return typeof value === "string" && !Number.isNaN(new Date(value).getTime());
+}
+
+function validateEdit(edit, index, segmentIds, problems) {
+  const prefix = `edits[${index}]`;
+  if (edit == null || typeof edit !== "object" || Array.isArray(edit)) {
+    problems.push(`${prefix} must be an object`);
+    return;
+  }
+
+  for (const key of Object.keys(edit)) {
+    if (!EDIT_KEYS.has(key)) {
+      problems.push(`${prefix} has unknown field "${key}"`);
+    }
+  }
+
+  if (typeof edit.segmentId !== "string") {
+    problems.push(`${prefix}.segmentId is required`);
+  } else if (!segmentIds.has(edit.segmentId)) {
+    problems.push(`${prefix}.segmentId "${edit.segmentId}" does not match any street segment`);
+  }
+
+  if (edit.allowedDirections !== undefined) {
+    if (!Array.isArray(edit.allowedDirections) || edit.allowedDirections.length === 0) {
+      problems.push(`${prefix}.allowedDirections must be a non-empty list (use closed: true to close a segment)`);
+    } else {
+      for (const direction of edit.allowedDirections) {
+        if (!VALID_DIRECTIONS.has(direction)) {
+          problems.push(`${prefix}.allowedDirections contains unknown direction "${direction}"`);
+        }
+      }
+    }
+  }
+
+  if (edit.lanes !== undefined && !(Number.isInteger(edit.lanes) && edit.lanes > 0)) {
+    problems.push(`${prefix}.lanes must be a positive integer`);
+  }
+  for (const field of ["laneCapacityVph", "capacityVph"]) {
+    if (edit[field] !== undefined && !isPositiveNumber(edit[field])) {
+      problems.push(`${prefix}.${field} must be a positive number`);
+    }
+  }
+  if (edit.closed !== undefined && typeof edit.closed !== "boolean") {
+    problems.push(`${prefix}.closed must be true or false`);
+  }
+  if (edit.closed === true && edit.allowedDirections !== undefined) {
+    problems.push(`${prefix} cannot set both closed and allowedDirections`);
+  }
+}
+
+function validateTurn(turn, index, registry, problems) {
+  const prefix = `turns[${index}]`;
+  if (turn == null || typeof turn !== "object" || Array.isArray(turn)) {
+    problems.push(`${prefix} must be an object`);
+    return;
+  }
+
+  for (const key of Object.keys(turn)) {
+    if (!TURN_KEYS.has(key)) {
+      problems.push(`${prefix} has unknown field "${key}"`);
+    }
+  }
+
+  const node = registry.nodes.get(turn.node);
+  if (typeof turn.node !== "string") {
+    problems.push(`${prefix}.node is required`);
+  } else if (!node) {
+    problems.push(`${prefix}.node "${turn.node}" does not match any intersection`);
+  } else {
+    const segmentIds = new Set(node.endpoints.map((endpoint) => endpoint.segmentId));
+    for (const field of ["from", "to"]) {
+      if (typeof turn[field] !== "string") {
+        problems.push(`${prefix}.${field} is required`);
+      } else if (!segmentIds.has(turn[field])) {
+        problems.push(`${prefix}.${field} "${turn[field]}" does not meet at ${turn.node}`);
+      }
+    }
+  }
+
+  if (turn.banned !== undefined && typeof turn.banned !== "boolean") {
+    problems.push(`${prefix}.banned must be true or false`);
+  }
+  if (
+    turn.penaltySeconds !== undefined &&
+    !(typeof turn.penaltySeconds === "number" && Number.isFinite(turn.penaltySeconds) && turn.penaltySeconds >= 0)
+  ) {
+    problems.push(`${prefix}.penaltySeconds must be a non-negative number`);
+  }
+  if (turn.banned === undefined && turn.penaltySeconds === undefined) {
+    problems.push(`${prefix} must set banned or penaltySeconds`);
+  }
+}
+
+/**
+ * Validates a parsed scenario document and returns a normalised copy. All problems are
+ * collected and reported together so a batch run fails once with the full list.
+ */
+export function validateScenario(raw, { segments = streetSegments, source = "scenario" } = {}) {
+  const problems = [];
+  if (raw == null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ScenarioValidationError(source, ["scenario must be an object"]);
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!SCENARIO_KEYS.has(key)) {
+      problems.push(`unknown field "${key}"`);
+    }
+  }
+
+  if (typeof raw.id !== "string" || raw.id.trim() === "") {
+    problems.push("id is required");
+  }
+
+  if (raw.window !== undefined) {
+    if (raw.window == null || typeof raw.window !== "object") {
+      problems.push("window must be an object with from/to");
+    } else {
+      for (const key of ["from", "to"]) {
+        if (raw.window[key] !== undefined && !isValidDate(raw.window[key])) {
+          problems.push(`window.${key} must be an ISO date`);
+        }
+      }
+    }
+  }
+
+  const segmentIds = new Set(segments.map((segment) => segment.id));
+  const hasTurns = Array.isArray(raw.turns) && raw.turns.length > 0;
+  if (raw.turns !== undefined && !Array.isArray(raw.turns)) {
+    problems.push("turns must be a list");
+  }
+  // A scenario that only changes turn permissions may leave out edits.
+  const edits = raw.edits ?? (hasTurns ? [] : null);
+  if (!Array.isArray(edits) || (edits.length === 0 && !hasTurns)) {
+    problems.push("edits must be a non-empty list");
+  } else {
+    const seen = new Set();
+    edits.forEach((edit, index) => {
+      validateEdit(edit, index, segmentIds, problems);
+      if (edit?.segmentId && seen.has(edit.segmentId)) {
+        problems.push(`edits[${index}] repeats segment "${edit.segmentId}"`);
+      }
+      seen.add(edit?.segmentId);
+    });
+  }
+
+  if (hasTurns) {
+    const registry = buildIntersectionRegistry(segments);
+    const seenTurns = new Set();
+    raw.turns.forEach((turn, index) => {
+      validateTurn(turn, index, registry, problems);
+      const key = `${turn?.node}|${turn?.from}|${turn?.to}`;
+      if (seenTurns.has(key)) {
+        problems.push(`turns[${index}] repeats the ${turn.from} → ${turn.to} movement at ${turn.node}`);
+      }
+      seenTurns.add(key);
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new ScenarioValidationError(source, problems);
+  }
+
+  return {
+    id: raw.id.trim(),
+    name: raw.name ?? raw.id.trim(),
+    description: raw.description ?? null,
+    window: raw.window ?? null,
+    edits: edits.map((edit) => ({ ...edit })),
+    turns: (raw.turns ?? []).map((turn) => ({ ...turn }))
+  };
+}
+
+export function parseScenario(text, filePath) {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".json") {
+    return JSON.parse(text);
+  }
+  return YAML.parse(text);
+}
+
+export async function loadScenarioFile(filePath, options = {}) {
+  const text = await fs.readFile(filePath, "utf8");
+  let raw;
+  try {
+    raw = parseScenario(text, filePath);
+  } catch (error) {
+    throw new ScenarioValidationError(filePath, [`cannot parse file: ${error.message}`]);
+  }
+  return validateScenario(raw, { ...options, source: filePath });
+}
+
+/**
+ * Expands directories into the scenario files they contain, keeping explicit file
+ * arguments as given.
+ */
+export async function resolveScenarioPaths(inputs) {
+  const resolved = [];
+  for (const input of inputs) {
+    const stat = await fs.stat(input);
+    if (stat.isDirectory()) {
+      const entries = await fs.readdir(input);
+      entries
+        .filter((entry) => SCENARIO_EXTENSIONS.has(path.extname(entry).toLowerCase()))
+        .sort()
+        .forEach((entry) => resolved.push(path.join(input, entry)));
+    } else {
+      resolved.push(input);
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,161 @@
+import { nextCronOccurrence, parseCronExpression } from "./cron.js";
+
+// Rush hours every 5 minutes on weekdays, every 15 minutes during the day, every 30 at night.
+export const DEFAULT_POLL_SCHEDULE = [
+  "*/5 7-9,17-19 * * 1-5",
+  "*/15 6-21 * * *",
+  "*/30 22-23,0-5 * * *"
+];
+export const DEFAULT_QUOTA_BACKOFF_MS = 60 * 60 * 1000;
+// setTimeout overflows past ~24.8 days; longer waits are re-armed in steps.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export function parseScheduleList(value) {
+  if (Array.isArray(value)) return value;
+  return String(value)
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function startOfNextUtcDay(date) {
+  const next = new Date(date.getTime());
+  next.setUTCHours(24, 0, 0, 0);
+  return next;
+}
+
+/**
+ * Decides whether a finished run hit a quota, and until when polling should stop: the
+ * daily budget resets at UTC midnight, while a run where every request was throttled
+ * backs off for `backoffMs`.
+ */
+export function detectQuotaPause(stats, now, backoffMs = DEFAULT_QUOTA_BACKOFF_MS) {
+  if (!stats) return null;
+  if (stats.budgetExhausted) {
+    return { reason: "Daily request budget exhausted.", until: startOfNextUtcDay(now) };
+  }
+  const failures = stats.failures ?? [];
+  if (stats.succeeded === 0 && failures.length > 0 && failures.every((failure) => failure.status === 429)) {
+    return {
+      reason: "Provider rate limit (429) on every request.",
+      until: new Date(now.getTime() + backoffMs)
+    };
+  }
+  return null;
+}
+
+/**
+ * Runs `run()` at every minute matched by any of the cron `expressions`. The scheduler
+ * starts paused; `resume()` arms it. `run` resolves with `{ status, stats }` (status
+ * "busy" when another poll is still going) and quota problems pause the schedule until
+ * the quota is expected back, after which it resumes on its own.
+ */
+export function createScheduler({
+  expressions = DEFAULT_POLL_SCHEDULE,
+  run,
+  quotaBackoffMs = DEFAULT_QUOTA_BACKOFF_MS,
+  now = () => new Date()
+}) {
+  let crons = expressions.map(parseCronExpression);
+  let timer = null;
+  let nextRunAt = null;
+  let inProgress = false;
+  let pause = { reason: "Not started.", until: null };
+  let lastRun = null;
+  let stopped = false;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    nextRunAt = null;
+  };
+
+  const computeNextRun = () => {
+    const from = pause?.until && pause.until > now() ? pause.until : now();
+    const candidates = crons.map((cron) => nextCronOccurrence(cron, from)).filter(Boolean);
+    if (candidates.length === 0) return null;
+    return new Date(Math.min(...candidates.map((date) => date.getTime())));
+  };
+
+  const arm = () => {
+    clearTimer();
+    if (stopped || (pause && !pause.until)) return;
+    nextRunAt = computeNextRun();
+    if (!nextRunAt) return;
+    const delayMs = Math.max(nextRunAt.getTime() - now().getTime(), 0);
+    timer = setTimeout(delayMs > MAX_TIMER_MS ? arm : fire, Math.min(delayMs, MAX_TIMER_MS));
+    timer.unref?.();
+  };
+
+  const fire = async () => {
+    timer = null;
+    if (pause?.until) {
+      if (now() < pause.until) {
+        arm();
+        return;
+      }
+      pause = null;
+    }
+
+    const startedAt = now();
+    inProgress = true;
+    try {
+      const result = await run();
+      lastRun = {
+        startedAt: startedAt.toISOString(),
+        completedAt: now().toISOString(),
+        status: result?.status ?? "completed",
+        count: result?.count ?? null,
+        stats: result?.stats ?? null
+      };
+      const quotaPause = detectQuotaPause(result?.stats, now(), quotaBackoffMs);
+      if (quotaPause) pause = quotaPause;
+    } catch (error) {
+      lastRun = {
+        startedAt: startedAt.toISOString(),
+        completedAt: now().toISOString(),
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error)
+      };
+    } finally {
+      inProgress = false;
+    }
+    arm();
+  };
+
+  return {
+    pause(reason = "Paused manually.") {
+      pause = { reason, until: null };
+      clearTimer();
+    },
+
+    resume() {
+      pause = null;
+      arm();
+    },
+
+    setExpressions(nextExpressions) {
+      crons = nextExpressions.map(parseCronExpression);
+      if (timer) arm();
+    },
+
+    // Final: used when the server shuts down. A run in progress is not re-armed.
+    stop() {
+      stopped = true;
+      clearTimer();
+    },
+
+    status() {
+      return {
+        active: timer != null,
+        paused: pause != null,
+        pauseReason: pause?.reason ?? null,
+        pausedUntil: pause?.until ? pause.until.toISOString() : null,
+        expressions: crons.map((cron) => cron.expression),
+        nextRunAt: nextRunAt ? nextRunAt.toISOString() : null,
+        inProgress,
+        lastRun
+      };
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_SEGMENT_GEOMETRY_FILE = path.resolve(
+  __dirname,
+  "..",
+  "config",
+  "segment_geometry.json"
+);
+
+function isPoint(value) {
+  return Number.isFinite(value?.latitude) && Number.isFinite(value?.longitude);
+}
+
+/**
+ * Reads the generated geometry file (see scripts/import_geometry.js) into a map of
+ * segment id to points ordered from the first to the second endpoint. Read synchronously
+ * because src/segments.js attaches it at import time; a missing file means no geometry.
+ */
+export function loadSegmentGeometry(file = DEFAULT_SEGMENT_GEOMETRY_FILE) {
+  let document;
+  try {
+    document = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    if (error.code === "ENOENT") return new Map();
+    throw new Error(`Unable to read segment geometry ${file}: ${error.message}`);
+  }
+
+  const geometry = new Map();
+  for (const [segmentId, entry] of Object.entries(document.segments ?? {})) {
+    const points = entry?.points;
+    if (!Array.isArray(points) || points.length < 2 || !points.every(isPoint)) {
+      throw new Error(`Segment geometry for ${segmentId} in ${file} needs at least two points`);
+    }
+    geometry.set(segmentId, points);
+  }
+  return geometry;
+}
+
+// Shape travelled in `direction`; straight between the endpoints when no geometry is known.
+export function resolveSegmentPath(segment, direction = "forward") {
+  const points = segment.geometry ?? segment.endpoints;
+  return direction === "reverse" ? [...points].reverse() : points;
+}
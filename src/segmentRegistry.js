@@ -0,0 +1,98 @@
+import { CAPACITY_FIELDS, withoutCalibratedCapacity } from "./calibration.js";
+import { streetSegments } from "./segments.js";
+
+function toMs(value) {
+  if (value == null) return null;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? null : ms;
+}
+
+function containsInstant(period, atMs) {
+  const fromMs = toMs(period.effectiveFrom);
+  const toMsValue = toMs(period.effectiveTo);
+  if (fromMs != null && atMs < fromMs) return false;
+  if (toMsValue != null && atMs >= toMsValue) return false;
+  return true;
+}
+
+/**
+ * Expands a segment into a complete, ordered timeline. Explicit `periods` override the
+ * base `metadata` inside [effectiveFrom, effectiveTo); the gaps between them fall back to
+ * the base metadata, which describes today's layout. Each entry also carries the
+ * `calibration` that applies to it: without the calibrated capacity in periods that set
+ * their own.
+ */
+export function describeSegmentTimeline(segment) {
+  const periods = [...(segment.periods ?? [])].sort(
+    (a, b) => (toMs(a.effectiveFrom) ?? -Infinity) - (toMs(b.effectiveFrom) ?? -Infinity)
+  );
+  const baseMetadata = segment.metadata ?? {};
+  const baseCalibration = segment.calibration ?? null;
+  const timeline = [];
+  // `cursor` is where the previous period ended; null before the first one means "since ever".
+  let cursor = null;
+  let isFirst = true;
+
+  for (const period of periods) {
+    const fromMs = toMs(period.effectiveFrom);
+    const cursorMs = isFirst ? -Infinity : toMs(cursor);
+    if (fromMs != null && fromMs > cursorMs) {
+      timeline.push({
+        effectiveFrom: cursor,
+        effectiveTo: period.effectiveFrom,
+        metadata: { ...baseMetadata },
+        calibration: baseCalibration
+      });
+    }
+    timeline.push({
+      effectiveFrom: period.effectiveFrom ?? null,
+      effectiveTo: period.effectiveTo ?? null,
+      metadata: { ...baseMetadata, ...period.metadata },
+      calibration: CAPACITY_FIELDS.some((field) => period.metadata?.[field] !== undefined)
+        ? withoutCalibratedCapacity(baseCalibration)
+        : baseCalibration
+    });
+    isFirst = false;
+    cursor = period.effectiveTo ?? null;
+    if (cursor == null) {
+      return timeline;
+    }
+  }
+
+  timeline.push({ effectiveFrom: cursor, effectiveTo: null, metadata: { ...baseMetadata }, calibration: baseCalibration });
+  return timeline;
+}
+
+/**
+ * Returns the segment as configured at `at` (Date, ISO string or epoch ms), with the
+ * metadata of the active period and the period bounds.
+ */
+export function resolveSegmentConfiguration(segment, at = new Date()) {
+  const atMs = at instanceof Date ? at.getTime() : toMs(at) ?? Date.now();
+  const timeline = describeSegmentTimeline(segment);
+  const active = timeline.find((period) => containsInstant(period, atMs)) ?? timeline[timeline.length - 1];
+  return {
+    ...segment,
+    metadata: active.metadata,
+    calibration: active.calibration,
+    configurationPeriod: {
+      effectiveFrom: active.effectiveFrom,
+      effectiveTo: active.effectiveTo
+    }
+  };
+}
+
+export function getSegmentsAt(at = new Date(), segments = streetSegments) {
+  return segments.map((segment) => resolveSegmentConfiguration(segment, at));
+}
+
+export function findSegment(segmentId, segments = streetSegments) {
+  return segments.find((segment) => segment.id === segmentId) ?? null;
+}
+
+export function getAllowedDirectionsAt(segmentId, at, segments = streetSegments) {
+  const segment = findSegment(segmentId, segments);
+  if (!segment) return null;
+  const { metadata } = resolveSegmentConfiguration(segment, at);
+  return metadata.allowedDirections ?? ["forward", "reverse"];
+}
@@ -1,4 +1,10 @@
-export const streetSegments = [
+import { loadCalibratedFlowModels } from "./calibration.js";
+import { loadSegmentGeometry } from "./segmentGeometry.js";
+
+// `metadata` describes today's layout. `periods` record earlier configurations: each one
+// overrides `metadata` between effectiveFrom (inclusive) and effectiveTo (exclusive); null
+// bounds are open-ended. Resolve them through src/segmentRegistry.js.
+const segmentDefinitions = [
   {
     id: "via-don-luigi-sturzo",
     name: "Via Don Luigi Sturzo",
@@ -39,7 +45,14 @@ export const streetSegments = [
       laneCapacityVph: 800,
       speedLimitKph: 30,
       allowedDirections: ["forward"]
-    }
+    },
+    periods: [
+      {
+        effectiveFrom: null,
+        effectiveTo: "2025-10-31T14:00:00Z",
+        metadata: { allowedDirections: ["forward", "reverse"] }
+      }
+    ]
   },
   {
     id: "via-pontida",
@@ -67,7 +80,14 @@ export const streetSegments = [
       laneCapacityVph: 950,
       speedLimitKph: 40,
       allowedDirections: ["forward"]
-    }
+    },
+    periods: [
+      {
+        effectiveFrom: null,
+        effectiveTo: "2025-10-31T14:00:00Z",
+        metadata: { allowedDirections: ["forward", "reverse"] }
+      }
+    ]
   },
   {
     id: "via-leonardo-da-vinci",
@@ -109,7 +129,14 @@ export const streetSegments = [
       laneCapacityVph: 800,
       speedLimitKph: 40,
       allowedDirections: ["reverse"]
-    }
+    },
+    periods: [
+      {
+        effectiveFrom: null,
+        effectiveTo: "2025-10-31T14:00:00Z",
+        metadata: { allowedDirections: ["forward", "reverse"] }
+      }
+    ]
   },
   {
     id: "via-melghera",
@@ -182,3 +209,19 @@ export const streetSegments = [
     }
   }
 ];
+
+// `geometry` is the street's real shape from the first endpoint to the second, imported
+// into config/segment_geometry.json by scripts/import_geometry.js. Null when not imported;
+// consumers then fall back to the straight line between the endpoints.
+const segmentGeometry = loadSegmentGeometry();
+// `calibration` holds the BPR parameters and lane capacity fitted to field counts by
+// scripts/calibrate_flows.js (config/calibrated_flow_models.json). They take precedence
+// over the base `metadata` wherever the segment metadata is resolved, but not over a period
+// or scenario capacity, nor over a non-BPR delay model; null when not calibrated.
+const calibratedFlowModels = loadCalibratedFlowModels();
+
+export const streetSegments = segmentDefinitions.map((segment) => ({
+  ...segment,
+  geometry: segmentGeometry.get(segment.id) ?? null,
+  calibration: calibratedFlowModels.get(segment.id) ?? null
+}));
@@ -0,0 +1,424 @@
+import { deriveFlowMetrics, resolveSegmentMetadata } from "../scripts/enrich_flows.js";
+import { assignTraffic, summariseAssignedLinks } from "./assignment.js";
+import { CAPACITY_FIELDS, withoutCalibratedCapacity } from "./calibration.js";
+import { travelTimeRatio } from "./delayModels.js";
+import {
+  applyTurnOverrides,
+  buildIntersectionRegistry,
+  buildTurnMovements,
+  splitAtInteriorJunctions,
+  validateNetwork
+} from "./network.js";
+import { streetSegments } from "./segments.js";
+
+const DIRECTIONS = ["forward", "reverse"];
+
+export function linkId(segmentId, direction) {
+  return `${segmentId}:${direction}`;
+}
+
+/**
+ * Builds a directed graph from the segment configuration. Every allowed direction of a
+ * segment becomes a link between the intersections at its endpoints (see
+ * `buildIntersectionRegistry`), and every movement between links at a node becomes a turn
+ * carrying its permission and penalty. `turnOverrides` replace the configured turn rules,
+ * which is how scenarios change turn permissions.
+ */
+export function buildNetworkGraph(
+  segments = streetSegments,
+  { intersections, toleranceMeters, turnOverrides = [] } = {}
+) {
+  const metadata = resolveSegmentMetadata(segments);
+  const registry = buildIntersectionRegistry(segments, { intersections, toleranceMeters });
+  const nodes = new Map(
+    [...applyTurnOverrides(registry.nodes, turnOverrides)].map(([id, node]) => [
+      id,
+      { ...node, incoming: [], outgoing: [] }
+    ])
+  );
+  const links = new Map();
+
+  for (const segment of segments) {
+    const startKey = registry.nodeAt(segment.id, "start");
+    const endKey = registry.nodeAt(segment.id, "end");
+    const meta = metadata.get(segment.id);
+    const allowedDirections = segment.metadata?.allowedDirections ?? DIRECTIONS;
+
+    for (const direction of allowedDirections) {
+      const id = linkId(segment.id, direction);
+      const from = direction === "forward" ? startKey : endKey;
+      const to = direction === "forward" ? endKey : startKey;
+      links.set(id, {
+        id,
+        segmentId: segment.id,
+        segmentName: segment.name,
+        direction,
+        from,
+        to,
+        lengthMeters: meta.lengthMeters,
+        lanes: meta.lanes,
+        capacityVph: meta.capacityVph,
+        speedLimitKph: meta.speedLimitKph,
+        flowModel: meta.flowModel
+      });
+      nodes.get(from).outgoing.push(id);
+      nodes.get(to).incoming.push(id);
+    }
+  }
+
+  return {
+    nodes,
+    links,
+    turns: buildTurnMovements(nodes, links),
+    unmatchedIntersections: registry.unmatchedIntersections
+  };
+}
+
+function mean(values) {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values) {
+  if (values.length < 2) return null;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Averages observed samples per link. `from`/`to` (ISO strings) restrict the window, so a
+ * scenario can be evaluated against e.g. the morning peak only. Samples whose route
+ * deviated from the segment are left out, as their durations belong to another path.
+ */
+export function summariseObservations(samples, { from = null, to = null } = {}) {
+  const fromMs = from ? new Date(from).getTime() : null;
+  const toMs = to ? new Date(to).getTime() : null;
+  const buckets = new Map();
+
+  for (const sample of samples) {
+    const requestedMs = new Date(sample.requestedAt).getTime();
+    if (fromMs != null && requestedMs < fromMs) continue;
+    if (toMs != null && requestedMs > toMs) continue;
+    if (sample.durationSeconds == null || sample.staticDurationSeconds == null) continue;
+    if (sample.routeDeviation) continue;
+
+    const id = linkId(sample.segmentId, sample.direction);
+    const metrics = deriveFlowMetrics(sample);
+    const bucket = buckets.get(id) ?? { durations: [], staticDurations: [], flows: [] };
+    bucket.durations.push(sample.durationSeconds);
+    bucket.staticDurations.push(sample.staticDurationSeconds);
+    if (metrics.derivedFlowVph != null) {
+      bucket.flows.push(metrics.derivedFlowVph);
+    }
+    buckets.set(id, bucket);
+  }
+
+  const observations = new Map();
+  for (const [id, bucket] of buckets.entries()) {
+    observations.set(id, {
+      sampleCount: bucket.durations.length,
+      meanDurationSeconds: mean(bucket.durations),
+      meanStaticDurationSeconds: mean(bucket.staticDurations),
+      meanFlowVph: mean(bucket.flows),
+      flowSampleCount: bucket.flows.length,
+      flowStdDevVph: standardDeviation(bucket.flows)
+    });
+  }
+  return observations;
+}
+
+export const EDITABLE_FIELDS = ["allowedDirections", "lanes", "laneCapacityVph", "capacityVph"];
+
+/**
+ * Returns a copy of `segments` with the scenario edits applied. The input array is never
+ * mutated so the same baseline can be reused across scenarios.
+ */
+export function applyScenario(segments, scenario) {
+  const edits = new Map((scenario?.edits ?? []).map((edit) => [edit.segmentId, edit]));
+  return segments.map((segment) => {
+    const edit = edits.get(segment.id);
+    if (!edit) return segment;
+    const metadata = { ...segment.metadata };
+    for (const field of EDITABLE_FIELDS) {
+      if (edit[field] !== undefined) {
+        metadata[field] = Array.isArray(edit[field]) ? [...edit[field]] : edit[field];
+      }
+    }
+    if (edit.closed) {
+      metadata.allowedDirections = [];
+    }
+    // An edited capacity replaces the calibrated one; the fitted BPR parameters still apply.
+    const calibration = CAPACITY_FIELDS.some((field) => edit[field] !== undefined)
+      ? withoutCalibratedCapacity(segment.calibration)
+      : segment.calibration;
+    return { ...segment, metadata, calibration };
+  });
+}
+
+function oppositeDirection(direction) {
+  return direction === "forward" ? "reverse" : "forward";
+}
+
+function resolveFreeFlowSeconds(link, observations) {
+  const own = observations.get(link.id)?.meanStaticDurationSeconds;
+  if (own != null) return own;
+  // A newly opened direction has no history; the opposite leg is the closest proxy.
+  const opposite = observations.get(linkId(link.segmentId, oppositeDirection(link.direction)));
+  if (opposite?.meanStaticDurationSeconds != null) return opposite.meanStaticDurationSeconds;
+  if (link.lengthMeters != null && link.speedLimitKph) {
+    return link.lengthMeters / (link.speedLimitKph / 3.6);
+  }
+  return null;
+}
+
+function evaluateLink(link, observations, flowVph) {
+  const freeFlowSeconds = resolveFreeFlowSeconds(link, observations);
+  const volumeCapacityRatio =
+    flowVph != null && link.capacityVph > 0 ? flowVph / link.capacityVph : null;
+  const timeRatio = travelTimeRatio(link.flowModel, volumeCapacityRatio, {
+    freeFlowSeconds,
+    capacityVph: link.capacityVph
+  });
+  const travelTimeSeconds =
+    freeFlowSeconds != null && timeRatio != null ? freeFlowSeconds * timeRatio : null;
+
+  return {
+    capacityVph: link.capacityVph,
+    flowVph,
+    volumeCapacityRatio,
+    freeFlowSeconds,
+    travelTimeSeconds,
+    observedDurationSeconds: observations.get(link.id)?.meanDurationSeconds ?? null
+  };
+}
+
+function difference(a, b) {
+  if (a == null || b == null) return null;
+  return a - b;
+}
+
+function vehicleHours(result) {
+  if (result?.flowVph == null || result.travelTimeSeconds == null) return 0;
+  return (result.flowVph * result.travelTimeSeconds) / 3600;
+}
+
+function describeTurn(turn) {
+  return turn ? { allowed: turn.allowed, penaltySeconds: turn.penaltySeconds } : null;
+}
+
+// Movements whose permission or penalty differs, including turns that appear or vanish
+// with a link.
+function diffTurns(baselineGraph, scenarioGraph) {
+  const ids = new Set([...baselineGraph.turns.keys(), ...scenarioGraph.turns.keys()]);
+  const changes = [];
+  for (const id of ids) {
+    const baseline = baselineGraph.turns.get(id);
+    const scenario = scenarioGraph.turns.get(id);
+    if (
+      baseline &&
+      scenario &&
+      baseline.allowed === scenario.allowed &&
+      baseline.penaltySeconds === scenario.penaltySeconds
+    ) {
+      continue;
+    }
+    const reference = scenario ?? baseline;
+    changes.push({
+      turnId: id,
+      nodeId: reference.nodeId,
+      fromLinkId: reference.fromLinkId,
+      toLinkId: reference.toLinkId,
+      baseline: describeTurn(baseline),
+      scenario: describeTurn(scenario)
+    });
+  }
+  return changes.sort((a, b) => a.turnId.localeCompare(b.turnId));
+}
+
+// Equilibrium assignment over the routing graph, with free-flow times taken from the
+// observations like the per-link evaluation.
+function runAssignment(graph, segments, observations, trips, options) {
+  const routingGraph = splitAtInteriorJunctions(graph, { segments });
+  const result = assignTraffic(routingGraph, trips, {
+    ...options,
+    freeFlowSeconds: (link) => {
+      const whole = resolveFreeFlowSeconds(graph.links.get(link.parentLinkId), observations);
+      return whole != null ? whole * link.fraction : null;
+    }
+  });
+  return { ...result, links: summariseAssignedLinks(result.links) };
+}
+
+function describeAssignment(result) {
+  return {
+    method: result.method,
+    converged: result.converged,
+    iterations: result.iterations,
+    relativeGap: result.relativeGap,
+    elapsedMs: result.elapsedMs,
+    history: result.history,
+    totalVehicleHours: result.totalVehicleHours,
+    assignedVph: result.assignedVph,
+    unassignedTrips: result.unassignedTrips,
+    unassignedVph: result.unassignedTrips.reduce((sum, trip) => sum + trip.vph, 0)
+  };
+}
+
+function describeAssignedLink(link) {
+  if (!link) return null;
+  return {
+    flowVph: link.flowVph,
+    travelTimeSeconds: link.travelTimeSeconds,
+    volumeCapacityRatio: link.volumeCapacityRatio
+  };
+}
+
+/**
+ * Assigns the same OD demand to the baseline and the scenario network, so closing a
+ * street moves its traffic onto the alternatives. Each link lists both assigned flows next
+ * to what was observed on it.
+ */
+function compareAssignments(baselineGraph, scenarioGraph, { segments, scenarioSegments, observations, demand, options }) {
+  const baseline = runAssignment(baselineGraph, segments, observations, demand.trips, options);
+  const scenario = runAssignment(scenarioGraph, scenarioSegments, observations, demand.trips, options);
+  const baselineLinks = new Map(baseline.links.map((link) => [link.linkId, link]));
+  const scenarioLinks = new Map(scenario.links.map((link) => [link.linkId, link]));
+
+  const links = [...new Set([...baselineLinks.keys(), ...scenarioLinks.keys()])].sort().map((id) => {
+    const before = baselineLinks.get(id);
+    const after = scenarioLinks.get(id);
+    const observed = observations.get(id);
+    return {
+      linkId: id,
+      segmentId: (after ?? before).segmentId,
+      direction: (after ?? before).direction,
+      observedFlowVph: observed?.meanFlowVph ?? null,
+      observedDurationSeconds: observed?.meanDurationSeconds ?? null,
+      baseline: describeAssignedLink(before),
+      scenario: describeAssignedLink(after),
+      delta: {
+        flowVph: difference(after?.flowVph ?? 0, before?.flowVph ?? 0),
+        travelTimeSeconds: difference(after?.travelTimeSeconds, before?.travelTimeSeconds)
+      }
+    };
+  });
+
+  return {
+    demand: { name: demand.name, trips: demand.trips.length },
+    baseline: describeAssignment(baseline),
+    scenario: describeAssignment(scenario),
+    links
+  };
+}
+
+/**
+ * Evaluates a scenario against the observed baseline. Flows stay on the link they were
+ * observed on: a lane reduction raises v/c and travel time, while a removed direction
+ * reports its flow as displaced rather than rerouting it. Turn changes are listed, and
+ * the scenario network is validated so edits that strand a link are reported. With an
+ * OD `demand` the result also carries an equilibrium `assignment` for both networks, which
+ * does reroute traffic (see `compareAssignments`).
+ */
+export function evaluateScenario(
+  scenario,
+  { samples, segments = streetSegments, from, to, demand = null, assignmentOptions = {} } = {}
+) {
+  const observations = summariseObservations(samples ?? [], { from, to });
+  const scenarioSegments = applyScenario(segments, scenario);
+  const baselineGraph = buildNetworkGraph(segments);
+  const scenarioGraph = buildNetworkGraph(scenarioSegments, { turnOverrides: scenario?.turns ?? [] });
+
+  const ids = new Set([...baselineGraph.links.keys(), ...scenarioGraph.links.keys()]);
+  const links = [];
+  let displacedFlowVph = 0;
+
+  for (const id of ids) {
+    const baselineLink = baselineGraph.links.get(id);
+    const scenarioLink = scenarioGraph.links.get(id);
+    const observedFlow = observations.get(id)?.meanFlowVph ?? 0;
+
+    const baseline = baselineLink ? evaluateLink(baselineLink, observations, observedFlow) : null;
+    const result = scenarioLink
+      ? evaluateLink(scenarioLink, observations, baselineLink ? observedFlow : 0)
+      : null;
+
+    let status = "unchanged";
+    if (!scenarioLink) {
+      status = "removed";
+      displacedFlowVph += observedFlow;
+    } else if (!baselineLink) {
+      status = "added";
+    } else if (
+      scenarioLink.capacityVph !== baselineLink.capacityVph ||
+      scenarioLink.lanes !== baselineLink.lanes
+    ) {
+      status = "modified";
+    }
+
+    const reference = scenarioLink ?? baselineLink;
+    links.push({
+      linkId: id,
+      segmentId: reference.segmentId,
+      segmentName: reference.segmentName,
+      direction: reference.direction,
+      status,
+      baseline,
+      scenario: result,
+      delta: {
+        travelTimeSeconds: difference(result?.travelTimeSeconds, baseline?.travelTimeSeconds),
+        volumeCapacityRatio: difference(
+          result?.volumeCapacityRatio,
+          baseline?.volumeCapacityRatio
+        ),
+        flowVph: difference(result?.flowVph ?? 0, baseline?.flowVph ?? 0)
+      }
+    });
+  }
+
+  links.sort((a, b) => a.linkId.localeCompare(b.linkId));
+
+  const turns = diffTurns(baselineGraph, scenarioGraph);
+  const baselineProblems = new Set(
+    validateNetwork(baselineGraph, { segments }).map((problem) => problem.message)
+  );
+  const networkProblems = validateNetwork(scenarioGraph, { segments: scenarioSegments });
+  const introducedProblems = networkProblems.filter((problem) => !baselineProblems.has(problem.message));
+
+  const baselineVehicleHours = links.reduce((sum, link) => sum + vehicleHours(link.baseline), 0);
+  const scenarioVehicleHours = links.reduce((sum, link) => sum + vehicleHours(link.scenario), 0);
+  const assignment = demand
+    ? compareAssignments(baselineGraph, scenarioGraph, {
+        segments,
+        scenarioSegments,
+        observations,
+        demand,
+        options: assignmentOptions
+      })
+    : null;
+
+  return {
+    scenarioId: scenario?.id ?? null,
+    name: scenario?.name ?? null,
+    description: scenario?.description ?? null,
+    links,
+    turns,
+    network: { problems: networkProblems, introducedProblems },
+    assignment,
+    summary: {
+      modifiedLinks: links.filter((link) => link.status === "modified").length,
+      removedLinks: links.filter((link) => link.status === "removed").length,
+      addedLinks: links.filter((link) => link.status === "added").length,
+      changedTurns: turns.length,
+      introducedNetworkProblems: introducedProblems.length,
+      displacedFlowVph,
+      baselineVehicleHours,
+      scenarioVehicleHours,
+      vehicleHoursDelta: scenarioVehicleHours - baselineVehicleHours,
+      // Trips the scenario leaves without a route drop out of its vehicle-hours.
+      assignedVehicleHoursDelta: assignment
+        ? assignment.scenario.totalVehicleHours - assignment.baseline.totalVehicleHours
+        : null,
+      unassignedDemandVph: assignment ? assignment.scenario.unassignedVph : null
+    }
+  };
+}
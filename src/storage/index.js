@@ -0,0 +1,37 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { createJsonlStorage, DEFAULT_BACKUP_COUNT } from "./jsonlStorage.js";
+import { createSqliteStorage } from "./sqliteStorage.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DATA_DIR = path.resolve(__dirname, "..", "..", "data");
+
+export const DEFAULT_JSONL_FILE = path.join(DATA_DIR, "traffic_samples.jsonl");
+export const DEFAULT_SQLITE_FILE = path.join(DATA_DIR, "traffic_samples.sqlite");
+export const STORAGE_BACKENDS = ["jsonl", "sqlite"];
+
+/**
+ * Opens the sample store selected by `backend` (default: the TRAFFIC_STORAGE env var,
+ * falling back to JSONL). Every store exposes appendSamples, readSamples(filter),
+ * transformSamples(fn), countSamples, clear and close, plus revision(): an opaque value
+ * that changes whenever the samples do, from this process or another. JSONL rewrites keep
+ * `jsonlBackupCount` rotated backups (TRAFFIC_BACKUP_COUNT, default 5).
+ */
+export async function createStorage({
+  backend = process.env.TRAFFIC_STORAGE ?? "jsonl",
+  jsonlFile = process.env.TRAFFIC_JSONL_FILE ?? DEFAULT_JSONL_FILE,
+  sqliteFile = process.env.TRAFFIC_SQLITE_FILE ?? DEFAULT_SQLITE_FILE,
+  jsonlBackupCount = Number(process.env.TRAFFIC_BACKUP_COUNT ?? DEFAULT_BACKUP_COUNT)
+} = {}) {
+  switch (backend) {
+    case "jsonl":
+      return createJsonlStorage({ file: jsonlFile, backupCount: jsonlBackupCount });
+    case "sqlite":
+      return createSqliteStorage({ file: sqliteFile });
+    default:
+      throw new Error(
+        `Unknown storage backend "${backend}". Expected one of: ${STORAGE_BACKENDS.join(", ")}.`
+      );
+  }
+}
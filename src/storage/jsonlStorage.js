@@ -0,0 +1,114 @@
+import fs from "fs/promises";
+import path from "path";
+import { streamSampleLines } from "../sampleQuery.js";
+
+export const DEFAULT_BACKUP_COUNT = 5;
+
+function backupPath(file, index) {
+  return file.replace(/(\.jsonl)?$/, `.backup.${index}.jsonl`);
+}
+
+async function rotateBackups(file, backupCount) {
+  await fs.rm(backupPath(file, backupCount), { force: true });
+  for (let index = backupCount - 1; index >= 1; index -= 1) {
+    try {
+      await fs.rename(backupPath(file, index), backupPath(file, index + 1));
+    } catch (error) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+  const latest = backupPath(file, 1);
+  await fs.copyFile(file, latest);
+  return latest;
+}
+
+// Writes next to the target and renames over it, so readers and crashes only ever see
+// the old file or the complete new one.
+async function writeFileAtomic(file, contents) {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  try {
+    await fs.writeFile(tempFile, contents, "utf8");
+    await fs.rename(tempFile, file);
+  } catch (error) {
+    await fs.rm(tempFile, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Stores samples as one JSON document per line. Appends are cheap; rewrites replace the
+ * whole file atomically after rotating the previous contents into
+ * `<name>.backup.1.jsonl` … `<name>.backup.<backupCount>.jsonl` (1 is the newest).
+ */
+export function createJsonlStorage({ file, backupCount = DEFAULT_BACKUP_COUNT }) {
+  return {
+    backend: "jsonl",
+    location: file,
+
+    async appendSamples(samples) {
+      if (samples.length === 0) return;
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const lines = samples.map((sample) => JSON.stringify(sample));
+      await fs.appendFile(file, `${lines.join("\n")}\n`, "utf8");
+    },
+
+    async *readSamples(filter = {}) {
+      for await (const { sample } of streamSampleLines(file, filter)) {
+        yield sample;
+      }
+    },
+
+    // Appends grow the file and rewrites replace it, so either changes the revision.
+    async revision() {
+      try {
+        const stats = await fs.stat(file);
+        return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+      } catch (error) {
+        if (error.code === "ENOENT") return "missing";
+        throw error;
+      }
+    },
+
+    async countSamples() {
+      try {
+        const raw = await fs.readFile(file, "utf8");
+        return raw.split(/\r?\n/).filter(Boolean).length;
+      } catch (error) {
+        if (error.code === "ENOENT") return 0;
+        throw error;
+      }
+    },
+
+    async transformSamples(transform) {
+      let raw;
+      try {
+        raw = await fs.readFile(file, "utf8");
+      } catch (error) {
+        if (error.code === "ENOENT") return { total: 0, updated: 0 };
+        throw error;
+      }
+
+      const lines = raw.split(/\r?\n/).filter(Boolean);
+      let updated = 0;
+      const nextLines = lines.map((line) => {
+        const next = transform(JSON.parse(line));
+        if (next == null) return line;
+        updated += 1;
+        return JSON.stringify(next);
+      });
+
+      if (updated === 0) {
+        return { total: lines.length, updated, backupFile: null };
+      }
+      const backupFile = backupCount > 0 ? await rotateBackups(file, backupCount) : null;
+      await writeFileAtomic(file, `${nextLines.join("\n")}\n`);
+      return { total: lines.length, updated, backupFile };
+    },
+
+    async clear() {
+      await fs.rm(file, { force: true });
+    },
+
+    async close() {}
+  };
+}
@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+
+const TRANSFORM_PAGE_SIZE = 1000;
+// Reads are paged so no statement stays open on the connection while a consumer (a slow
+// or aborted HTTP client) holds the generator; an open cursor would block the next write.
+const READ_PAGE_SIZE = 1000;
+
+function toIso(ms) {
+  return new Date(ms).toISOString();
+}
+
+function normaliseRequestedAt(value) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString();
+}
+
+/**
+ * Stores samples in an embedded SQLite database. Filterable columns are kept next to the
+ * JSON payload and indexed so range queries do not scan the whole history.
+ */
+export async function createSqliteStorage({ file }) {
+  const { default: Database } = await import("better-sqlite3");
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS samples (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      segmentId TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      requestedAt TEXT NOT NULL,
+      payload TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS samples_segment_direction_time_idx
+      ON samples (segmentId, direction, requestedAt);
+    CREATE INDEX IF NOT EXISTS samples_requested_at_idx ON samples (requestedAt);
+  `);
+
+  const insert = db.prepare(
+    "INSERT INTO samples (segmentId, direction, requestedAt, payload) VALUES (?, ?, ?, ?)"
+  );
+  const update = db.prepare("UPDATE samples SET payload = ? WHERE id = ?");
+  const page = db.prepare("SELECT id, payload FROM samples WHERE id > ? ORDER BY id LIMIT ?");
+  const insertMany = db.transaction((samples) => {
+    for (const sample of samples) {
+      insert.run(
+        sample.segmentId,
+        sample.direction,
+        normaliseRequestedAt(sample.requestedAt),
+        JSON.stringify(sample)
+      );
+    }
+  });
+  const updateMany = db.transaction((rows) => {
+    for (const row of rows) {
+      update.run(row.payload, row.id);
+    }
+  });
+
+  // `data_version` only moves on commits from other connections (a CLI run next to the
+  // server), so this connection's own writes are counted here.
+  let writes = 0;
+
+  return {
+    backend: "sqlite",
+    location: file,
+
+    async appendSamples(samples) {
+      if (samples.length === 0) return;
+      insertMany(samples);
+      writes += 1;
+    },
+
+    async *readSamples(filter = {}) {
+      const clauses = [];
+      const params = [];
+      if (filter.segmentId) {
+        clauses.push("segmentId = ?");
+        params.push(filter.segmentId);
+      }
+      if (filter.direction) {
+        clauses.push("direction = ?");
+        params.push(filter.direction);
+      }
+      if (filter.fromMs != null) {
+        clauses.push("requestedAt >= ?");
+        params.push(toIso(filter.fromMs));
+      }
+      if (filter.toMs != null) {
+        clauses.push("requestedAt <= ?");
+        params.push(toIso(filter.toMs));
+      }
+      const where = clauses.length > 0 ? `${clauses.join(" AND ")} AND` : "";
+      const statement = db.prepare(
+        `SELECT id, requestedAt, payload FROM samples
+         WHERE ${where} (requestedAt > ? OR (requestedAt = ? AND id > ?))
+         ORDER BY requestedAt, id LIMIT ?`
+      );
+      let lastRequestedAt = "";
+      let lastId = 0;
+      for (;;) {
+        const rows = statement.all(...params, lastRequestedAt, lastRequestedAt, lastId, READ_PAGE_SIZE);
+        for (const row of rows) {
+          yield JSON.parse(row.payload);
+        }
+        if (rows.length < READ_PAGE_SIZE) break;
+        ({ requestedAt: lastRequestedAt, id: lastId } = rows[rows.length - 1]);
+      }
+    },
+
+    async revision() {
+      return `${writes}:${db.pragma("data_version", { simple: true })}`;
+    },
+
+    async countSamples() {
+      return db.prepare("SELECT COUNT(*) AS count FROM samples").get().count;
+    },
+
+    async transformSamples(transform) {
+      let total = 0;
+      let updated = 0;
+      let lastId = 0;
+      for (;;) {
+        const rows = page.all(lastId, TRANSFORM_PAGE_SIZE);
+        if (rows.length === 0) break;
+        const changes = [];
+        for (const row of rows) {
+          const next = transform(JSON.parse(row.payload));
+          if (next != null) {
+            changes.push({ id: row.id, payload: JSON.stringify(next) });
+          }
+        }
+        updateMany(changes);
+        if (changes.length > 0) writes += 1;
+        total += rows.length;
+        updated += changes.length;
+        lastId = rows[rows.length - 1].id;
+      }
+      return { total, updated, backupFile: null };
+    },
+
+    async clear() {
+      db.exec("DELETE FROM samples");
+      writes += 1;
+    },
+
+    async close() {
+      db.close();
+    }
+  };
+}
@@ -0,0 +1,355 @@
+import { haversineDistanceMeters, slicePath } from "./geo.js";
+import { findShortestPath, freeFlowSeconds, splitAtInteriorJunctions } from "./network.js";
+import { resolveSegmentPath } from "./segmentGeometry.js";
+import { findSegment, getSegmentsAt } from "./segmentRegistry.js";
+import { streetSegments } from "./segments.js";
+import { buildNetworkGraph, linkId } from "./simulator.js";
+
+// Typical hours are local to the study area, whatever the server's timezone.
+export const DEFAULT_TIME_ZONE = "Europe/Rome";
+// Samples without a poll run `snapshotAt` are grouped into windows of this size, as on the map.
+export const SNAPSHOT_WINDOW_MINUTES = 5;
+// The latest snapshot answers a query for `at` only if it is at most this old.
+export const MAX_SNAPSHOT_AGE_MINUTES = 30;
+// A clicked point further than this from every intersection is rejected.
+export const MAX_SNAP_METERS = 250;
+
+const HOURS_PER_WEEK = 7 * 24;
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const COORDINATE_PATTERN = /^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/;
+
+export class TravelTimeQueryError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "TravelTimeQueryError";
+  }
+}
+
+const weekFormats = new Map();
+
+// 0 is Monday 00:00 and 10079 is Sunday 23:59, in `timeZone`.
+export function minuteOfWeek(value, timeZone = DEFAULT_TIME_ZONE) {
+  if (!weekFormats.has(timeZone)) {
+    weekFormats.set(
+      timeZone,
+      new Intl.DateTimeFormat("en-GB", {
+        weekday: "short",
+        hour: "numeric",
+        minute: "numeric",
+        hourCycle: "h23",
+        timeZone
+      })
+    );
+  }
+  const parts = weekFormats.get(timeZone).formatToParts(new Date(value));
+  const weekday = parts.find((part) => part.type === "weekday").value;
+  const hour = Number(parts.find((part) => part.type === "hour").value);
+  const minute = Number(parts.find((part) => part.type === "minute").value);
+  return (WEEKDAYS.indexOf(weekday) * 24 + hour) * 60 + minute;
+}
+
+// 0 is Monday 00:00–00:59 and 167 is Sunday 23:00–23:59, in `timeZone`.
+export function hourOfWeek(value, timeZone = DEFAULT_TIME_ZONE) {
+  return Math.floor(minuteOfWeek(value, timeZone) / 60);
+}
+
+/**
+ * Routing graphs per segment configuration: the links allowed at an instant, with segments
+ * cut at their interior junctions. Graphs are built once per configuration period.
+ */
+export function createRoutingGraphCache(segments = streetSegments) {
+  const graphs = new Map();
+  return {
+    at(instant) {
+      const configured = getSegmentsAt(new Date(instant), segments);
+      const key = configured
+        .map(({ configurationPeriod }) => `${configurationPeriod.effectiveFrom}/${configurationPeriod.effectiveTo}`)
+        .join("|");
+      if (!graphs.has(key)) {
+        graphs.set(key, splitAtInteriorJunctions(buildNetworkGraph(configured), { segments: configured }));
+      }
+      return graphs.get(key);
+    }
+  };
+}
+
+// Samples whose provider route left the segment time a different trip and are skipped.
+function usableDuration(sample) {
+  if (sample.durationSeconds == null || sample.routeDeviation) return null;
+  return sample.durationSeconds;
+}
+
+function snapshotTime(sample) {
+  if (sample.snapshotAt) return sample.snapshotAt;
+  const ms = new Date(sample.requestedAt).getTime();
+  if (Number.isNaN(ms)) return null;
+  const windowMs = SNAPSHOT_WINDOW_MINUTES * 60 * 1000;
+  return new Date(Math.floor(ms / windowMs) * windowMs).toISOString();
+}
+
+function addDuration(totals, sample, duration) {
+  const id = linkId(sample.segmentId, sample.direction);
+  const total = totals.get(id) ?? { sum: 0, count: 0 };
+  total.sum += duration;
+  total.count += 1;
+  totals.set(id, total);
+}
+
+function meanDurations(totals) {
+  return new Map([...totals].map(([id, { sum, count }]) => [id, sum / count]));
+}
+
+/**
+ * Mean observed duration per link for every poll snapshot, oldest first:
+ * `[{ snapshotAt, durations: Map<linkId, seconds> }]`.
+ */
+export function groupSnapshotDurations(samples) {
+  const snapshots = new Map();
+  for (const sample of samples) {
+    const duration = usableDuration(sample);
+    const snapshotAt = snapshotTime(sample);
+    if (duration == null || snapshotAt == null) continue;
+    const totals = snapshots.get(snapshotAt) ?? new Map();
+    addDuration(totals, sample, duration);
+    snapshots.set(snapshotAt, totals);
+  }
+  return [...snapshots]
+    .map(([snapshotAt, totals]) => ({ snapshotAt, durations: meanDurations(totals) }))
+    .sort((a, b) => new Date(a.snapshotAt) - new Date(b.snapshotAt));
+}
+
+// Mean observed duration per link for each hour of the week that has samples.
+export function buildTypicalDurations(samples, { timeZone = DEFAULT_TIME_ZONE } = {}) {
+  const hours = new Map();
+  for (const sample of samples) {
+    const duration = usableDuration(sample);
+    const snapshotAt = snapshotTime(sample);
+    if (duration == null || snapshotAt == null) continue;
+    const hour = hourOfWeek(snapshotAt, timeZone);
+    const totals = hours.get(hour) ?? new Map();
+    addDuration(totals, sample, duration);
+    hours.set(hour, totals);
+  }
+  return new Map([...hours].map(([hour, totals]) => [hour, meanDurations(totals)]));
+}
+
+/**
+ * Fastest allowed route between two nodes of a routing graph, timing every link with its
+ * duration in `durations` (scaled to the share of the link a cut piece covers). Links
+ * without one fall back to free-flow time at the speed limit and are listed in
+ * `unobservedLinkIds`. Consecutive pieces of one link are merged into a single leg.
+ */
+export function computeRouteTravelTime(graph, { fromNodeId, toNodeId, durations = new Map() }) {
+  const linkCostSeconds = (link) => {
+    const observed = durations.get(link.parentLinkId);
+    return observed != null ? observed * link.fraction : freeFlowSeconds(link);
+  };
+  const path = findShortestPath(graph, { fromNodeId, toNodeId, linkCostSeconds });
+  if (!path) return null;
+
+  const legs = [];
+  for (const id of path.linkIds) {
+    const link = graph.links.get(id);
+    const seconds = linkCostSeconds(link);
+    const previous = legs[legs.length - 1];
+    if (previous?.linkId === link.parentLinkId) {
+      previous.fraction += link.fraction;
+      previous.travelTimeSeconds += seconds;
+      continue;
+    }
+    legs.push({
+      linkId: link.parentLinkId,
+      segmentId: link.segmentId,
+      segmentName: link.segmentName,
+      direction: link.direction,
+      startFraction: link.startFraction,
+      fraction: link.fraction,
+      travelTimeSeconds: seconds,
+      observed: durations.has(link.parentLinkId)
+    });
+  }
+
+  return {
+    travelTimeSeconds: path.travelTimeSeconds,
+    turnPenaltySeconds: path.turnPenaltySeconds,
+    legs,
+    unobservedLinkIds: legs.filter((leg) => !leg.observed).map((leg) => leg.linkId)
+  };
+}
+
+// A route timed without a single observed link is just its free-flow time.
+function isObserved(route) {
+  return route != null && route.unobservedLinkIds.length < route.legs.length;
+}
+
+function nodeLabel(graph, node) {
+  if (node.name) return node.name;
+  const names = [...node.incoming, ...node.outgoing].map((id) => graph.links.get(id).segmentName);
+  return [...new Set(names)].join(" / ") || node.id;
+}
+
+export function describeNode(graph, node) {
+  return { id: node.id, name: nodeLabel(graph, node), latitude: node.latitude, longitude: node.longitude };
+}
+
+/**
+ * Resolves a route end given as a node id or as "latitude,longitude", which snaps to the
+ * nearest intersection within `maxSnapMeters`.
+ */
+export function resolveRouteEndpoint(graph, value, name, { maxSnapMeters = MAX_SNAP_METERS } = {}) {
+  if (!value) {
+    throw new TravelTimeQueryError(`Missing "${name}": pass an intersection id or "latitude,longitude"`);
+  }
+  if (graph.nodes.has(value)) return graph.nodes.get(value);
+  const match = COORDINATE_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new TravelTimeQueryError(`Unknown intersection for "${name}": ${value}`);
+  }
+  const point = { latitude: Number(match[1]), longitude: Number(match[2]) };
+  let nearest = null;
+  let nearestMeters = Infinity;
+  for (const node of graph.nodes.values()) {
+    const distance = haversineDistanceMeters(point, node);
+    if (distance < nearestMeters) {
+      nearest = node;
+      nearestMeters = distance;
+    }
+  }
+  if (!nearest || nearestMeters > maxSnapMeters) {
+    throw new TravelTimeQueryError(`No intersection within ${maxSnapMeters} m of ${value}`);
+  }
+  return nearest;
+}
+
+function withLegPoints(route, segments) {
+  if (!route) return null;
+  return {
+    ...route,
+    legs: route.legs.map((leg) => {
+      const segment = findSegment(leg.segmentId, segments);
+      const path = segment ? resolveSegmentPath(segment, leg.direction) : [];
+      return { ...leg, points: slicePath(path, leg.startFraction, leg.startFraction + leg.fraction) };
+    })
+  };
+}
+
+function parseInstant(value, name) {
+  if (value == null || value === "") return null;
+  const ms = new Date(value).getTime();
+  if (Number.isNaN(ms)) {
+    throw new TravelTimeQueryError(`Invalid "${name}" timestamp: ${value}`);
+  }
+  return ms;
+}
+
+/**
+ * Answers "how long from A to B": the route through the network at `at` timed with the
+ * latest snapshot (if recent enough), with the typical durations of that hour of the week
+ * and at free flow, plus a time series over the snapshots between `since` and `until` and
+ * a typical week. Times resting on no observed link at all are left out (null, or absent
+ * from the series). Returns null when no allowed route exists.
+ */
+export function queryRouteTravelTime({
+  samples,
+  from,
+  to,
+  at = new Date(),
+  since = null,
+  until = null,
+  segments = streetSegments,
+  timeZone = DEFAULT_TIME_ZONE,
+  routingGraphs = createRoutingGraphCache(segments)
+}) {
+  const atMs = parseInstant(at instanceof Date ? at.toISOString() : at, "at") ?? Date.now();
+  const sinceMs = parseInstant(since, "since");
+  const untilMs = parseInstant(until, "until");
+  const graph = routingGraphs.at(atMs);
+  const origin = resolveRouteEndpoint(graph, from, "from");
+  const destination = resolveRouteEndpoint(graph, to, "to");
+  if (origin.id === destination.id) {
+    throw new TravelTimeQueryError(`"from" and "to" resolve to the same intersection (${origin.id})`);
+  }
+
+  const route = (routingGraph, durations) =>
+    computeRouteTravelTime(routingGraph, { fromNodeId: origin.id, toNodeId: destination.id, durations });
+  const freeFlow = route(graph, new Map());
+  if (!freeFlow) return null;
+
+  const snapshots = groupSnapshotDurations(samples);
+  const series = [];
+  for (const { snapshotAt, durations } of snapshots) {
+    const ms = new Date(snapshotAt).getTime();
+    if ((sinceMs != null && ms < sinceMs) || (untilMs != null && ms > untilMs)) continue;
+    const result = route(routingGraphs.at(snapshotAt), durations);
+    if (!isObserved(result)) continue;
+    series.push({
+      snapshotAt,
+      travelTimeSeconds: result.travelTimeSeconds,
+      linkIds: result.legs.map((leg) => leg.linkId),
+      unobservedLinkCount: result.unobservedLinkIds.length
+    });
+  }
+
+  const latest = snapshots.filter(({ snapshotAt }) => new Date(snapshotAt).getTime() <= atMs).pop();
+  const isRecent = latest && atMs - new Date(latest.snapshotAt).getTime() <= MAX_SNAPSHOT_AGE_MINUTES * 60 * 1000;
+  const snapshotRoute = isRecent ? route(routingGraphs.at(latest.snapshotAt), latest.durations) : null;
+
+  const typicalDurations = buildTypicalDurations(samples, { timeZone });
+  const atHour = hourOfWeek(atMs, timeZone);
+  const typicalRoute = route(graph, typicalDurations.get(atHour) ?? new Map());
+  const typicalWeek = Array.from({ length: HOURS_PER_WEEK }, (_, hour) => {
+    const result = typicalDurations.has(hour) ? route(graph, typicalDurations.get(hour)) : null;
+    return { hourOfWeek: hour, travelTimeSeconds: isObserved(result) ? result.travelTimeSeconds : null };
+  });
+
+  return {
+    from: describeNode(graph, origin),
+    to: describeNode(graph, destination),
+    at: new Date(atMs).toISOString(),
+    timeZone,
+    snapshot: isObserved(snapshotRoute) ? { snapshotAt: latest.snapshotAt, ...withLegPoints(snapshotRoute, segments) } : null,
+    typical: isObserved(typicalRoute) ? { hourOfWeek: atHour, ...withLegPoints(typicalRoute, segments) } : null,
+    freeFlow: withLegPoints(freeFlow, segments),
+    series,
+    typicalWeek
+  };
+}
+
+/**
+ * Travel time between every ordered pair of intersections for the hour of the week of
+ * `at`, using the typical durations (free flow where a link has none).
+ */
+export function queryOdMatrix({
+  samples,
+  at = new Date(),
+  segments = streetSegments,
+  timeZone = DEFAULT_TIME_ZONE,
+  routingGraphs = createRoutingGraphCache(segments)
+}) {
+  const atMs = parseInstant(at instanceof Date ? at.toISOString() : at, "at") ?? Date.now();
+  const graph = routingGraphs.at(atMs);
+  const atHour = hourOfWeek(atMs, timeZone);
+  const durations = buildTypicalDurations(samples, { timeZone }).get(atHour) ?? new Map();
+
+  const entries = [];
+  for (const fromNodeId of graph.nodes.keys()) {
+    for (const toNodeId of graph.nodes.keys()) {
+      if (fromNodeId === toNodeId) continue;
+      const result = computeRouteTravelTime(graph, { fromNodeId, toNodeId, durations });
+      entries.push({
+        fromNodeId,
+        toNodeId,
+        travelTimeSeconds: result?.travelTimeSeconds ?? null,
+        unobservedLinkCount: result?.unobservedLinkIds.length ?? null
+      });
+    }
+  }
+
+  return {
+    at: new Date(atMs).toISOString(),
+    timeZone,
+    hourOfWeek: atHour,
+    nodes: [...graph.nodes.values()].map((node) => describeNode(graph, node)),
+    entries
+  };
+}
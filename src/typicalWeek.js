@@ -0,0 +1,197 @@
+import { linkId } from "./simulator.js";
+import { DEFAULT_TIME_ZONE, minuteOfWeek } from "./travelTime.js";
+
+export const SLOT_MINUTES = 15;
+const SLOTS_PER_DAY = (24 * 60) / SLOT_MINUTES;
+export const SLOTS_PER_WEEK = 7 * SLOTS_PER_DAY;
+// A slot's baseline pools this many slots on either side (±30 minutes), because a few
+// weeks of polling leave most single slots with one or two samples.
+export const NEIGHBOUR_SLOTS = 2;
+// Fewer pooled samples than this and the baseline falls back from the same weekday to all
+// weekdays (or both weekend days); fewer still and the sample is not scored.
+export const MIN_BASELINE_SAMPLES = 4;
+// Flagged as an incident: at least this many standard deviations above the typical ratio...
+export const INCIDENT_Z_SCORE = 3;
+// ...and at least this slow in absolute terms, so a quiet street gaining a few seconds is not one.
+export const MIN_INCIDENT_RATIO = 1.2;
+// Flagged samples of one link closer together than this form a single incident.
+const INCIDENT_GAP_MINUTES = 30;
+// Floor under the standard deviation: links that are always at free flow vary by rounding only.
+const MIN_RATIO_STD_DEV = 0.05;
+// Pooled samples are within 30 minutes of the same time of day, so closer than this means same day.
+const SAME_DAY_MS = 12 * 60 * 60 * 1000;
+
+// 0 is Monday 00:00–00:14 and 671 is Sunday 23:45–23:59, in `timeZone`.
+export function slotOfWeek(value, timeZone = DEFAULT_TIME_ZONE) {
+  return Math.floor(minuteOfWeek(value, timeZone) / SLOT_MINUTES);
+}
+
+// Live over free-flow duration; null for samples that cannot be compared.
+export function travelTimeRatio(sample) {
+  if (sample.routeDeviation) return null;
+  if (!(sample.durationSeconds > 0) || !(sample.staticDurationSeconds > 0)) return null;
+  return sample.durationSeconds / sample.staticDurationSeconds;
+}
+
+/**
+ * Travel-time ratios per link and 15-minute slot of the week, from the samples' history.
+ * Returns `{ timeZone, links: Map<linkId, Map<slot, { ratio, ms }[]>> }` for `scoreSample`.
+ */
+export function buildTypicalWeek(samples, { timeZone = DEFAULT_TIME_ZONE } = {}) {
+  const links = new Map();
+  for (const sample of samples) {
+    const ratio = travelTimeRatio(sample);
+    const ms = new Date(sample.requestedAt).getTime();
+    if (ratio == null || Number.isNaN(ms)) continue;
+    const id = linkId(sample.segmentId, sample.direction);
+    const slots = links.get(id) ?? new Map();
+    const slot = slotOfWeek(ms, timeZone);
+    slots.set(slot, [...(slots.get(slot) ?? []), { ratio, ms }]);
+    links.set(id, slots);
+  }
+  return { timeZone, links };
+}
+
+// Ratios around the same time of day on `days` (0 is Monday), leaving out the day of `ms`:
+// those are the scored sample itself and its neighbours, which would hide a long slowdown.
+function pooledRatios(slots, days, slotOfDay, ms) {
+  const ratios = [];
+  for (const day of days) {
+    for (let offset = -NEIGHBOUR_SLOTS; offset <= NEIGHBOUR_SLOTS; offset += 1) {
+      const slot = (day * SLOTS_PER_DAY + slotOfDay + offset + SLOTS_PER_WEEK) % SLOTS_PER_WEEK;
+      for (const entry of slots.get(slot) ?? []) {
+        if (Math.abs(entry.ms - ms) >= SAME_DAY_MS) ratios.push(entry.ratio);
+      }
+    }
+  }
+  return ratios;
+}
+
+// The same slot of other weeks once there are enough of them, before that the same time on
+// the other days of the same kind, so a history of a week or two already gives a baseline.
+function baselineRatios(slots, slot, ms) {
+  const day = Math.floor(slot / SLOTS_PER_DAY);
+  const slotOfDay = slot % SLOTS_PER_DAY;
+  const sameWeekday = pooledRatios(slots, [day], slotOfDay, ms);
+  if (sameWeekday.length >= MIN_BASELINE_SAMPLES) return { basis: "weekday", ratios: sameWeekday };
+  const dayType = day < 5 ? [0, 1, 2, 3, 4] : [5, 6];
+  return { basis: day < 5 ? "weekdays" : "weekend", ratios: pooledRatios(slots, dayType, slotOfDay, ms) };
+}
+
+/**
+ * The typical ratio of a link at an instant, from the ratios around the same time of the
+ * week on other days: `{ slot, basis, typicalRatio, stdDev, ratios }`, where `basis` is
+ * `weekday` for the same weekday or `weekdays`/`weekend` for the fallback. Null when
+ * fewer than `MIN_BASELINE_SAMPLES` ratios are available.
+ */
+export function typicalBaseline(typicalWeek, link, value) {
+  const ms = new Date(value).getTime();
+  if (Number.isNaN(ms)) return null;
+  const slot = slotOfWeek(ms, typicalWeek.timeZone);
+  const { basis, ratios } = baselineRatios(typicalWeek.links.get(link) ?? new Map(), slot, ms);
+  if (ratios.length < MIN_BASELINE_SAMPLES) return null;
+  const typicalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+  const variance = ratios.reduce((sum, ratio) => sum + (ratio - typicalRatio) ** 2, 0) / (ratios.length - 1);
+  return { slot, basis, typicalRatio, stdDev: Math.sqrt(variance), ratios };
+}
+
+/**
+ * Scores a sample's travel-time ratio against its link's `typicalBaseline`: `{ slot,
+ * ratio, basis, typicalRatio, stdDev, baselineSamples, zScore, percentile }`. The sample
+ * may be part of the typical week's history. Null when it has no ratio or no baseline.
+ */
+export function scoreSample(typicalWeek, sample) {
+  const ratio = travelTimeRatio(sample);
+  if (ratio == null) return null;
+  const baseline = typicalBaseline(typicalWeek, linkId(sample.segmentId, sample.direction), sample.requestedAt);
+  if (!baseline) return null;
+
+  const { slot, basis, typicalRatio, stdDev, ratios } = baseline;
+  const below = ratios.filter((value) => value < ratio).length;
+  const equal = ratios.filter((value) => value === ratio).length;
+  return {
+    slot,
+    ratio,
+    basis,
+    typicalRatio,
+    stdDev,
+    baselineSamples: ratios.length,
+    zScore: (ratio - typicalRatio) / Math.max(stdDev, MIN_RATIO_STD_DEV),
+    percentile: (100 * (below + equal / 2)) / ratios.length
+  };
+}
+
+/**
+ * `scoreSample` for every sample that can be scored, tagged with its link and time:
+ * `{ segmentId, direction, requestedAt, ...score }`. Samples without a score are left out.
+ */
+export function scoreSamples(typicalWeek, samples) {
+  const scores = [];
+  for (const sample of samples) {
+    const score = scoreSample(typicalWeek, sample);
+    if (!score) continue;
+    scores.push({ segmentId: sample.segmentId, direction: sample.direction, requestedAt: sample.requestedAt, ...score });
+  }
+  return scores;
+}
+
+export function isIncidentScore(score) {
+  return score != null && score.zScore >= INCIDENT_Z_SCORE && score.ratio >= MIN_INCIDENT_RATIO;
+}
+
+/**
+ * Unusually slow periods between `from` and `to`: samples scored against the typical week
+ * of all `samples` (see `scoreSample`) that are at least `INCIDENT_Z_SCORE` standard
+ * deviations and `MIN_INCIDENT_RATIO` above free flow. Flagged samples of one link less
+ * than 30 minutes apart are merged into one incident with its first and last sample time,
+ * the worst ratio and z-score, and the typical ratio at that moment. Newest first. Pass
+ * a `typicalWeek` built from the full history to score only the samples of a window.
+ */
+export function detectIncidents(
+  samples,
+  { from = null, to = null, timeZone = DEFAULT_TIME_ZONE, typicalWeek = buildTypicalWeek(samples, { timeZone }) } = {}
+) {
+  const fromMs = from ? new Date(from).getTime() : null;
+  const toMs = to ? new Date(to).getTime() : null;
+  const flagged = samples
+    .filter((sample) => {
+      const ms = new Date(sample.requestedAt).getTime();
+      if (fromMs != null && ms < fromMs) return false;
+      if (toMs != null && ms > toMs) return false;
+      return true;
+    })
+    .map((sample) => ({ sample, score: scoreSample(typicalWeek, sample) }))
+    .filter(({ score }) => isIncidentScore(score))
+    .sort((a, b) => new Date(a.sample.requestedAt) - new Date(b.sample.requestedAt));
+
+  const open = new Map();
+  const incidents = [];
+  for (const { sample, score } of flagged) {
+    const id = linkId(sample.segmentId, sample.direction);
+    const ms = new Date(sample.requestedAt).getTime();
+    const current = open.get(id);
+    if (current && ms - new Date(current.end).getTime() <= INCIDENT_GAP_MINUTES * 60 * 1000) {
+      current.end = sample.requestedAt;
+      current.sampleCount += 1;
+      if (score.zScore > current.peakZScore) {
+        Object.assign(current, { peakRatio: score.ratio, peakZScore: score.zScore, typicalRatio: score.typicalRatio });
+      }
+      continue;
+    }
+    const incident = {
+      linkId: id,
+      segmentId: sample.segmentId,
+      segmentName: sample.segmentName ?? sample.segmentId,
+      direction: sample.direction,
+      start: sample.requestedAt,
+      end: sample.requestedAt,
+      sampleCount: 1,
+      peakRatio: score.ratio,
+      peakZScore: score.zScore,
+      typicalRatio: score.typicalRatio
+    };
+    open.set(id, incident);
+    incidents.push(incident);
+  }
+  return incidents.reverse();
+}
@@ -0,0 +1,29 @@
+// Traffic zones of the OD demand estimation (src/odEstimation.js). Each zone loads and
+// unloads its trips at one node of the graph, named by its intersection id (see
+// `GET /network`): the school and the residences generate trips inside the block, the
+// gateways are the boundary nodes where streets leave the modelled area.
+export const zones = [
+  { id: "school", name: "Plesso Scolastico", kind: "internal", nodeId: "plesso-scolastico" },
+  { id: "residences", name: "Tre Torri residences (Piazza Ghezzi)", kind: "internal", nodeId: "piazza-ghezzi" },
+  { id: "via-milano", name: "Via Milano exit", kind: "gateway", nodeId: "via-milano:end" },
+  { id: "via-melghera", name: "Via Melghera exit", kind: "gateway", nodeId: "via-melghera:start" },
+  { id: "via-don-luigi-sturzo", name: "Via Don Luigi Sturzo", kind: "gateway", nodeId: "via-don-luigi-sturzo:end" },
+  {
+    id: "via-leonardo-da-vinci-north",
+    name: "Via Leonardo da Vinci (north)",
+    kind: "gateway",
+    nodeId: "via-leonardo-da-vinci:start"
+  },
+  {
+    id: "via-leonardo-da-vinci-south",
+    name: "Via Leonardo da Vinci (south)",
+    kind: "gateway",
+    nodeId: "via-leonardo-da-vinci:end"
+  },
+  {
+    id: "via-don-primo-mazzolari",
+    name: "Via Don Primo Mazzolari",
+    kind: "gateway",
+    nodeId: "via-don-primo-mazzolari:start"
+  }
+];
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateSamples, bucketStart } from '../src/aggregates.js';
+import { matchesSampleFilter, parseSampleFilter, SampleQueryError } from '../src/sampleQuery.js';
+
+describe('bucketStart', () => {
+  it('truncates to the UTC hour or day', () => {
+    expect(bucketStart('2025-11-05T07:42:10.000Z', 'hour')).toBe('2025-11-05T07:00:00.000Z');
+    expect(bucketStart('2025-11-05T07:42:10.000Z', 'day')).toBe('2025-11-05T00:00:00.000Z');
+    expect(bucketStart('not a date', 'hour')).toBeNull();
+  });
+});
+
+describe('aggregateSamples', () => {
+  const samples = [
+    { segmentId: 'via-pontida', direction: 'forward', requestedAt: '2025-11-05T07:05:00Z', durationSeconds: 60, staticDurationSeconds: 40, derivedFlowVph: 600 },
+    { segmentId: 'via-pontida', direction: 'forward', requestedAt: '2025-11-05T07:35:00Z', durationSeconds: 40, staticDurationSeconds: 40, derivedFlowVph: 0 },
+    { segmentId: 'via-pontida', direction: 'forward', requestedAt: '2025-11-05T08:05:00Z', durationSeconds: 50, staticDurationSeconds: 40, derivedFlowVph: 400 },
+    { segmentId: 'via-pontida', direction: 'reverse', requestedAt: '2025-11-05T07:10:00Z', durationSeconds: null, staticDurationSeconds: null },
+  ];
+
+  it('averages ratio, delay and flow per hourly bucket', () => {
+    const result = aggregateSamples(samples, { interval: 'hour' });
+    const first = result.find(
+      (row) => row.direction === 'forward' && row.bucketStart === '2025-11-05T07:00:00.000Z',
+    );
+    expect(first.sampleCount).toBe(2);
+    expect(first.meanRatio).toBeCloseTo(1.25);
+    expect(first.meanDelaySeconds).toBe(10);
+    expect(first.meanDerivedFlowVph).toBe(300);
+  });
+
+  it('keeps buckets without usable durations', () => {
+    const result = aggregateSamples(samples, { interval: 'day' });
+    const reverse = result.find((row) => row.direction === 'reverse');
+    expect(reverse.sampleCount).toBe(1);
+    expect(reverse.meanRatio).toBeNull();
+    const forward = result.find((row) => row.direction === 'forward');
+    expect(forward.sampleCount).toBe(3);
+  });
+});
+
+describe('sample filters', () => {
+  it('parses and applies query parameters', () => {
+    const filter = parseSampleFilter(
+      new URLSearchParams('segmentId=via-pontida&direction=forward&from=2025-11-05T07:30:00Z'),
+    );
+    expect(matchesSampleFilter({ segmentId: 'via-pontida', direction: 'forward', requestedAt: '2025-11-05T08:00:00Z' }, filter)).toBe(true);
+    expect(matchesSampleFilter({ segmentId: 'via-pontida', direction: 'forward', requestedAt: '2025-11-05T07:00:00Z' }, filter)).toBe(false);
+    expect(matchesSampleFilter({ segmentId: 'via-milano', direction: 'forward', requestedAt: '2025-11-05T08:00:00Z' }, filter)).toBe(false);
+  });
+
+  it('rejects invalid directions and dates', () => {
+    expect(() => parseSampleFilter(new URLSearchParams('direction=up'))).toThrow(SampleQueryError);
+    expect(() => parseSampleFilter(new URLSearchParams('from=yesterday'))).toThrow(SampleQueryError);
+    expect(() => parseSampleFilter(new URLSearchParams('from=2025-11-05&to=2025-11-04'))).toThrow(SampleQueryError);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { assignTraffic, summariseAssignedLinks } from '../src/assignment.js';
+import { splitAtInteriorJunctions } from '../src/network.js';
+import { buildNetworkGraph, linkId } from '../src/simulator.js';
+
+const O = { latitude: 45.0, longitude: 9.0 };
+const M = { latitude: 45.001, longitude: 9.001 };
+const D = { latitude: 45.0, longitude: 9.002 };
+
+function segment(id, start, end, { laneCapacityVph = 1800, allowedDirections = ['forward'] } = {}) {
+  return {
+    id,
+    name: id,
+    endpoints: [start, end],
+    geometry: null,
+    metadata: { lanes: 1, laneCapacityVph, speedLimitKph: 36, allowedDirections },
+  };
+}
+
+// A short, narrow direct street and a longer, wide detour through M.
+const segments = [segment('direct', O, D, { laneCapacityVph: 400 }), segment('o-m', O, M), segment('m-d', M, D)];
+const origin = 'direct:start+o-m:start';
+const destination = 'direct:end+m-d:end';
+const trips = [{ from: origin, to: destination, vph: 800 }];
+
+function routeTimes(result) {
+  const time = (id) => result.links.find((link) => link.linkId === id).travelTimeSeconds;
+  return {
+    direct: time(linkId('direct', 'forward')),
+    detour: time(linkId('o-m', 'forward')) + time(linkId('m-d', 'forward')),
+  };
+}
+
+describe('assignTraffic', () => {
+  const graph = buildNetworkGraph(segments, { intersections: [] });
+
+  it('splits demand until both routes take the same time', () => {
+    const result = assignTraffic(graph, trips);
+    expect(result.converged).toBe(true);
+    expect(result.relativeGap).toBeLessThanOrEqual(1e-4);
+    expect(result.history.length).toBe(result.iterations);
+    expect(result.history.every((entry) => entry.elapsedMs >= 0)).toBe(true);
+
+    const direct = result.links.find((link) => link.linkId === linkId('direct', 'forward'));
+    expect(direct.flowVph).toBeGreaterThan(400);
+    expect(direct.flowVph).toBeLessThan(800);
+    const { direct: directTime, detour: detourTime } = routeTimes(result);
+    expect(Math.abs(directTime - detourTime) / detourTime).toBeLessThan(0.01);
+    expect(result.totalVehicleHours).toBeCloseTo((800 * detourTime) / 3600, 1);
+  });
+
+  it('reaches the same equilibrium with successive averages, more slowly', () => {
+    const frankWolfe = assignTraffic(graph, trips);
+    const msa = assignTraffic(graph, trips, { method: 'msa', maxIterations: 500, gapTolerance: 1e-3 });
+    const flow = (result) => result.links.find((link) => link.linkId === linkId('direct', 'forward')).flowVph;
+    expect(flow(msa)).toBeCloseTo(flow(frankWolfe), -1);
+    expect(() => assignTraffic(graph, trips, { method: 'gravity' })).toThrow(/Unknown assignment method/);
+  });
+
+  it('reports trips without a route and respects banned turns', () => {
+    const banned = buildNetworkGraph(segments, {
+      intersections: [{ id: 'm', location: M, turns: [{ from: 'o-m', to: 'm-d', banned: true }] }],
+    });
+    const result = assignTraffic(banned, [...trips, { from: 'm', to: origin, vph: 50 }]);
+    expect(result.unassignedTrips).toEqual([{ from: 'm', to: origin, vph: 50 }]);
+    expect(result.assignedVph).toBe(800);
+    expect(result.links.find((link) => link.linkId === linkId('o-m', 'forward')).flowVph).toBe(0);
+  });
+});
+
+describe('summariseAssignedLinks', () => {
+  it('folds the pieces of a cut link back together', () => {
+    // A side street joining the middle of a-c from M.
+    const street = [segment('a-c', O, D), segment('b-m', { latitude: 45.0, longitude: 9.001 }, M, { allowedDirections: ['reverse'] })];
+    const routing = splitAtInteriorJunctions(buildNetworkGraph(street, { intersections: [] }), { segments: street });
+    const result = assignTraffic(routing, [{ from: 'b-m:end', to: 'a-c:end', vph: 100 }]);
+    const [main] = summariseAssignedLinks(result.links).filter((link) => link.linkId === linkId('a-c', 'forward'));
+    expect(main.flowVph).toBeCloseTo(50, 0);
+    expect(main.freeFlowSeconds).toBeCloseTo(15.7, 1);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { alignFieldCounts, calibrateBpr, loadCalibratedFlowModels } from '../src/calibration.js';
+import { calibrateSegments, writeCalibration } from '../scripts/calibrate_flows.js';
+import { resolveSegmentMetadata } from '../scripts/enrich_flows.js';
+
+function count(segmentId, direction, observedVehicles, start = '2025-11-05T07:00:00Z', end = '2025-11-05T08:00:00Z') {
+  return { segmentId, direction, observationStart: start, observationEnd: end, observedVehicles, capacityGuessVph: null };
+}
+
+function sample(segmentId, direction, durationSeconds, requestedAt = '2025-11-05T07:30:00.000Z') {
+  return { segmentId, direction, requestedAt, durationSeconds, staticDurationSeconds: 40 };
+}
+
+// Ratios a BPR link with α 0.3, β 3 and a 900 veh/h capacity would show at each flow.
+function syntheticObservations(flows) {
+  return flows.map((observedFlowVph) => ({
+    segmentId: 'via-test',
+    direction: 'forward',
+    observedFlowVph,
+    capacityGuessVph: null,
+    sampleCount: 4,
+    meanRatio: 1 + 0.3 * (observedFlowVph / 900) ** 3,
+  }));
+}
+
+const segment = {
+  id: 'via-test',
+  endpoints: [
+    { latitude: 45.0, longitude: 9.0 },
+    { latitude: 45.0, longitude: 9.003 },
+  ],
+  geometry: null,
+  metadata: { lanes: 2, laneCapacityVph: 450 },
+};
+
+describe('alignFieldCounts', () => {
+  it('averages the duration ratio of the samples inside each count interval', () => {
+    const observations = alignFieldCounts(
+      [count('via-test', 'forward', 150, '2025-11-05T07:00:00Z', '2025-11-05T07:30:00Z'), count('via-test', 'reverse', 80)],
+      [
+        sample('via-test', 'forward', 48, '2025-11-05T07:10:00.000Z'),
+        sample('via-test', 'forward', 56, '2025-11-05T07:30:00.000Z'),
+        sample('via-test', 'forward', 90, '2025-11-05T07:45:00.000Z'),
+        { ...sample('via-test', 'forward', 200, '2025-11-05T07:20:00.000Z'), routeDeviation: { severity: 1 } },
+      ],
+    );
+    expect(observations).toHaveLength(1);
+    expect(observations[0]).toMatchObject({ direction: 'forward', observedFlowVph: 300, sampleCount: 2 });
+    expect(observations[0].meanRatio).toBeCloseTo(1.3);
+  });
+});
+
+describe('calibrateBpr', () => {
+  it('fits the travel-time ratios of several counted flows', () => {
+    const observations = syntheticObservations([300, 500, 700, 850, 1000]);
+    const fit = calibrateBpr(observations, { alpha: 0.15, beta: 4, capacityVph: 900 });
+    expect(fit.converged).toBe(true);
+    expect(fit.observations).toBe(5);
+    expect(fit.rmse).toBeLessThan(0.01);
+    expect(fit.beta).toBeCloseTo(3, 0);
+    expect(1 + fit.alpha * (1000 / fit.capacityVph) ** fit.beta).toBeCloseTo(observations[4].meanRatio, 2);
+  });
+
+  it('stays near the prior where a single count cannot tell the parameters apart', () => {
+    // The prior alone predicts a ratio of 1.03 against the 1.09 observed.
+    const fit = calibrateBpr(syntheticObservations([600]), { alpha: 0.15, beta: 4, capacityVph: 900 });
+    expect(fit.rmse).toBeLessThan(0.02);
+    expect(fit.capacityVph).toBeGreaterThan(700);
+    expect(fit.capacityVph).toBeLessThan(1100);
+  });
+
+  it('starts from the segment capacity rather than a disagreeing guess on the counts', () => {
+    const observations = syntheticObservations([600]).map((observation) => ({ ...observation, capacityGuessVph: 450 }));
+    const fit = calibrateBpr(observations, { alpha: 0.15, beta: 4, capacityVph: 900 });
+    expect(fit.capacityVph).toBeGreaterThan(700);
+    // Without a segment capacity the guess is the starting point.
+    expect(calibrateBpr(observations, { alpha: 0.15, beta: 4 }).capacityVph).toBeLessThan(600);
+  });
+
+  it('skips counts observed at free flow', () => {
+    expect(calibrateBpr([{ observedFlowVph: 300, meanRatio: 1, capacityGuessVph: null }])).toBeNull();
+  });
+});
+
+describe('calibration file', () => {
+  let tmpDir;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'calibration-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes per-lane capacities that resolveSegmentMetadata applies over the metadata', async () => {
+    const file = path.join(tmpDir, 'calibrated_flow_models.json');
+    const { calibrated, skipped } = calibrateSegments(
+      [...syntheticObservations([300, 500, 700, 850]), { ...syntheticObservations([400])[0], segmentId: 'via-unknown' }],
+      [segment],
+    );
+    expect(skipped).toEqual([{ segmentId: 'via-unknown', reason: 'unknown segment' }]);
+    expect(calibrated[0].fit.rmse).toBeLessThan(calibrated[0].baseline.rmse);
+    await writeCalibration(calibrated, { file, source: 'test.csv' });
+
+    const calibration = loadCalibratedFlowModels(file);
+    const entry = calibration.get('via-test');
+    expect(entry.laneCapacityVph).toBeCloseTo(calibrated[0].fit.capacityVph / 2);
+    const metadata = resolveSegmentMetadata([{ ...segment, calibration: entry }]).get('via-test');
+    expect(metadata.capacityVph).toBeCloseTo(calibrated[0].fit.capacityVph);
+    expect(metadata.flowModel).toMatchObject({ type: 'bpr', alpha: entry.flowModel.alpha, beta: entry.flowModel.beta });
+    expect(loadCalibratedFlowModels(path.join(tmpDir, 'missing.json')).size).toBe(0);
+  });
+
+  it('rejects entries without usable parameters', async () => {
+    const file = path.join(tmpDir, 'broken.json');
+    await fs.writeFile(file, JSON.stringify({ segments: { 'via-test': { flowModel: { alpha: 0.2 } } } }));
+    expect(() => loadCalibratedFlowModels(file)).toThrow(/needs positive alpha, beta and laneCapacityVph/);
+  });
+});
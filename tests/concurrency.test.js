@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { createRateLimiter, mapWithConcurrency } from '../src/concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  it('bounds the calls in flight and returns results in input order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await mapWithConcurrency([40, 10, 30, 5, 20], 2, async (delay, index) => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight -= 1;
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('handles empty input', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('spaces acquisitions across concurrent callers', async () => {
+    const waits = [];
+    const limiter = createRateLimiter({ minIntervalMs: 100, sleep: async (ms) => waits.push(ms) });
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    expect(waits).toHaveLength(2);
+    expect(waits[0]).toBeGreaterThan(90);
+    expect(waits[1]).toBeGreaterThan(190);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { computeCoverage } from '../src/coverage.js';
+
+const segments = [
+  { id: 'a', name: 'Street A', metadata: { allowedDirections: ['forward'] } },
+  {
+    id: 'b',
+    name: 'Street B',
+    metadata: { allowedDirections: ['reverse'] },
+    periods: [{ effectiveFrom: null, effectiveTo: '2025-11-05T09:00:00Z', metadata: { allowedDirections: ['forward', 'reverse'] } }],
+  },
+];
+
+function sample(segmentId, direction, requestedAt) {
+  return { segmentId, direction, requestedAt };
+}
+
+const window = { fromMs: Date.parse('2025-11-05T08:00:00Z'), toMs: Date.parse('2025-11-05T10:00:00Z') };
+
+describe('computeCoverage', () => {
+  it('counts covered intervals against the directions configured at the time', () => {
+    const samples = [
+      sample('a', 'forward', '2025-11-05T08:01:00Z'),
+      sample('a', 'forward', '2025-11-05T08:05:00Z'),
+      sample('a', 'forward', '2025-11-05T08:16:00Z'),
+      sample('b', 'forward', '2025-11-05T08:16:00Z'),
+      sample('b', 'reverse', '2025-11-05T09:31:00Z'),
+    ];
+    const report = computeCoverage({ samples, segments, ...window, intervalMinutes: 15 });
+
+    expect(report.links).toEqual([
+      { segmentId: 'a', direction: 'forward', expectedIntervals: 8, observedIntervals: 2, coveragePct: 25 },
+      { segmentId: 'b', direction: 'forward', expectedIntervals: 4, observedIntervals: 1, coveragePct: 25 },
+      { segmentId: 'b', direction: 'reverse', expectedIntervals: 8, observedIntervals: 1, coveragePct: 12.5 },
+    ]);
+    expect(report.segments.find((segment) => segment.segmentId === 'b').coveragePct).toBe(16.7);
+  });
+
+  it('groups a run by its snapshot time', () => {
+    const samples = [{ ...sample('a', 'forward', '2025-11-05T08:15:02Z'), snapshotAt: '2025-11-05T08:14:59Z' }];
+    const report = computeCoverage({ samples, segments: [segments[0]], ...window });
+    const gap = report.gaps[0];
+    expect(gap).toMatchObject({ from: '2025-11-05T08:15:00.000Z', to: '2025-11-05T10:00:00.000Z' });
+    expect(gap.missingIntervals).toBe(7);
+  });
+
+  it('lists gaps of at least the minimum length and explains them from the run log', () => {
+    const samples = ['08:00', '08:15', '09:15', '09:30', '09:45'].map((time) =>
+      sample('a', 'forward', `2025-11-05T${time}:00Z`),
+    );
+    const runs = [
+      { startedAt: '2025-11-05T08:00:00Z', failures: [] },
+      { startedAt: '2025-11-05T08:30:00Z', failures: [{ segmentId: 'a', direction: 'forward', message: '503' }] },
+      { startedAt: '2025-11-05T08:45:00Z', failures: [{ segmentId: 'a', direction: 'forward', message: '503' }] },
+    ];
+    const report = computeCoverage({ samples, runs, segments: [segments[0]], ...window, minGapIntervals: 2 });
+
+    expect(report.gaps).toEqual([
+      {
+        segmentId: 'a',
+        direction: 'forward',
+        from: '2025-11-05T08:30:00.000Z',
+        to: '2025-11-05T09:15:00.000Z',
+        missingIntervals: 3,
+        cause: 'failed',
+        pollRuns: 2,
+        failedRuns: 2,
+      },
+    ]);
+    expect(computeCoverage({ samples, runs, segments: [segments[0]], ...window, minGapIntervals: 4 }).gaps).toEqual([]);
+
+    const withoutRuns = computeCoverage({ samples, runs: runs.slice(0, 1), segments: [segments[0]], ...window });
+    expect(withoutRuns.gaps[0]).toMatchObject({ cause: 'no-poll', pollRuns: 0, failedRuns: 0 });
+
+    const succeeded = runs.map((run) => ({ ...run, failures: [] }));
+    const unexplained = computeCoverage({ samples, runs: succeeded, segments: [segments[0]], ...window });
+    expect(unexplained.gaps[0]).toMatchObject({ cause: 'no-sample', pollRuns: 2, failedRuns: 0 });
+
+    const partly = computeCoverage({ samples, runs: [runs[0], runs[1], succeeded[2]], segments: [segments[0]], ...window });
+    expect(partly.gaps[0]).toMatchObject({ cause: 'mixed', pollRuns: 2, failedRuns: 1 });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { CronExpressionError, nextCronOccurrence, parseCronExpression } from '../src/cron.js';
+
+// Local-time helper: the cron evaluator works in the process timezone.
+function local(year, month, day, hour = 0, minute = 0, second = 0) {
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+describe('parseCronExpression', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCronExpression('*/20 7-9,17 * * 1-5');
+    expect([...cron.minutes]).toEqual([0, 20, 40]);
+    expect([...cron.hours]).toEqual([7, 8, 9, 17]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow(CronExpressionError);
+    expect(() => parseCronExpression('61 * * * *')).toThrow(/outside 0-59/);
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow(CronExpressionError);
+    expect(() => parseCronExpression('a * * * *')).toThrow(/cannot parse minute/);
+  });
+});
+
+describe('nextCronOccurrence', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    const cron = parseCronExpression('*/15 * * * *');
+    expect(nextCronOccurrence(cron, local(2025, 11, 5, 7, 0))).toEqual(local(2025, 11, 5, 7, 15));
+    expect(nextCronOccurrence(cron, local(2025, 11, 5, 7, 14, 30))).toEqual(local(2025, 11, 5, 7, 15));
+  });
+
+  it('skips to the next allowed hour and weekday', () => {
+    const rush = parseCronExpression('*/5 7-9 * * 1-5');
+    // Friday 2025-11-07 at 09:58 → Monday 07:00.
+    expect(nextCronOccurrence(rush, local(2025, 11, 7, 9, 58))).toEqual(local(2025, 11, 10, 7, 0));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const cron = parseCronExpression('0 12 1 * 0');
+    // Wednesday 2025-10-29 → Sunday 2025-11-02 comes after Saturday the 1st.
+    expect(nextCronOccurrence(cron, local(2025, 10, 29))).toEqual(local(2025, 11, 1, 12, 0));
+    expect(nextCronOccurrence(cron, local(2025, 11, 1, 13, 0))).toEqual(local(2025, 11, 2, 12, 0));
+  });
+});
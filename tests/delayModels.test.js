@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeFlowModel,
+  parameterCorners,
+  resolveFlowModel,
+  travelTimeRatio,
+  volumeCapacityRatio,
+} from '../src/delayModels.js';
+
+const context = { freeFlowSeconds: 60, capacityVph: 800 };
+
+describe('resolveFlowModel', () => {
+  it('defaults to BPR and fills in missing parameters', () => {
+    expect(resolveFlowModel()).toMatchObject({ type: 'bpr', alpha: 0.15, beta: 4 });
+    expect(resolveFlowModel({ alpha: -1, beta: 3 })).toMatchObject({ type: 'bpr', alpha: 0.15, beta: 3 });
+    expect(resolveFlowModel({ type: 'akcelik', control: 'signalised' })).toMatchObject({
+      type: 'akcelik',
+      control: 'signalised',
+      delayParameter: 0.4,
+      periodHours: 1,
+    });
+    expect(() => resolveFlowModel({ type: 'conical' })).toThrow(/Unknown flow model type "conical"/);
+  });
+
+  it('carries the relative uncertainty of the parameters and the capacity', () => {
+    expect(resolveFlowModel().uncertainty).toEqual({ alpha: 0.3, beta: 0.25, capacity: 0.15 });
+    expect(resolveFlowModel({ uncertainty: { alpha: 0.1, capacity: 2 } }).uncertainty).toEqual({
+      alpha: 0.1,
+      beta: 0.25,
+      capacity: 0.15,
+    });
+  });
+});
+
+describe('parameterCorners', () => {
+  it('spans every uncertain parameter at both ends of its range', () => {
+    const corners = parameterCorners({ alpha: 0.2, beta: 4, uncertainty: { alpha: 0.5, beta: 0.25 } });
+    expect(corners.map(({ alpha, beta }) => [alpha, beta])).toEqual([
+      [0.1, 3],
+      [0.1, 5],
+      [0.30000000000000004, 3],
+      [0.30000000000000004, 5],
+    ]);
+    expect(parameterCorners({ type: 'davidson', uncertainty: { delayParameter: 0 } })).toHaveLength(1);
+  });
+});
+
+describe('delay models', () => {
+  const models = [
+    { type: 'bpr', alpha: 0.3, beta: 3 },
+    { type: 'davidson', delayParameter: 0.4 },
+    { type: 'akcelik', control: 'priority' },
+  ];
+
+  it.each(models)('inverts its own travel-time ratio ($type)', (flowModel) => {
+    for (const x of [0.2, 0.7, 1, 1.3]) {
+      const ratio = travelTimeRatio(flowModel, x, context);
+      expect(ratio).toBeGreaterThan(1);
+      expect(volumeCapacityRatio(flowModel, ratio, context)).toBeCloseTo(x, 6);
+    }
+  });
+
+  it('grows with the volume/capacity ratio', () => {
+    for (const flowModel of models) {
+      const ratios = [0, 0.5, 0.9, 0.99, 1.5].map((x) => travelTimeRatio(flowModel, x, context));
+      expect(ratios.every((ratio, i) => i === 0 || ratio > ratios[i - 1])).toBe(true);
+    }
+  });
+
+  it('treats free-flow times as no flow and needs link context for Akçelik', () => {
+    expect(volumeCapacityRatio({ type: 'davidson' }, 0.9)).toBe(0);
+    expect(travelTimeRatio({ type: 'bpr' }, null)).toBeNull();
+    expect(travelTimeRatio({ type: 'akcelik' }, 0.5)).toBeNull();
+    // 0.25 h × ((0.5 − 1) + √(0.25 + 8 × 0.8 × 0.5 / 800)) ≈ 3.6 s of delay on a 60 s link
+    expect(travelTimeRatio({ type: 'akcelik' }, 0.5, context)).toBeCloseTo(1.06, 2);
+  });
+});
+
+describe('describeFlowModel', () => {
+  it('stamps the model name as source', () => {
+    expect(describeFlowModel({ alpha: 0.2 })).toMatchObject({ type: 'bpr', source: 'BPR', alpha: 0.2, beta: 4 });
+    expect(describeFlowModel({ type: 'akcelik' }).source).toBe('Akçelik');
+  });
+});
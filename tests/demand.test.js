@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DemandValidationError, loadDemandFile, validateDemand } from '../src/demand.js';
+
+describe('validateDemand', () => {
+  it('normalises trips between known intersections', () => {
+    const demand = validateDemand({
+      name: 'Morning peak',
+      trips: [{ from: 'sturzo-sant-ambrogio', to: 'milani-kolbe', vph: 120 }],
+    });
+    expect(demand).toEqual({
+      name: 'Morning peak',
+      description: null,
+      trips: [{ from: 'sturzo-sant-ambrogio', to: 'milani-kolbe', vph: 120 }],
+    });
+  });
+
+  it('collects every problem', () => {
+    let error;
+    try {
+      validateDemand({
+        period: 'am',
+        trips: [
+          { from: 'sturzo-sant-ambrogio', to: 'nowhere', vph: 10 },
+          { from: 'milani-kolbe', to: 'milani-kolbe', vph: -1 },
+          { from: 'sturzo-sant-ambrogio', to: 'nowhere', vph: 5 },
+        ],
+      });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(DemandValidationError);
+    expect(error.problems).toEqual([
+      'unknown field "period"',
+      'trips[0].to "nowhere" does not match any intersection',
+      'trips[1] starts and ends at the same intersection',
+      'trips[1].vph must be a non-negative number',
+      'trips[2].to "nowhere" does not match any intersection',
+      'trips[2] repeats the sturzo-sant-ambrogio → nowhere pair',
+    ]);
+  });
+
+  it('loads YAML demand files', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'demand-'));
+    const file = path.join(tmpDir, 'am.yaml');
+    await fs.writeFile(file, 'trips:\n  - { from: milani-kolbe, to: piazza-ghezzi, vph: 40 }\n', 'utf8');
+    try {
+      expect((await loadDemandFile(file)).trips).toHaveLength(1);
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
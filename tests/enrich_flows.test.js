@@ -1,10 +1,18 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
 import {
   computeSegmentLengthMeters,
   deriveFlowMetrics,
+  enrichSample,
+  enrichSamples,
+  needsEnrichment,
   refreshSegmentMetadata,
+  resolveSegmentMetadata,
 } from '../scripts/enrich_flows.js';
 import { streetSegments } from '../src/segments.js';
+import { createStorage } from '../src/storage/index.js';
 
 describe('computeSegmentLengthMeters', () => {
   it('returns total haversine distance across endpoints', () => {
@@ -19,6 +27,20 @@ describe('computeSegmentLengthMeters', () => {
   });
 });
 
+describe('resolveSegmentMetadata', () => {
+  it('measures the imported geometry instead of the straight endpoint line', () => {
+    const endpoints = [
+      { latitude: 45.0, longitude: 9.0 },
+      { latitude: 45.001, longitude: 9.001 },
+    ];
+    const geometry = [endpoints[0], { latitude: 45.0, longitude: 9.001 }, endpoints[1]];
+    const straight = resolveSegmentMetadata([{ id: 'bend', endpoints, geometry: null }]).get('bend');
+    const shaped = resolveSegmentMetadata([{ id: 'bend', endpoints, geometry }]).get('bend');
+    expect(shaped.lengthMeters).toBeCloseTo(computeSegmentLengthMeters(geometry));
+    expect(shaped.lengthMeters).toBeGreaterThan(straight.lengthMeters * 1.3);
+  });
+});
+
 describe('deriveFlowMetrics', () => {
   let customSegment;
 
@@ -92,12 +114,105 @@ describe('deriveFlowMetrics', () => {
 
     const metrics = deriveFlowMetrics(sample);
 
-    expect(metrics.alpha).toBeCloseTo(0.3);
-    expect(metrics.beta).toBeCloseTo(3);
+    expect(metrics.flowModel).toMatchObject({ type: 'bpr', alpha: 0.3, beta: 3 });
 
     const timeRatio = durationSeconds / staticDurationSeconds;
     const expectedVcr = Math.pow((timeRatio - 1) / 0.3, 1 / 3);
     expect(metrics.volumeCapacityRatio).toBeCloseTo(expectedVcr);
     expect(metrics.derivedFlowVph).toBeCloseTo(expectedVcr * 1000);
   });
+
+  it('brackets the derived flow with the priors and duration rounding', () => {
+    const metrics = deriveFlowMetrics({ segmentId: 'via-pontida', durationSeconds: 70, staticDurationSeconds: 60 });
+    expect(metrics.derivedFlowLowerVph).toBeLessThan(metrics.derivedFlowVph);
+    expect(metrics.derivedFlowUpperVph).toBeGreaterThan(metrics.derivedFlowVph);
+
+    // Equal durations read as no flow, but rounding leaves room for some.
+    const idle = deriveFlowMetrics({ segmentId: 'via-pontida', durationSeconds: 60, staticDurationSeconds: 60 });
+    expect(idle.derivedFlowVph).toBe(0);
+    expect(idle.derivedFlowLowerVph).toBe(0);
+    expect(idle.derivedFlowUpperVph).toBeGreaterThan(0);
+
+    const missing = deriveFlowMetrics({ segmentId: 'via-pontida', durationSeconds: null, staticDurationSeconds: 60 });
+    expect(missing.derivedFlowLowerVph).toBeNull();
+  });
+
+  it('inverts the delay model chosen by metadata.flowModel.type', () => {
+    const original = customSegment.metadata.flowModel;
+    customSegment.metadata.flowModel = { type: 'davidson', delayParameter: 0.5 };
+    refreshSegmentMetadata();
+    try {
+      const sample = { segmentId: customSegment.id, durationSeconds: 90, staticDurationSeconds: 60 };
+      // 1.5 = 1 + 0.5 x / (1 − x)
+      expect(deriveFlowMetrics(sample).volumeCapacityRatio).toBeCloseTo(0.5);
+      expect(enrichSample(sample).flowEstimationModel).toMatchObject({
+        type: 'davidson',
+        source: 'Davidson',
+        delayParameter: 0.5,
+      });
+    } finally {
+      customSegment.metadata.flowModel = original;
+      refreshSegmentMetadata();
+    }
+  });
+
+  it('derives no flow from routes that detour off the segment', () => {
+    const lengthMeters = computeSegmentLengthMeters(customSegment.endpoints);
+    const sample = { segmentId: customSegment.id, durationSeconds: 90, staticDurationSeconds: 60 };
+
+    expect(deriveFlowMetrics({ ...sample, distanceMeters: Math.round(lengthMeters) }).routeDeviation).toBeNull();
+
+    const metrics = deriveFlowMetrics({ ...sample, distanceMeters: Math.round(lengthMeters * 4) });
+    expect(metrics.routeDeviation).toMatchObject({ reasons: ['route-longer'], severity: 1 });
+    expect(metrics.derivedFlowVph).toBeNull();
+    expect(metrics.volumeCapacityRatio).toBeNull();
+    expect(metrics.flowConfidence).toBe('low');
+  });
+});
+
+describe('enrichSamples', () => {
+  let tmpDir;
+  let storage;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'enrich-'));
+    storage = await createStorage({ backend: 'jsonl', jsonlFile: path.join(tmpDir, 'samples.jsonl') });
+    await storage.appendSamples([
+      { segmentId: 'via-pontida', direction: 'forward', requestedAt: '2025-11-05T07:05:00.000Z', durationSeconds: 90, staticDurationSeconds: 60 },
+      { segmentId: 'via-milano', direction: 'reverse', requestedAt: '2025-11-05T07:05:00.000Z', durationSeconds: 45, staticDurationSeconds: 40 },
+    ]);
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('only re-derives new or stale samples', async () => {
+    expect(await enrichSamples({ storage })).toEqual({ total: 2, updated: 2 });
+    expect(await enrichSamples({ storage })).toEqual({ total: 2, updated: 0 });
+
+    await storage.appendSamples([
+      { segmentId: 'via-pontida', direction: 'reverse', requestedAt: '2025-11-05T07:20:00.000Z', durationSeconds: 70, staticDurationSeconds: 60 },
+    ]);
+    expect(await enrichSamples({ storage })).toEqual({ total: 3, updated: 1 });
+
+    const pontida = streetSegments.find((segment) => segment.id === 'via-pontida');
+    const originalLanes = pontida.metadata.lanes;
+    pontida.metadata.lanes = 2;
+    refreshSegmentMetadata();
+    try {
+      expect(await enrichSamples({ storage })).toEqual({ total: 3, updated: 2 });
+    } finally {
+      pontida.metadata.lanes = originalLanes;
+      refreshSegmentMetadata();
+    }
+
+    expect(await enrichSamples({ storage, force: true })).toEqual({ total: 3, updated: 3 });
+    for await (const sample of storage.readSamples()) {
+      expect(sample.enrichmentHash).toBeTypeOf('string');
+      expect(needsEnrichment(sample)).toBe(false);
+    }
+  });
 });
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  FieldCountValidationError,
+  importFieldCounts,
+  loadFieldCounts,
+  parseFieldCountRows,
+  parseFieldCountsCsv,
+  summariseFieldCounts,
+  validateFieldCounts,
+} from '../src/fieldCounts.js';
+
+const HEADER = 'segmentId,direction,observationStart,observationEnd,observedVehicles,capacityGuessVph';
+
+describe('parseFieldCountsCsv', () => {
+  it('reads one count per row', () => {
+    const counts = parseFieldCountsCsv(
+      `${HEADER}\nvia-pontida,forward,2025-11-05T07:00:00Z,2025-11-05T08:00:00Z,225,375\n`,
+    );
+    expect(counts).toEqual([
+      {
+        segmentId: 'via-pontida',
+        direction: 'forward',
+        observationStart: '2025-11-05T07:00:00Z',
+        observationEnd: '2025-11-05T08:00:00Z',
+        observedVehicles: 225,
+        capacityGuessVph: 375,
+      },
+    ]);
+  });
+
+  it('reports every malformed row', () => {
+    let error;
+    try {
+      parseFieldCountsCsv(
+        `${HEADER}\nvia-pontida,up,2025-11-05T07:00:00Z,2025-11-05T08:00:00Z,225,\n` +
+          'via-pontida,forward,2025-11-05T08:00:00Z,2025-11-05T07:00:00Z,-4,\n',
+      );
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(FieldCountValidationError);
+    expect(error.problems).toEqual([
+      'line 2: unknown direction "up"',
+      'line 3: observationEnd must be a timestamp after observationStart',
+      'line 3: observedVehicles must be a non-negative number',
+    ]);
+    expect(() => parseFieldCountsCsv('segmentId,direction\n')).toThrow(/missing columns/);
+  });
+});
+
+describe('summariseFieldCounts', () => {
+  it('turns the counts overlapping the window into hourly flows per link', () => {
+    const count = (observationStart, observationEnd, observedVehicles) => ({
+      segmentId: 'via-pontida',
+      direction: 'forward',
+      observationStart,
+      observationEnd,
+      observedVehicles,
+    });
+    const flows = summariseFieldCounts(
+      [
+        count('2025-11-05T07:00:00Z', '2025-11-05T08:00:00Z', 200),
+        count('2025-11-05T08:00:00Z', '2025-11-05T08:30:00Z', 160),
+        count('2025-11-06T07:00:00Z', '2025-11-06T08:00:00Z', 900),
+      ],
+      { from: '2025-11-05T06:00:00Z', to: '2025-11-05T09:00:00Z' },
+    );
+    expect(flows.get('via-pontida:forward')).toEqual({ flowVph: 240, counts: 2 });
+  });
+});
+
+function tally(segmentId, direction, observationStart, observationEnd, observedVehicles) {
+  return { segmentId, direction, observationStart, observationEnd, observedVehicles, capacityGuessVph: null };
+}
+
+function problemsOf(run) {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(FieldCountValidationError);
+    return error.problems;
+  }
+  return [];
+}
+
+describe('parseFieldCountRows', () => {
+  it('checks posted rows like CSV lines', () => {
+    expect(parseFieldCountRows([tally('via-pontida', 'forward', '2025-11-05T07:00:00Z', '2025-11-05T07:15:00Z', 40)]))
+      .toHaveLength(1);
+    expect(problemsOf(() => parseFieldCountRows([{ segmentId: 'via-pontida', direction: 'forward' }]))).toEqual([
+      'row 1: observationEnd must be a timestamp after observationStart',
+      'row 1: observedVehicles must be a non-negative number',
+    ]);
+    expect(problemsOf(() => parseFieldCountRows([]))).toEqual(['expected a non-empty array of counts']);
+  });
+});
+
+describe('validateFieldCounts', () => {
+  it('accepts 15-minute tube bins next to hourly tallies', () => {
+    const counts = [
+      tally('via-pontida', 'forward', '2025-11-05T07:00:00Z', '2025-11-05T07:15:00Z', 60),
+      tally('via-pontida', 'forward', '2025-11-05T07:15:00Z', '2025-11-05T07:30:00Z', 75),
+      tally('via-pontida', 'reverse', '2025-11-05T07:00:00Z', '2025-11-05T08:00:00Z', 225),
+    ];
+    expect(validateFieldCounts(counts)).toEqual({ warnings: [] });
+  });
+
+  it('checks segment, direction on the date, bins, overlaps and plausibility', () => {
+    const existing = [tally('via-pontida', 'forward', '2025-11-05T07:00:00Z', '2025-11-05T08:00:00Z', 225)];
+    const problems = problemsOf(() =>
+      validateFieldCounts(
+        [
+          tally('via-nowhere', 'forward', '2025-11-05T07:00:00Z', '2025-11-05T08:00:00Z', 10),
+          tally('via-don-lorenzo-milani', 'reverse', '2025-11-05T07:00:00Z', '2025-11-05T08:00:00Z', 10),
+          tally('via-don-lorenzo-milani', 'forward', '2025-11-05T07:00:00Z', '2025-11-05T07:20:00Z', 10),
+          tally('via-pontida', 'forward', '2025-11-05T07:45:00Z', '2025-11-05T08:00:00Z', 10),
+          tally('via-pontida', 'reverse', '2025-11-05T07:00:00Z', '2025-11-05T07:15:00Z', 400),
+        ],
+        { existing },
+      ),
+    );
+    expect(problems).toHaveLength(5);
+    expect(problems[0]).toMatch(/unknown segment "via-nowhere"/);
+    expect(problems[1]).toMatch(/reverse traffic is not allowed on via-don-lorenzo-milani at that date/);
+    expect(problems[2]).toMatch(/whole 15-minute bins/);
+    expect(problems[3]).toMatch(/overlaps the count via-pontida forward 2025-11-05T07:00:00Z/);
+    expect(problems[4]).toMatch(/1600 veh\/h is implausible/);
+  });
+
+  it('allows a direction that was open when the count was taken and warns above capacity', () => {
+    const { warnings } = validateFieldCounts([
+      tally('via-don-lorenzo-milani', 'reverse', '2025-10-20T07:00:00Z', '2025-10-20T08:00:00Z', 100),
+      tally('via-pontida', 'forward', '2025-11-05T07:00:00Z', '2025-11-05T07:15:00Z', 200),
+    ]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatch(/via-pontida forward .*: 800 veh\/h exceeds the capacity of 750 veh\/h/);
+  });
+});
+
+describe('importFieldCounts', () => {
+  let tmpDir;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'field-counts-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('adds counts to the stored file and rejects a repeated upload', async () => {
+    const file = path.join(tmpDir, 'field_counts.csv');
+    const first = [tally('via-pontida', 'reverse', '2025-11-05T07:00:00Z', '2025-11-05T08:00:00Z', 225)];
+    const second = [tally('via-pontida', 'forward', '2025-11-05T07:00:00Z', '2025-11-05T07:15:00Z', 60)];
+    await importFieldCounts(first, { file });
+    expect(await importFieldCounts(second, { file })).toEqual({ imported: 1, total: 2, warnings: [] });
+    await expect(importFieldCounts(second, { file })).rejects.toThrow(FieldCountValidationError);
+
+    const stored = await loadFieldCounts(file);
+    expect(stored.map((count) => count.direction)).toEqual(['forward', 'reverse']);
+    expect(stored[1]).toEqual(first[0]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { validateDerivedFlows } from '../src/flowValidation.js';
+
+function count(segmentId, direction, observedVehicles, start = '2025-11-05T07:00:00Z', end = '2025-11-05T08:00:00Z') {
+  return { segmentId, direction, observationStart: start, observationEnd: end, observedVehicles, capacityGuessVph: null };
+}
+
+function sample(segmentId, direction, derivedFlowVph, requestedAt = '2025-11-05T07:30:00.000Z', range = null) {
+  return {
+    segmentId,
+    direction,
+    requestedAt,
+    durationSeconds: 50,
+    staticDurationSeconds: 40,
+    derivedFlowVph,
+    derivedFlowLowerVph: range?.[0] ?? null,
+    derivedFlowUpperVph: range?.[1] ?? null,
+  };
+}
+
+describe('validateDerivedFlows', () => {
+  const counts = [
+    count('via-pontida', 'forward', 200),
+    count('via-pontida', 'reverse', 100),
+    count('via-milano', 'reverse', 480),
+    count('via-sant-ambrogio', 'forward', 300),
+  ];
+  const samples = [
+    sample('via-pontida', 'forward', 220, '2025-11-05T07:10:00.000Z', [150, 260]),
+    sample('via-pontida', 'forward', 240, '2025-11-05T07:40:00.000Z', [170, 300]),
+    sample('via-pontida', 'reverse', 80, '2025-11-05T07:20:00.000Z', [60, 90]),
+    sample('via-milano', 'reverse', 0),
+    sample('via-sant-ambrogio', 'forward', null),
+  ];
+
+  it('compares each count window with the mean derived flow of its samples', () => {
+    const result = validateDerivedFlows({ counts, samples });
+    expect(result.unmatchedCounts).toBe(1);
+    const forward = result.windows.find((window) => window.direction === 'forward' && window.segmentId === 'via-pontida');
+    expect(forward).toMatchObject({ sampleCount: 2, observedFlowVph: 200, derivedFlowVph: 230, errorVph: 30, withinRange: true });
+    expect(forward.geh).toBeCloseTo(Math.sqrt((2 * 30 ** 2) / 430));
+    const reverse = result.windows.find((window) => window.direction === 'reverse' && window.segmentId === 'via-pontida');
+    expect(reverse.withinRange).toBe(false);
+  });
+
+  it('summarises bias, RMSE and GEH per segment and flags segments beyond GEH 5', () => {
+    const { segments, overall } = validateDerivedFlows({ counts, samples });
+    expect(segments.map((segment) => segment.segmentId)).toEqual(['via-milano', 'via-pontida']);
+    const [milano, pontida] = segments;
+    expect(milano).toMatchObject({ segmentName: 'Via Milano', biasVph: -480, rmseVph: 480, exceedsGeh: true });
+    expect(pontida).toMatchObject({ directions: ['forward', 'reverse'], windows: 2, biasVph: 5, exceedsGeh: false });
+    expect(pontida.rmseVph).toBeCloseTo(Math.sqrt((30 ** 2 + 20 ** 2) / 2));
+    expect(pontida.withinRangeShare).toBe(0.5);
+    expect(overall).toMatchObject({ windows: 3, withinGehShare: 2 / 3 });
+  });
+
+  it('flags a segment whose directions err in opposite ways', () => {
+    const result = validateDerivedFlows({
+      counts: [count('via-pontida', 'forward', 200), count('via-pontida', 'reverse', 300)],
+      samples: [sample('via-pontida', 'forward', 400), sample('via-pontida', 'reverse', 100)],
+    });
+    const [pontida] = result.segments;
+    // Pooled, 250 derived against 250 counted would be a perfect match.
+    expect(pontida).toMatchObject({ biasVph: 0, withinGehShare: 0, exceedsGeh: true });
+    expect(pontida.geh).toBeCloseTo(Math.sqrt((2 * 200 ** 2) / 400));
+    expect(pontida.worstWindow).toMatchObject({ direction: 'reverse', observedFlowVph: 300, derivedFlowVph: 100 });
+  });
+
+  it('tolerates a single window beyond GEH 5 among many', () => {
+    const hours = Array.from({ length: 8 }, (_, index) => `2025-11-05T${String(index + 6).padStart(2, '0')}`);
+    const result = validateDerivedFlows({
+      counts: hours.map((hour) => count('via-pontida', 'forward', 200, `${hour}:00:00Z`, `${hour}:59:00Z`)),
+      samples: hours.map((hour, index) => sample('via-pontida', 'forward', index === 0 ? 400 : 210, `${hour}:30:00.000Z`)),
+    });
+    const [pontida] = result.segments;
+    expect(pontida.withinGehShare).toBe(7 / 8);
+    expect(pontida.geh).toBeGreaterThan(result.gehThreshold);
+    expect(pontida.exceedsGeh).toBe(false);
+  });
+
+  it('keeps only the counts that overlap the requested window', () => {
+    const result = validateDerivedFlows({ counts, samples, from: '2025-11-06T00:00:00Z' });
+    expect(result.windows).toHaveLength(0);
+    expect(result.overall.rmseVph).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { backtestForecasts, buildForecastModel, forecastLink, weatherClass } from '../src/forecast.js';
+
+function sample(requestedAt, durationSeconds, weatherCode = null) {
+  return {
+    segmentId: 'via-test',
+    direction: 'forward',
+    requestedAt,
+    durationSeconds,
+    staticDurationSeconds: 40,
+    weather: weatherCode == null ? null : { weatherCode },
+  };
+}
+
+// A sample every 15 minutes from 06:00 to 09:00 UTC (07:00–10:00 in Rome) on each day.
+function mornings(days, durationSeconds, weatherCode = null) {
+  return days.flatMap((day) =>
+    Array.from({ length: 13 }, (_, index) => {
+      const minutes = 6 * 60 + index * 15;
+      const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+      return sample(`${day}T${time}:00.000Z`, durationSeconds, weatherCode);
+    }),
+  );
+}
+
+const mondays = ['2025-11-03', '2025-11-10', '2025-11-17', '2025-11-24'];
+
+describe('forecastLink', () => {
+  it('lets the latest deviation from the typical week fade out', () => {
+    const samples = [...mornings(mondays, 44), sample('2025-12-01T06:30:00.000Z', 60)];
+    const forecast = forecastLink(samples, { segmentId: 'via-test', direction: 'forward' });
+    expect(forecast).toMatchObject({ issuedAt: '2025-12-01T06:30:00.000Z', weather: null, weatherEffect: 0 });
+    expect(forecast.deviation).toBeCloseTo(0.4);
+    expect(forecast.points.map((point) => point.horizonMinutes)).toEqual([15, 30, 45, 60, 75, 90, 105, 120]);
+    expect(forecast.points[0]).toMatchObject({ at: '2025-12-01T06:45:00.000Z', basis: 'profile' });
+    expect(forecast.points[0].ratio).toBeCloseTo(1.1 + 0.4 * 0.5 ** 0.75);
+    expect(forecast.points[0].durationSeconds).toBeCloseTo(40 * forecast.points[0].ratio);
+    expect(forecast.points[7].ratio).toBeCloseTo(1.1 + 0.4 / 64);
+  });
+
+  it('forecasts from the samples before `at` only', () => {
+    const samples = [...mornings(mondays, 44), sample('2025-12-01T06:30:00.000Z', 60), sample('2025-12-01T06:45:00.000Z', 44)];
+    const forecast = forecastLink(samples, { segmentId: 'via-test', direction: 'forward', at: '2025-12-01T06:40:00Z' });
+    expect(forecast.latest).toMatchObject({ requestedAt: '2025-12-01T06:30:00.000Z', ratio: 1.5 });
+    expect(forecast.points[0].at).toBe('2025-12-01T06:55:00.000Z');
+    expect(forecastLink(samples, { segmentId: 'via-test', direction: 'reverse' })).toBeNull();
+  });
+
+  it('shifts the forecast by the effect of the latest weather', () => {
+    expect([0, 45, 63, 73, 95, null].map((weatherCode) => weatherClass(weatherCode == null ? null : { weatherCode }))).toEqual(
+      ['clear', 'fog', 'rain', 'snow', 'thunderstorm', null],
+    );
+    // Rainy days run at 1.3 against 1.1667: their baseline pools four Mondays at 1.1 with two rainy days.
+    const history = [...mornings(mondays, 44, 0), ...mornings(['2025-11-25', '2025-11-26', '2025-11-27'], 52, 61)];
+    expect(buildForecastModel(history).weatherEffects.get('rain')).toBeCloseTo(0.1333, 3);
+
+    const forecast = forecastLink([...history, sample('2025-12-01T06:30:00.000Z', 52, 63)], {
+      segmentId: 'via-test',
+      direction: 'forward',
+    });
+    expect(forecast.weather).toBe('rain');
+    expect(forecast.deviation).toBeCloseTo(1.3 - 1.1 - 0.1333, 3);
+    expect(forecast.points[7].ratio).toBeCloseTo(1.1 + 0.1333, 2);
+  });
+});
+
+describe('backtestForecasts', () => {
+  it('scores the forecast against held-out samples next to the typical and persistence references', () => {
+    // The last Monday is held out: slow until 07:00 UTC, typical afterwards.
+    const samples = [
+      ...mornings(mondays.slice(0, 3), 44),
+      ...mornings(['2025-11-24'], 44).map((entry) =>
+        entry.requestedAt < '2025-11-24T07:00' ? { ...entry, durationSeconds: 60 } : entry,
+      ),
+    ];
+    const backtest = backtestForecasts(samples);
+    expect(new Date(backtest.trainedUntil).getTime()).toBeGreaterThan(Date.parse('2025-11-17T09:00:00Z'));
+    expect(backtest.origins).toBe(13);
+    const [first] = backtest.horizons;
+    expect(first).toMatchObject({ horizonMinutes: 15, pairs: 12 });
+    expect(first.forecast.mae).toBeLessThan(first.typical.mae);
+    // Carrying the latest ratio forward only misses the step back to typical.
+    expect(first.persistence.mae).toBeCloseTo(0.4 / 12);
+  });
+});
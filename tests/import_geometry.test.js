@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  clipToSegment,
+  extractSegmentGeometry,
+  geometryFromSamples,
+  stitchLines,
+  writeSegmentGeometry,
+} from '../scripts/import_geometry.js';
+import { encodePolyline } from '../src/polyline.js';
+import { loadSegmentGeometry } from '../src/segmentGeometry.js';
+
+const segment = {
+  id: 'via-test',
+  name: "Via Sant'Ambrogio",
+  endpoints: [
+    { latitude: 45.5, longitude: 9.3 },
+    { latitude: 45.502, longitude: 9.302 },
+  ],
+};
+// An L-shaped street running past both endpoints, as OSM ways usually do.
+const street = [
+  { latitude: 45.4995, longitude: 9.3 },
+  { latitude: 45.5, longitude: 9.3 },
+  { latitude: 45.502, longitude: 9.3 },
+  { latitude: 45.502, longitude: 9.302 },
+  { latitude: 45.502, longitude: 9.3025 },
+];
+
+function lineFeature(points, properties) {
+  return {
+    type: 'Feature',
+    properties,
+    geometry: { type: 'LineString', coordinates: points.map((point) => [point.longitude, point.latitude]) },
+  };
+}
+
+describe('stitchLines', () => {
+  it('joins ways sharing an end node regardless of their drawing direction', () => {
+    const first = street.slice(0, 3);
+    const second = street.slice(2).reverse();
+    expect(stitchLines([second, first])).toEqual([[...street].reverse()]);
+  });
+});
+
+describe('clipToSegment', () => {
+  it('cuts the line between the endpoints, oriented first endpoint to second', () => {
+    const { points } = clipToSegment(segment, [...street].reverse());
+    expect(points).toEqual([segment.endpoints[0], street[2], segment.endpoints[1]]);
+  });
+
+  it('rejects lines too far from an endpoint', () => {
+    const elsewhere = street.map((point) => ({ ...point, longitude: point.longitude + 0.01 }));
+    expect(clipToSegment(segment, elsewhere)).toBeNull();
+  });
+});
+
+describe('extractSegmentGeometry', () => {
+  it('matches OSM ways by street name and prefers features tagged with the segment id', () => {
+    const named = [
+      lineFeature(street.slice(0, 3), { name: "via sant'ambrogio", highway: 'residential' }),
+      lineFeature(street.slice(2), { name: "Via Sant'Ambrogio", highway: 'residential' }),
+      lineFeature(street, { name: 'Via Milano' }),
+    ];
+    const { geometry, unmatched } = extractSegmentGeometry([segment], named);
+    expect(unmatched).toEqual([]);
+    expect(geometry.get('via-test')).toHaveLength(3);
+
+    const straight = lineFeature(segment.endpoints, { segmentId: 'via-test' });
+    expect(extractSegmentGeometry([segment], [...named, straight]).geometry.get('via-test')).toEqual(
+      segment.endpoints,
+    );
+    expect(extractSegmentGeometry([segment], []).unmatched).toEqual(['via-test']);
+  });
+});
+
+describe('geometryFromSamples', () => {
+  it('uses the latest recorded route polyline and flips reverse routes', () => {
+    const samples = [
+      { segmentId: 'via-test', direction: 'forward', requestedAt: '2025-11-05T07:00:00Z', routePolyline: encodePolyline(segment.endpoints) },
+      {
+        segmentId: 'via-test',
+        direction: 'reverse',
+        requestedAt: '2025-11-05T08:00:00Z',
+        routePolyline: encodePolyline([...street.slice(1, 4)].reverse()),
+      },
+    ];
+    const { geometry } = geometryFromSamples([segment], samples);
+    expect(geometry.get('via-test')).toEqual([segment.endpoints[0], street[2], segment.endpoints[1]]);
+  });
+});
+
+describe('writeSegmentGeometry', () => {
+  let tmpDir;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'geometry-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('merges into the existing file and round-trips through loadSegmentGeometry', async () => {
+    const file = path.join(tmpDir, 'segment_geometry.json');
+    await writeSegmentGeometry(new Map([['via-b', segment.endpoints]]), { file, source: 'first' });
+    await writeSegmentGeometry(new Map([['via-a', street]]), { file, source: 'second' });
+
+    const geometry = loadSegmentGeometry(file);
+    expect([...geometry.keys()]).toEqual(['via-a', 'via-b']);
+    expect(geometry.get('via-a')).toEqual(street);
+    expect(loadSegmentGeometry(path.join(tmpDir, 'missing.json')).size).toBe(0);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildIntersectionRegistry,
+  findShortestPath,
+  resolveTurn,
+  splitAtInteriorJunctions,
+  turnId,
+  validateNetwork,
+} from '../src/network.js';
+import { buildNetworkGraph, linkId } from '../src/simulator.js';
+
+const A = { latitude: 45.0, longitude: 9.0 };
+const B = { latitude: 45.0, longitude: 9.001 };
+const C = { latitude: 45.0, longitude: 9.002 };
+const D = { latitude: 45.001, longitude: 9.001 };
+// B as digitised on a second street, 5 m off.
+const nearB = { latitude: 45.0, longitude: 9.00106 };
+
+function segment(id, start, end, allowedDirections = ['forward', 'reverse']) {
+  return {
+    id,
+    name: id,
+    endpoints: [start, end],
+    geometry: null,
+    metadata: { lanes: 1, laneCapacityVph: 800, speedLimitKph: 36, allowedDirections },
+  };
+}
+
+const segments = [
+  segment('a-b', A, B),
+  segment('b-c', nearB, C),
+  segment('b-d', B, D),
+  segment('d-c', D, C),
+];
+const intersections = [{ id: 'junction-b', name: 'B junction', location: B }];
+
+describe('buildIntersectionRegistry', () => {
+  it('clusters endpoints within the tolerance and names known intersections', () => {
+    const registry = buildIntersectionRegistry(segments, { intersections });
+    expect(registry.nodeAt('b-c', 'start')).toBe('junction-b');
+    expect(registry.nodes.get('junction-b').endpoints).toHaveLength(3);
+    expect(registry.nodeAt('a-b', 'start')).toBe('a-b:start');
+    expect(registry.nodeAt('d-c', 'end')).toBe('b-c:end+d-c:end');
+
+    const strict = buildIntersectionRegistry(segments, { intersections, toleranceMeters: 1 });
+    expect(strict.nodeAt('b-c', 'start')).not.toBe(strict.nodeAt('a-b', 'end'));
+    expect(buildIntersectionRegistry(segments, { intersections: [{ id: 'nowhere', location: { latitude: 46, longitude: 9 } }] }).unmatchedIntersections).toEqual(['nowhere']);
+  });
+});
+
+describe('resolveTurn', () => {
+  const node = { penaltySeconds: 4, turns: [{ from: 'a-b', to: 'b-c', banned: true }, { from: 'a-b', to: 'a-b', banned: false, penaltySeconds: 20 }] };
+
+  it('bans U-turns by default and applies rule and node penalties', () => {
+    expect(resolveTurn(node, 'a-b', 'b-c')).toEqual({ allowed: false, penaltySeconds: 4 });
+    expect(resolveTurn(node, 'a-b', 'a-b')).toEqual({ allowed: true, penaltySeconds: 20 });
+    expect(resolveTurn(node, 'b-d', 'b-d').allowed).toBe(false);
+    expect(resolveTurn(node, 'b-d', 'a-b')).toEqual({ allowed: true, penaltySeconds: 4 });
+  });
+});
+
+describe('findShortestPath', () => {
+  it('takes the direct route when every turn is allowed', () => {
+    const graph = buildNetworkGraph(segments, { intersections });
+    const path = findShortestPath(graph, { fromNodeId: 'a-b:start', toNodeId: 'b-c:end+d-c:end' });
+    expect(path.linkIds).toEqual([linkId('a-b', 'forward'), linkId('b-c', 'forward')]);
+    expect(path.nodeIds).toEqual(['a-b:start', 'junction-b', 'b-c:end+d-c:end']);
+    expect(path.travelTimeSeconds).toBeCloseTo(15.7, 0);
+  });
+
+  it('detours around banned turns and expensive penalties', () => {
+    const banned = buildNetworkGraph(segments, {
+      intersections,
+      turnOverrides: [{ node: 'junction-b', from: 'a-b', to: 'b-c', banned: true }],
+    });
+    expect(banned.turns.get(turnId(linkId('a-b', 'forward'), linkId('b-c', 'forward'))).allowed).toBe(false);
+    const detour = findShortestPath(banned, { fromNodeId: 'a-b:start', toNodeId: 'b-c:end+d-c:end' });
+    expect(detour.linkIds).toEqual([linkId('a-b', 'forward'), linkId('b-d', 'forward'), linkId('d-c', 'forward')]);
+
+    const penalised = buildNetworkGraph(segments, {
+      intersections,
+      turnOverrides: [{ node: 'junction-b', from: 'a-b', to: 'b-c', penaltySeconds: 5 }],
+    });
+    const withPenalty = findShortestPath(penalised, { fromNodeId: 'a-b:start', toNodeId: 'b-c:end+d-c:end' });
+    expect(withPenalty.linkIds).toHaveLength(2);
+    expect(withPenalty.turnPenaltySeconds).toBe(5);
+  });
+
+  it('returns null when the destination cannot be reached', () => {
+    const oneWay = buildNetworkGraph(
+      [segment('a-b', A, B, ['reverse']), segment('b-c', B, C)],
+      { intersections: [] },
+    );
+    expect(findShortestPath(oneWay, { fromNodeId: 'a-b:start', toNodeId: 'b-c:end' })).toBeNull();
+  });
+});
+
+describe('validateNetwork', () => {
+  it('accepts a connected network', () => {
+    const graph = buildNetworkGraph(segments, { intersections });
+    expect(validateNetwork(graph, { segments })).toEqual([]);
+  });
+
+  it('reports stranded links, stray turn rules and junctions inside a segment', () => {
+    const stranded = [
+      segment('a-b', A, B, ['forward']),
+      segment('b-d', B, D, ['forward']),
+      segment('c-mid', C, { latitude: 45.0005, longitude: 9.001 }),
+    ];
+    const graph = buildNetworkGraph(stranded, {
+      intersections: [{ id: 'junction-b', location: B, turns: [{ from: 'a-b', to: 'd-c', banned: true }] }],
+    });
+    const types = validateNetwork(graph, { segments: stranded }).map((problem) => problem.type);
+    expect(types).toContain('unknown-turn');
+    expect(types).toContain('junction-inside-segment');
+
+    const trapped = buildNetworkGraph(stranded, {
+      intersections,
+      turnOverrides: [{ node: 'junction-b', from: 'a-b', to: 'b-d', banned: true }],
+    });
+    const problems = validateNetwork(trapped, { segments: stranded });
+    expect(problems).toContainEqual(expect.objectContaining({ type: 'dead-end-link', linkId: linkId('a-b', 'forward') }));
+    expect(problems).toContainEqual(expect.objectContaining({ type: 'unreachable-link', linkId: linkId('b-d', 'forward') }));
+  });
+});
+
+describe('splitAtInteriorJunctions', () => {
+  const street = [segment('a-c', A, C), segment('b-d', B, D)];
+
+  it('cuts the host segment at a side street so traffic can turn into it', () => {
+    const graph = buildNetworkGraph(street, { intersections: [] });
+    expect(findShortestPath(graph, { fromNodeId: 'b-d:end', toNodeId: 'a-c:start' })).toBeNull();
+
+    const routing = splitAtInteriorJunctions(graph, { segments: street });
+    const pieces = [...routing.links.values()].filter((link) => link.parentLinkId === linkId('a-c', 'reverse'));
+    expect(pieces.map((link) => [link.from, link.to])).toEqual([
+      ['a-c:end', 'b-d:start'],
+      ['b-d:start', 'a-c:start'],
+    ]);
+    expect(pieces[0].fraction).toBeCloseTo(0.5, 2);
+    expect(pieces[1].startFraction).toBeCloseTo(0.5, 2);
+    expect(routing.turns.get(turnId(pieces[0].id, pieces[1].id)).allowed).toBe(true);
+
+    const path = findShortestPath(routing, { fromNodeId: 'b-d:end', toNodeId: 'a-c:start' });
+    expect(path.linkIds).toEqual([linkId('b-d', 'reverse'), pieces[1].id]);
+  });
+});
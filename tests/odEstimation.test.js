@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { estimateDemand, gehStatistic, toDemandDocument } from '../src/odEstimation.js';
+
+const A = { latitude: 45.0, longitude: 9.0 };
+const B = { latitude: 45.0, longitude: 9.002 };
+const C = { latitude: 45.0, longitude: 9.004 };
+
+function segment(id, start, end) {
+  return {
+    id,
+    name: id,
+    endpoints: [start, end],
+    geometry: null,
+    metadata: { lanes: 1, laneCapacityVph: 900, speedLimitKph: 36, allowedDirections: ['forward', 'reverse'] },
+  };
+}
+
+const segments = [segment('a-b', A, B), segment('b-c', B, C)];
+const zones = [
+  { id: 'a', name: 'A', kind: 'gateway', nodeId: 'a-b:start' },
+  { id: 'b', name: 'B', kind: 'internal', nodeId: 'a-b:end+b-c:start' },
+  { id: 'c', name: 'C', kind: 'gateway', nodeId: 'b-c:end' },
+];
+const fieldCountFlows = new Map([
+  ['a-b:forward', { flowVph: 300, counts: 1 }],
+  ['b-c:forward', { flowVph: 200, counts: 2 }],
+]);
+
+describe('gehStatistic', () => {
+  it('compares modelled and observed hourly flows', () => {
+    expect(gehStatistic(100, 100)).toBe(0);
+    expect(gehStatistic(150, 100)).toBeCloseTo(4.47, 2);
+    expect(gehStatistic(0, 0)).toBe(0);
+  });
+});
+
+describe('estimateDemand', () => {
+  it('fits zone-to-zone trips to the observed link flows', () => {
+    const result = estimateDemand({ samples: [], segments, zones, fieldCountFlows });
+    expect(result.converged).toBe(true);
+    expect(result.trips.map((trip) => `${trip.from}>${trip.to}`)).toEqual(['a>b', 'a>c', 'b>c']);
+    expect(result.unobservedPairs).toEqual([
+      { from: 'b', to: 'a' },
+      { from: 'c', to: 'a' },
+      { from: 'c', to: 'b' },
+    ]);
+
+    const links = new Map(result.links.map((link) => [link.linkId, link]));
+    expect(links.get('a-b:forward').estimatedFlowVph).toBeCloseTo(300, 0);
+    expect(links.get('b-c:forward').estimatedFlowVph).toBeCloseTo(200, 0);
+    expect(links.get('a-b:forward')).toMatchObject({ source: 'field-count', pairCount: 2, confidence: 'high' });
+    expect(links.get('a-b:reverse')).toMatchObject({ observedFlowVph: null, geh: null, confidence: 'unobserved' });
+    expect(result.fit.withinGehShare).toBe(1);
+  });
+
+  it('marks links that no zone pair can explain', () => {
+    const result = estimateDemand({
+      samples: [],
+      segments,
+      zones: zones.slice(0, 2),
+      fieldCountFlows,
+    });
+    const link = result.links.find((item) => item.linkId === 'b-c:forward');
+    expect(link).toMatchObject({ pairCount: 0, estimatedFlowVph: 0, confidence: 'low' });
+  });
+
+  it('writes the estimate as a demand document between zone nodes', () => {
+    const result = estimateDemand({ samples: [], segments, zones, fieldCountFlows, from: '2025-11-05T07:00:00.000Z' });
+    const document = toDemandDocument(result, { name: 'AM peak' });
+    expect(document.name).toBe('AM peak');
+    expect(document.description).toMatch(/between 2025-11-05T07:00:00.000Z and now/);
+    expect(document.trips.every((trip) => trip.vph > 0)).toBe(true);
+    expect(document.trips[0].from).toBe('a-b:start');
+  });
+
+  it('checks that every zone sits on a node', () => {
+    expect(() =>
+      estimateDemand({ samples: [], segments, zones: [{ id: 'x', nodeId: 'nowhere' }], fieldCountFlows }),
+    ).toThrow(/unknown node "nowhere"/);
+    expect(estimateDemand({ samples: [] }).zones.map((zone) => zone.id)).toContain('school');
+  });
+});
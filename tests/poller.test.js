@@ -1,10 +1,14 @@
-import { describe, it, expect } from 'vitest';
-
-if (!process.env.GOOGLE_MAPS_API_KEY) {
-  process.env.GOOGLE_MAPS_API_KEY = 'test-key';
-}
-
-const { parseDurationSeconds, describeWeatherCode } = await import('../src/poller.js');
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { collectSamples, parseDurationSeconds, describeWeatherCode } from '../src/poller.js';
+import { readPollRuns } from '../src/pollRuns.js';
+import { ProviderHttpError } from '../src/providers/errors.js';
+import { createFakeProviderFromConfig } from '../src/providers/fake.js';
+import { createRequestBudget } from '../src/requestBudget.js';
+import { createStorage } from '../src/storage/index.js';
+import { streetSegments } from '../src/segments.js';
 
 describe('parseDurationSeconds', () => {
   it('returns number for whole-second values', () => {
@@ -32,3 +36,145 @@ describe('describeWeatherCode', () => {
     expect(describeWeatherCode(undefined)).toBeNull();
   });
 });
+
+describe('collectSamples', () => {
+  let tmpDir;
+  const quiet = () => ({
+    delayMs: 0,
+    logProgress: false,
+    logErrors: false,
+    runsFile: path.join(tmpDir, 'poll_runs.jsonl'),
+  });
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'poller-'));
+  });
+
+  function openBudget(dailyLimit = 1000) {
+    return createRequestBudget({ file: path.join(tmpDir, 'request_budget.json'), dailyLimit });
+  }
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('polls every allowed direction offline and records the provider', async () => {
+    const storage = await createStorage({ backend: 'jsonl', jsonlFile: path.join(tmpDir, 'samples.jsonl') });
+    const provider = createFakeProviderFromConfig({ seed: 'test', weather: { condition: 'Fog' } });
+    const { samples, stats } = await collectSamples({ storage, provider, budget: await openBudget(), ...quiet() });
+
+    expect(samples.length).toBeGreaterThan(streetSegments.length);
+    expect(samples.every((sample) => sample.provider === 'fake')).toBe(true);
+    expect(samples[0].weather).toEqual({ condition: 'Fog' });
+    expect(samples.some((sample) => sample.segmentId === 'via-milano' && sample.direction === 'forward')).toBe(false);
+    expect(await storage.countSamples()).toBe(samples.length);
+    expect(stats).toMatchObject({ planned: samples.length, succeeded: samples.length, attempts: samples.length });
+  });
+
+  it('keeps segment order and stamps one pollId and snapshot time under concurrency', async () => {
+    const storage = await createStorage({ backend: 'jsonl', jsonlFile: path.join(tmpDir, 'samples.jsonl') });
+    const fake = createFakeProviderFromConfig({ seed: 'test' });
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const provider = {
+      ...fake,
+      async fetchTravelTime(request) {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // Later segments answer faster, so completion order differs from plan order.
+        await new Promise((resolve) => setTimeout(resolve, 30 - streetSegments.indexOf(request.segment)));
+        inFlight -= 1;
+        return fake.fetchTravelTime(request);
+      },
+    };
+    const { samples, stats } = await collectSamples({
+      storage,
+      provider,
+      budget: await openBudget(),
+      concurrency: 3,
+      ...quiet(),
+    });
+
+    expect(maxInFlight).toBe(3);
+    const order = samples.map((sample) => streetSegments.findIndex((segment) => segment.id === sample.segmentId));
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+    expect(new Set(samples.map((sample) => sample.pollId))).toEqual(new Set([stats.pollId]));
+    expect(new Set(samples.map((sample) => sample.snapshotAt))).toEqual(new Set([stats.startedAt]));
+  });
+
+  it('only keeps the route polyline when asked to record it', async () => {
+    const fake = createFakeProviderFromConfig({ seed: 'test' });
+    const provider = {
+      ...fake,
+      async fetchTravelTime(request) {
+        return { ...(await fake.fetchTravelTime(request)), routePolyline: '_p~iF~ps|U_ulLnnqC' };
+      },
+    };
+    const open = (name) => createStorage({ backend: 'jsonl', jsonlFile: path.join(tmpDir, name) });
+
+    const plain = await collectSamples({ storage: await open('plain.jsonl'), provider, budget: await openBudget(), ...quiet() });
+    expect(plain.samples.some((sample) => 'routePolyline' in sample)).toBe(false);
+
+    const recorded = await collectSamples({
+      storage: await open('recorded.jsonl'),
+      provider,
+      budget: await openBudget(),
+      recordPolyline: true,
+      ...quiet(),
+    });
+    expect(recorded.samples.every((sample) => sample.routePolyline === '_p~iF~ps|U_ulLnnqC')).toBe(true);
+  });
+
+  it('retries transient failures and records permanent ones', async () => {
+    const storage = await createStorage({ backend: 'jsonl', jsonlFile: path.join(tmpDir, 'samples.jsonl') });
+    const fake = createFakeProviderFromConfig({ seed: 'test' });
+    const calls = new Map();
+    const provider = {
+      ...fake,
+      async fetchTravelTime(request) {
+        const key = `${request.segment.id}:${request.direction}`;
+        calls.set(key, (calls.get(key) ?? 0) + 1);
+        if (key === 'via-pontida:forward' && calls.get(key) === 1) {
+          throw new ProviderHttpError('Fake', new Response('', { status: 429 }), 'slow down', key);
+        }
+        if (key === 'via-pontida:reverse') {
+          throw new ProviderHttpError('Fake', new Response('', { status: 403 }), 'denied', key);
+        }
+        return fake.fetchTravelTime(request);
+      },
+    };
+    const { stats } = await collectSamples({
+      storage,
+      provider,
+      budget: await openBudget(),
+      retry: { baseDelayMs: 1 },
+      ...quiet(),
+    });
+
+    expect(stats.retries).toBe(1);
+    expect(stats.attempts).toBe(stats.planned + 1);
+    expect(stats.failed).toBe(1);
+    expect(stats.failures[0]).toMatchObject({ segmentId: 'via-pontida', direction: 'reverse', status: 403 });
+
+    const [run] = await readPollRuns(path.join(tmpDir, 'poll_runs.jsonl'));
+    expect(run).toMatchObject({ pollId: stats.pollId, provider: 'fake', failed: 1, weatherFetched: false });
+    expect(run.failures[0].message).toContain('denied');
+    expect(run.successes).toHaveLength(stats.planned - 1);
+    expect(run.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('stops polling once the daily budget is spent', async () => {
+    const storage = await createStorage({ backend: 'jsonl', jsonlFile: path.join(tmpDir, 'samples.jsonl') });
+    const provider = createFakeProviderFromConfig({ seed: 'test' });
+    const { samples, stats } = await collectSamples({ storage, provider, budget: await openBudget(5), ...quiet() });
+
+    expect(samples).toHaveLength(5);
+    expect(stats.budgetExhausted).toBe(true);
+    expect(stats.skipped).toBe(stats.planned - 5);
+
+    const ledger = JSON.parse(await fs.readFile(path.join(tmpDir, 'request_budget.json'), 'utf8'));
+    const [day] = Object.values(ledger.days);
+    expect(day.requests).toBe(5);
+    expect(day.runs[0]).toMatchObject({ succeeded: 5, budgetExhausted: true });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildCongestionSpans, decodePolyline, encodePolyline } from '../src/polyline.js';
+
+const googleExample = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+const googleExamplePoints = [
+  { latitude: 38.5, longitude: -120.2 },
+  { latitude: 40.7, longitude: -120.95 },
+  { latitude: 43.252, longitude: -126.453 },
+];
+
+describe('encoded polylines', () => {
+  it('decodes the reference example from the polyline algorithm docs', () => {
+    expect(decodePolyline(googleExample)).toEqual(googleExamplePoints);
+    expect(decodePolyline('')).toEqual([]);
+  });
+
+  it('round-trips through encodePolyline', () => {
+    expect(encodePolyline(googleExamplePoints)).toBe(googleExample);
+  });
+
+  it('rejects truncated input', () => {
+    expect(() => decodePolyline(googleExample.slice(0, -1))).toThrow(/Truncated/);
+  });
+});
+
+describe('buildCongestionSpans', () => {
+  const points = [
+    { latitude: 45.5, longitude: 9.3 },
+    { latitude: 45.501, longitude: 9.3 },
+    { latitude: 45.502, longitude: 9.3 },
+    { latitude: 45.503, longitude: 9.3 },
+  ];
+
+  it('maps point index ranges to geographic spans with offsets from the origin', () => {
+    const spans = buildCongestionSpans(points, [
+      { endPolylinePointIndex: 1, speed: 'NORMAL' },
+      { startPolylinePointIndex: 1, endPolylinePointIndex: 3, speed: 'SLOW' },
+    ]);
+    expect(spans).toHaveLength(2);
+    expect(spans[0]).toMatchObject({ speed: 'NORMAL', startIndex: 0, endIndex: 1, startOffsetMeters: 0 });
+    expect(spans[0].endOffsetMeters).toBeCloseTo(111.2, 0);
+    expect(spans[1]).toMatchObject({ speed: 'SLOW', startIndex: 1, endIndex: 3 });
+    expect(spans[1].points).toEqual(points.slice(1));
+    expect(spans[1].endOffsetMeters).toBeCloseTo(333.6, 0);
+  });
+
+  it('clamps out-of-range indexes and drops empty intervals', () => {
+    const spans = buildCongestionSpans(points, [
+      { startPolylinePointIndex: 2, endPolylinePointIndex: 2, speed: 'SLOW' },
+      { startPolylinePointIndex: 2, endPolylinePointIndex: 9, speed: 'TRAFFIC_JAM' },
+    ]);
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({ speed: 'TRAFFIC_JAM', startIndex: 2, endIndex: 3 });
+    expect(buildCongestionSpans(points, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { createTravelTimeProvider } from '../src/providers/index.js';
+import { createFakeProviderFromConfig } from '../src/providers/fake.js';
+import { encodePolyline } from '../src/polyline.js';
+import { streetSegments } from '../src/segments.js';
+
+const pontida = streetSegments.find((segment) => segment.id === 'via-pontida');
+const request = {
+  segment: pontida,
+  direction: 'forward',
+  origin: pontida.endpoints[0],
+  destination: pontida.endpoints[1],
+  departureTime: new Date('2025-11-05T07:30:00Z'),
+};
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('createTravelTimeProvider', () => {
+  it('rejects unknown providers', async () => {
+    await expect(createTravelTimeProvider({ name: 'waze' })).rejects.toThrow(/Unknown travel-time provider/);
+  });
+
+  it('only requires the Google API key when the Google provider is used', async () => {
+    await expect(createTravelTimeProvider({ name: 'google', apiKey: '' })).rejects.toThrow(/GOOGLE_MAPS_API_KEY/);
+    const fake = await createTravelTimeProvider({ name: 'fake' });
+    expect(fake.name).toBe('fake');
+  });
+});
+
+describe('HTTP providers', () => {
+  it('maps Google Routes responses', async () => {
+    const google = await createTravelTimeProvider({
+      name: 'google',
+      apiKey: 'test-key',
+      fetchImpl: async () =>
+        jsonResponse({
+          routes: [{ distanceMeters: 340, duration: '75s', staticDuration: '50s', travelAdvisory: {} }],
+        }),
+    });
+    expect(await google.fetchTravelTime(request)).toMatchObject({
+      distanceMeters: 340,
+      durationSeconds: 75,
+      staticDurationSeconds: 50,
+    });
+  });
+
+  it('requests traffic on the polyline and decodes speed reading intervals into spans', async () => {
+    const [start, end] = pontida.endpoints;
+    const middle = { latitude: (start.latitude + end.latitude) / 2, longitude: (start.longitude + end.longitude) / 2 };
+    let requestBody;
+    const google = await createTravelTimeProvider({
+      name: 'google',
+      apiKey: 'test-key',
+      fetchImpl: async (_url, init) => {
+        requestBody = JSON.parse(init.body);
+        return jsonResponse({
+          routes: [
+            {
+              distanceMeters: 340,
+              duration: '75s',
+              staticDuration: '50s',
+              polyline: { encodedPolyline: encodePolyline([start, middle, end]) },
+              travelAdvisory: {
+                speedReadingIntervals: [
+                  { endPolylinePointIndex: 1, speed: 'NORMAL' },
+                  { startPolylinePointIndex: 1, endPolylinePointIndex: 2, speed: 'TRAFFIC_JAM' },
+                ],
+              },
+            },
+          ],
+        });
+      },
+    });
+    const result = await google.fetchTravelTime(request);
+    expect(requestBody.extraComputations).toEqual(['TRAFFIC_ON_POLYLINE']);
+    expect(result.speedReadingIntervals).toHaveLength(2);
+    expect(result.congestionSpans.map((span) => span.speed)).toEqual(['NORMAL', 'TRAFFIC_JAM']);
+    expect(result.congestionSpans[1].startOffsetMeters).toBeGreaterThan(0);
+    expect(result.congestionSpans[1].points).toHaveLength(2);
+  });
+
+  it('maps TomTom summaries', async () => {
+    let requestedUrl;
+    const tomtom = await createTravelTimeProvider({
+      name: 'tomtom',
+      apiKey: 'test-key',
+      fetchImpl: async (url) => {
+        requestedUrl = String(url);
+        return jsonResponse({
+          routes: [
+            {
+              summary: {
+                lengthInMeters: 342,
+                travelTimeInSeconds: 80,
+                noTrafficTravelTimeInSeconds: 52,
+                trafficDelayInSeconds: 28,
+              },
+            },
+          ],
+        });
+      },
+    });
+    expect(await tomtom.fetchTravelTime(request)).toMatchObject({
+      distanceMeters: 342,
+      durationSeconds: 80,
+      staticDurationSeconds: 52,
+      delaySeconds: 28,
+    });
+    expect(requestedUrl).toContain(`${pontida.endpoints[0].latitude},${pontida.endpoints[0].longitude}:`);
+  });
+
+  it('reports OSRM durations as free-flow and surfaces routing errors', async () => {
+    const osrm = await createTravelTimeProvider({
+      name: 'osrm',
+      baseUrl: 'http://osrm.test',
+      fetchImpl: async () => jsonResponse({ code: 'Ok', routes: [{ distance: 338, duration: 41.2 }] }),
+    });
+    expect(await osrm.fetchTravelTime(request)).toMatchObject({
+      durationSeconds: 41.2,
+      staticDurationSeconds: 41.2,
+      delaySeconds: 0,
+    });
+
+    const broken = await createTravelTimeProvider({
+      name: 'osrm',
+      baseUrl: 'http://osrm.test',
+      fetchImpl: async () => jsonResponse({ code: 'NoRoute' }),
+    });
+    await expect(broken.fetchTravelTime(request)).rejects.toThrow(/NoRoute/);
+  });
+});
+
+describe('fake provider', () => {
+  const config = {
+    seed: 'test',
+    timeZone: 'UTC',
+    defaults: { freeFlowSpeedKph: 36, jitter: 0.05, hourlyCongestion: { 7: 1.5 } },
+    segments: { 'via-pontida': { directions: { reverse: { unavailable: true } } } },
+  };
+
+  it('is deterministic for a given departure slot', async () => {
+    const fake = createFakeProviderFromConfig(config);
+    const first = await fake.fetchTravelTime(request);
+    const second = await fake.fetchTravelTime({ ...request, departureTime: new Date('2025-11-05T07:31:00Z') });
+    expect(second).toEqual(first);
+    expect(first.staticDurationSeconds).toBe(Math.round(first.distanceMeters / 10));
+    expect(first.durationSeconds / first.staticDurationSeconds).toBeGreaterThan(1.4);
+
+    const night = await fake.fetchTravelTime({ ...request, departureTime: new Date('2025-11-05T02:00:00Z') });
+    expect(night.durationSeconds / night.staticDurationSeconds).toBeLessThan(1.1);
+  });
+
+  it('fails links marked unavailable', async () => {
+    const fake = createFakeProviderFromConfig(config);
+    await expect(fake.fetchTravelTime({ ...request, direction: 'reverse' })).rejects.toThrow(/no route/);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createRequestBudget, RequestBudgetExceededError } from '../src/requestBudget.js';
+
+let tmpDir;
+let file;
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'budget-'));
+  file = path.join(tmpDir, 'request_budget.json');
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('createRequestBudget', () => {
+  it('charges requests with a cost estimate and stops at the daily limit', async () => {
+    const now = () => new Date('2025-11-05T07:00:00Z');
+    const budget = await createRequestBudget({ file, dailyLimit: 2, now });
+    expect(budget.consume('google')).toBeCloseTo(0.01);
+    budget.consume('google');
+    expect(budget.remaining()).toBe(0);
+    expect(() => budget.consume('google')).toThrow(RequestBudgetExceededError);
+    expect(budget.usage()).toEqual({ day: '2025-11-05', requests: 2, limit: 2, estimatedCostUsd: 0.02 });
+  });
+
+  it('persists usage across runs and resets on a new UTC day', async () => {
+    let current = new Date('2025-11-05T23:00:00Z');
+    const now = () => current;
+    const first = await createRequestBudget({ file, dailyLimit: 2, now });
+    first.consume('fake');
+    first.recordRun({ provider: 'fake', attempts: 1 });
+    await first.save();
+
+    const second = await createRequestBudget({ file, dailyLimit: 2, now });
+    expect(second.remaining()).toBe(1);
+    current = new Date('2025-11-06T00:05:00Z');
+    expect(second.remaining()).toBe(2);
+
+    const ledger = JSON.parse(await fs.readFile(file, 'utf8'));
+    expect(ledger.days['2025-11-05'].runs).toEqual([{ provider: 'fake', attempts: 1 }]);
+  });
+});
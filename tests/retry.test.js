@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { computeBackoffDelay, isRetryableError, withRetry } from '../src/retry.js';
+import { ProviderHttpError } from '../src/providers/errors.js';
+
+function httpError(status, headers = {}) {
+  return new ProviderHttpError('Test API', new Response('', { status, headers }), 'oops', 'seg forward');
+}
+
+describe('computeBackoffDelay', () => {
+  it('grows exponentially up to the cap with full jitter', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000, random: () => 1 };
+    expect([0, 1, 2, 3, 4].map((attempt) => computeBackoffDelay(attempt, options))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+    expect(computeBackoffDelay(3, { ...options, random: () => 0.25 })).toBe(200);
+  });
+
+  it('waits at least as long as Retry-After asks, within the cap', () => {
+    expect(computeBackoffDelay(0, { baseDelayMs: 100, random: () => 0, retryAfterMs: 3000 })).toBe(3000);
+    expect(computeBackoffDelay(0, { maxDelayMs: 2000, retryAfterMs: 60000 })).toBe(2000);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries throttling, server errors and network failures only', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(httpError(403))).toBe(false);
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true);
+    expect(isRetryableError(new Error('No route returned'))).toBe(false);
+  });
+
+  it('reads Retry-After seconds from the response', () => {
+    expect(httpError(429, { 'Retry-After': '2' }).retryAfterMs).toBe(2000);
+  });
+});
+
+describe('withRetry', () => {
+  const options = { baseDelayMs: 1, random: () => 0, sleep: async () => {} };
+
+  it('retries transient errors until the call succeeds', async () => {
+    let calls = 0;
+    const retries = [];
+    const result = await withRetry(
+      async () => {
+        calls += 1;
+        if (calls < 3) throw httpError(503);
+        return 'ok';
+      },
+      { ...options, onRetry: (error, attempt) => retries.push(attempt) },
+    );
+    expect(result).toBe('ok');
+    expect(retries).toEqual([1, 2]);
+  });
+
+  it('gives up after maxRetries and on permanent errors', async () => {
+    let calls = 0;
+    await expect(
+      withRetry(async () => {
+        calls += 1;
+        throw httpError(500);
+      }, { ...options, maxRetries: 2 }),
+    ).rejects.toThrow(/500/);
+    expect(calls).toBe(3);
+
+    calls = 0;
+    await expect(
+      withRetry(async () => {
+        calls += 1;
+        throw httpError(400);
+      }, options),
+    ).rejects.toThrow(/400/);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { assessRouteDeviation, extractRoutePoints } from '../src/routeDeviation.js';
+import { distanceToPathMeters } from '../src/geo.js';
+import { encodePolyline } from '../src/polyline.js';
+
+const segmentPath = [
+  { latitude: 45.5, longitude: 9.3 },
+  { latitude: 45.5, longitude: 9.304 },
+];
+const lengthMeters = 312;
+
+describe('distanceToPathMeters', () => {
+  it('measures the perpendicular distance to the nearest leg', () => {
+    expect(distanceToPathMeters({ latitude: 45.5009, longitude: 9.302 }, segmentPath)).toBeCloseTo(100, 0);
+    expect(distanceToPathMeters({ latitude: 45.5, longitude: 9.305 }, segmentPath)).toBeCloseTo(78, 0);
+  });
+});
+
+describe('assessRouteDeviation', () => {
+  it('accepts routes that follow the segment', () => {
+    const sample = { distanceMeters: 330, routePolyline: encodePolyline(segmentPath) };
+    expect(assessRouteDeviation(sample, { lengthMeters, segmentPath })).toBeNull();
+  });
+
+  it('flags detours by length with a severity growing with the ratio', () => {
+    const mild = assessRouteDeviation({ distanceMeters: 450 }, { lengthMeters });
+    const severe = assessRouteDeviation({ distanceMeters: 1200 }, { lengthMeters });
+    expect(mild.reasons).toEqual(['route-longer']);
+    expect(mild.severity).toBeGreaterThan(0);
+    expect(severe.severity).toBe(1);
+    expect(assessRouteDeviation({ distanceMeters: 60 }, { lengthMeters }).reasons).toEqual(['route-shorter']);
+  });
+
+  it('flags routes leaving the segment shape even when the length matches', () => {
+    const detour = [segmentPath[0], { latitude: 45.5012, longitude: 9.302 }, segmentPath[1]];
+    const result = assessRouteDeviation(
+      { distanceMeters: 320, congestionSpans: [{ points: detour }] },
+      { lengthMeters, segmentPath },
+    );
+    expect(result.reasons).toEqual(['off-segment']);
+    expect(result.maxOffsetMeters).toBeCloseTo(133, -1);
+    expect(result.distanceRatio).toBeCloseTo(1.026, 3);
+  });
+});
+
+describe('extractRoutePoints', () => {
+  it('prefers the recorded polyline over congestion span points', () => {
+    expect(extractRoutePoints({ routePolyline: encodePolyline(segmentPath), congestionSpans: [] })).toEqual(segmentPath);
+    expect(extractRoutePoints({ congestionSpans: [{ points: segmentPath }] })).toEqual(segmentPath);
+    expect(extractRoutePoints({ congestionSpans: null })).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  loadScenarioFile,
+  parseScenario,
+  resolveScenarioPaths,
+  ScenarioValidationError,
+  validateScenario,
+} from '../src/scenarios.js';
+import { applyScenario } from '../src/simulator.js';
+import { streetSegments } from '../src/segments.js';
+
+describe('validateScenario', () => {
+  it('accepts a well-formed scenario', () => {
+    const scenario = validateScenario({
+      id: 'pontida',
+      edits: [{ segmentId: 'via-pontida', allowedDirections: ['forward'] }],
+    });
+    expect(scenario.name).toBe('pontida');
+    expect(scenario.edits).toHaveLength(1);
+  });
+
+  it('rejects unknown segments, directions and fields together', () => {
+    let error;
+    try {
+      validateScenario({
+        id: 'typos',
+        edits: [{ segmentId: 'via-pontdia', allowedDirections: ['fwd'], lane: 1 }],
+      });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ScenarioValidationError);
+    expect(error.problems).toHaveLength(3);
+    expect(error.message).toContain('via-pontdia');
+    expect(error.message).toContain('"fwd"');
+    expect(error.message).toContain('"lane"');
+  });
+
+  it('accepts turn-only scenarios and checks the movements exist', () => {
+    const scenario = validateScenario({
+      id: 'no-left',
+      turns: [{ node: 'sant-ambrogio-milani-pontida', from: 'via-sant-ambrogio', to: 'via-pontida', banned: true }],
+    });
+    expect(scenario.edits).toEqual([]);
+    expect(scenario.turns).toHaveLength(1);
+
+    let error;
+    try {
+      validateScenario({
+        id: 'bad-turns',
+        turns: [
+          { node: 'sant-ambrogio-milani-pontida', from: 'via-milano', to: 'via-pontida', banned: true },
+          { node: 'nowhere', from: 'via-pontida', to: 'via-pontida', penaltySeconds: 5 },
+          { node: 'milani-kolbe', from: 'via-padre-kolbe', to: 'via-don-lorenzo-milani' },
+        ],
+      });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ScenarioValidationError);
+    expect(error.problems).toHaveLength(3);
+    expect(error.message).toContain('"via-milano" does not meet');
+    expect(error.message).toContain('"nowhere"');
+    expect(error.message).toContain('banned or penaltySeconds');
+  });
+
+  it('rejects scenarios without edits', () => {
+    expect(() => validateScenario({ id: 'empty', edits: [] })).toThrow(ScenarioValidationError);
+  });
+
+  it('rejects duplicate segment edits', () => {
+    expect(() =>
+      validateScenario({
+        id: 'duplicate',
+        edits: [
+          { segmentId: 'via-pontida', lanes: 2 },
+          { segmentId: 'via-pontida', closed: true },
+        ],
+      }),
+    ).toThrow(/repeats segment/);
+  });
+});
+
+describe('scenario files', () => {
+  it('parses YAML and JSON by extension', () => {
+    expect(parseScenario('id: a\nedits: []\n', 'a.yaml')).toEqual({ id: 'a', edits: [] });
+    expect(parseScenario('{"id":"b"}', 'b.json')).toEqual({ id: 'b' });
+  });
+
+  it('loads every scenario shipped in scenarios/', async () => {
+    const files = await resolveScenarioPaths([path.resolve('scenarios')]);
+    expect(files.length).toBeGreaterThan(0);
+    for (const file of files) {
+      const scenario = await loadScenarioFile(file);
+      expect(scenario.id).toBe(path.basename(file, path.extname(file)));
+    }
+  });
+
+  it('reports parse failures as validation errors', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scenarios-'));
+    const file = path.join(dir, 'broken.json');
+    await fs.writeFile(file, '{ not json', 'utf8');
+    await expect(loadScenarioFile(file)).rejects.toBeInstanceOf(ScenarioValidationError);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe('closures and capacity overrides', () => {
+  it('closes a segment and overrides capacity', () => {
+    const edited = applyScenario(streetSegments, {
+      edits: [
+        { segmentId: 'via-pontida', closed: true },
+        { segmentId: 'via-milano', capacityVph: 500 },
+      ],
+    });
+    expect(edited.find((segment) => segment.id === 'via-pontida').metadata.allowedDirections).toEqual([]);
+    expect(edited.find((segment) => segment.id === 'via-milano').metadata.capacityVph).toBe(500);
+  });
+});
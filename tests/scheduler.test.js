@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createScheduler, detectQuotaPause, parseScheduleList } from '../src/scheduler.js';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-11-05T07:02:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const completed = { status: 'completed', count: 23, stats: { succeeded: 23, failures: [] } };
+
+describe('createScheduler', () => {
+  it('starts paused and runs at every matching minute once resumed', async () => {
+    const run = vi.fn(async () => completed);
+    const scheduler = createScheduler({ expressions: ['*/5 * * * *'], run });
+    expect(scheduler.status()).toMatchObject({ paused: true, nextRunAt: null });
+
+    scheduler.resume();
+    expect(scheduler.status()).toMatchObject({ paused: false, nextRunAt: '2025-11-05T07:05:00.000Z' });
+
+    await vi.advanceTimersByTimeAsync(3 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.status()).toMatchObject({
+      nextRunAt: '2025-11-05T07:15:00.000Z',
+      lastRun: { status: 'completed', count: 23, startedAt: '2025-11-05T07:10:00.000Z' },
+    });
+
+    scheduler.pause();
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.status()).toMatchObject({ active: false, pauseReason: 'Paused manually.' });
+  });
+
+  it('records failures and keeps going', async () => {
+    const run = vi.fn(async () => {
+      throw new Error('disk full');
+    });
+    const scheduler = createScheduler({ expressions: ['* * * * *'], run });
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.status().lastRun).toMatchObject({ status: 'failed', error: 'disk full' });
+  });
+
+  it('pauses until the next UTC day when the request budget runs out', async () => {
+    const run = vi.fn(async () => ({ status: 'completed', count: 3, stats: { budgetExhausted: true, succeeded: 3 } }));
+    const scheduler = createScheduler({ expressions: ['*/5 * * * *'], run });
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(3 * 60 * 1000);
+
+    expect(scheduler.status()).toMatchObject({
+      paused: true,
+      pausedUntil: '2025-11-06T00:00:00.000Z',
+      nextRunAt: '2025-11-06T00:05:00.000Z',
+    });
+    await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(5 * 60 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops for good when stopped mid-run', async () => {
+    let finish;
+    const run = vi.fn(() => new Promise((resolve) => (finish = resolve)));
+    const scheduler = createScheduler({ expressions: ['* * * * *'], run });
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(scheduler.status().inProgress).toBe(true);
+    scheduler.stop();
+    finish(completed);
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.status().active).toBe(false);
+  });
+});
+
+describe('detectQuotaPause', () => {
+  const now = new Date('2025-11-05T07:00:00Z');
+
+  it('backs off when every request was throttled', () => {
+    const stats = { succeeded: 0, failures: [{ status: 429 }, { status: 429 }] };
+    expect(detectQuotaPause(stats, now, 1000).until).toEqual(new Date('2025-11-05T07:00:01Z'));
+  });
+
+  it('ignores ordinary failures', () => {
+    expect(detectQuotaPause({ succeeded: 0, failures: [{ status: 429 }, { status: 500 }] }, now)).toBeNull();
+    expect(detectQuotaPause({ succeeded: 20, failures: [{ status: 429 }] }, now)).toBeNull();
+  });
+});
+
+describe('parseScheduleList', () => {
+  it('splits expressions on semicolons', () => {
+    expect(parseScheduleList('*/5 7-9 * * 1-5; */30 * * * *;')).toEqual(['*/5 7-9 * * 1-5', '*/30 * * * *']);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeSegmentTimeline,
+  getAllowedDirectionsAt,
+  getSegmentsAt,
+  resolveSegmentConfiguration,
+} from '../src/segmentRegistry.js';
+import {
+  deriveFlowMetrics,
+  refreshSegmentMetadata,
+  resolveConfigurationStamp,
+} from '../scripts/enrich_flows.js';
+import { streetSegments } from '../src/segments.js';
+
+const versionedSegment = {
+  id: 'versioned',
+  name: 'Versioned',
+  endpoints: [
+    { latitude: 45.0, longitude: 9.0 },
+    { latitude: 45.0, longitude: 9.001 },
+  ],
+  metadata: { lanes: 1, allowedDirections: ['reverse'] },
+  periods: [
+    {
+      effectiveFrom: '2025-01-01T00:00:00Z',
+      effectiveTo: '2025-02-01T00:00:00Z',
+      metadata: { lanes: 2, allowedDirections: ['forward', 'reverse'] },
+    },
+  ],
+};
+
+describe('describeSegmentTimeline', () => {
+  it('fills the gaps around explicit periods with the base metadata', () => {
+    const timeline = describeSegmentTimeline(versionedSegment);
+    expect(timeline.map(({ effectiveFrom, effectiveTo }) => [effectiveFrom, effectiveTo])).toEqual([
+      [null, '2025-01-01T00:00:00Z'],
+      ['2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z'],
+      ['2025-02-01T00:00:00Z', null],
+    ]);
+    expect(timeline[1].metadata.lanes).toBe(2);
+    expect(timeline[2].metadata.allowedDirections).toEqual(['reverse']);
+  });
+
+  it('returns a single open period for unversioned segments', () => {
+    const timeline = describeSegmentTimeline({ ...versionedSegment, periods: undefined });
+    expect(timeline).toHaveLength(1);
+    expect(timeline[0].effectiveFrom).toBeNull();
+    expect(timeline[0].effectiveTo).toBeNull();
+  });
+
+  it('drops the calibrated capacity in periods that set their own', () => {
+    const calibration = { flowModel: { type: 'bpr', alpha: 0.3, beta: 3 }, laneCapacityVph: 400 };
+    const timeline = describeSegmentTimeline({
+      ...versionedSegment,
+      calibration,
+      periods: [
+        { ...versionedSegment.periods[0], metadata: { lanes: 2, laneCapacityVph: 1200 } },
+      ],
+    });
+    expect(timeline[0].calibration).toEqual(calibration);
+    expect(timeline[1].calibration).toEqual({ flowModel: calibration.flowModel });
+    expect(timeline[2].calibration).toEqual(calibration);
+  });
+});
+
+describe('resolveSegmentConfiguration', () => {
+  it('uses the period active at the requested instant', () => {
+    const during = resolveSegmentConfiguration(versionedSegment, '2025-01-15T08:00:00Z');
+    expect(during.metadata.allowedDirections).toEqual(['forward', 'reverse']);
+    expect(during.configurationPeriod.effectiveTo).toBe('2025-02-01T00:00:00Z');
+
+    const after = resolveSegmentConfiguration(versionedSegment, '2025-02-01T00:00:00Z');
+    expect(after.metadata.allowedDirections).toEqual(['reverse']);
+    expect(after.configurationPeriod.effectiveTo).toBeNull();
+  });
+
+  it('keeps via-milano two-way before the one-way change', () => {
+    expect(getAllowedDirectionsAt('via-milano', '2025-10-30T10:30:00Z')).toEqual(['forward', 'reverse']);
+    expect(getAllowedDirectionsAt('via-milano', '2025-11-05T08:00:00Z')).toEqual(['reverse']);
+    expect(getAllowedDirectionsAt('unknown-segment', '2025-11-05T08:00:00Z')).toBeNull();
+  });
+
+  it('resolves the whole network at once', () => {
+    const segments = getSegmentsAt('2025-10-30T10:30:00Z');
+    const corridoni = segments.find((segment) => segment.id === 'via-filippo-corridoni');
+    expect(corridoni.metadata.allowedDirections).toEqual(['forward', 'reverse']);
+  });
+});
+
+describe('historical enrichment', () => {
+  it('stamps missing allowed directions from the registry', () => {
+    const stamp = resolveConfigurationStamp({
+      segmentId: 'via-milano',
+      requestedAt: '2025-10-30T10:30:00Z',
+    });
+    expect(stamp.allowedDirections).toEqual(['forward', 'reverse']);
+    expect(stamp.configurationPeriod.effectiveTo).toBe('2025-10-31T14:00:00Z');
+  });
+
+  it('keeps directions already stamped by the poller', () => {
+    const stamp = resolveConfigurationStamp({
+      segmentId: 'via-milano',
+      requestedAt: '2025-11-05T08:00:00Z',
+      allowedDirections: ['reverse'],
+    });
+    expect(stamp.allowedDirections).toEqual(['reverse']);
+  });
+
+  it('derives capacity from the configuration in force at request time', () => {
+    streetSegments.push(versionedSegment);
+    refreshSegmentMetadata();
+    try {
+      const base = { segmentId: 'versioned', durationSeconds: 60, staticDurationSeconds: 40 };
+      expect(deriveFlowMetrics({ ...base, requestedAt: '2025-01-15T08:00:00Z' }).capacityVph).toBe(1800);
+      expect(deriveFlowMetrics({ ...base, requestedAt: '2025-03-01T08:00:00Z' }).capacityVph).toBe(900);
+    } finally {
+      streetSegments.splice(streetSegments.indexOf(versionedSegment), 1);
+      refreshSegmentMetadata();
+    }
+  });
+});
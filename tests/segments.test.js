@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { computeSegmentLengthMeters } from '../scripts/enrich_flows.js';
 import { streetSegments } from '../src/segments.js';
 
 const VALID_DIRECTIONS = new Set(['forward', 'reverse']);
@@ -16,3 +17,36 @@ describe('street segment configuration', () => {
     }
   });
 });
+
+describe('street segment configuration periods', () => {
+  it('declares ordered, non-overlapping periods with valid directions', () => {
+    for (const segment of streetSegments) {
+      const periods = segment.periods ?? [];
+      let previousEnd = null;
+      for (const period of periods) {
+        const from = period.effectiveFrom ? new Date(period.effectiveFrom).getTime() : -Infinity;
+        const to = period.effectiveTo ? new Date(period.effectiveTo).getTime() : Infinity;
+        expect(Number.isNaN(from) || Number.isNaN(to)).toBe(false);
+        expect(from).toBeLessThan(to);
+        if (previousEnd != null) {
+          expect(from).toBeGreaterThanOrEqual(previousEnd);
+        }
+        previousEnd = to;
+        for (const entry of period.metadata?.allowedDirections ?? []) {
+          expect(VALID_DIRECTIONS.has(entry)).toBe(true);
+        }
+      }
+    }
+  });
+});
+
+describe('street segment geometry', () => {
+  it('runs from the first endpoint to the second when imported', () => {
+    for (const segment of streetSegments) {
+      if (segment.geometry == null) continue;
+      const [start, end] = segment.endpoints;
+      expect(computeSegmentLengthMeters([segment.geometry[0], start])).toBeLessThan(1);
+      expect(computeSegmentLengthMeters([segment.geometry[segment.geometry.length - 1], end])).toBeLessThan(1);
+    }
+  });
+});
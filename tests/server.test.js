@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createControlServer } from '../server/index.js';
+import { createFakeProviderFromConfig } from '../src/providers/fake.js';
+import { createStorage } from '../src/storage/index.js';
+
+const rows = [
+  { segmentId: 'via-pontida', direction: 'forward', requestedAt: '2025-11-05T07:05:00Z', durationSeconds: 60, staticDurationSeconds: 40, derivedFlowVph: 600 },
+  { segmentId: 'via-pontida', direction: 'reverse', requestedAt: '2025-11-05T07:06:00Z', durationSeconds: 45, staticDurationSeconds: 40, derivedFlowVph: 300 },
+  { segmentId: 'via-milano', direction: 'reverse', requestedAt: '2025-11-05T09:06:00Z', durationSeconds: 30, staticDurationSeconds: 30, derivedFlowVph: 0 },
+];
+
+let server;
+let baseUrl;
+let tmpDir;
+let dataFile;
+
+beforeAll(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'server-'));
+  dataFile = path.join(tmpDir, 'samples.jsonl');
+  await fs.writeFile(dataFile, `${rows.map((row) => JSON.stringify(row)).join('\n')}\n`, 'utf8');
+  server = createControlServer({
+    storage: await createStorage({ backend: 'jsonl', jsonlFile: dataFile }),
+    fieldCountsFile: path.join(tmpDir, 'field_counts.csv'),
+  });
+  await new Promise((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('control server read API', () => {
+  it('lists current segments with computed capacity and length', async () => {
+    const response = await fetch(`${baseUrl}/segments`);
+    const { segments } = await response.json();
+    const pontida = segments.find((segment) => segment.id === 'via-pontida');
+    expect(pontida.capacityVph).toBe(750);
+    expect(pontida.lengthMeters).toBeGreaterThan(300);
+    const milano = segments.find((segment) => segment.id === 'via-milano');
+    expect(milano.allowedDirections).toEqual(['reverse']);
+  });
+
+  it('describes the intersection graph with its turns and validation problems', async () => {
+    const { nodes, turns, problems } = await (await fetch(`${baseUrl}/network`)).json();
+    const junction = nodes.find((node) => node.id === 'sant-ambrogio-milani-pontida');
+    expect(junction.endpoints).toHaveLength(3);
+    expect(turns.some((turn) => turn.nodeId === junction.id && turn.allowed)).toBe(true);
+    expect(problems.every((problem) => typeof problem.message === 'string')).toBe(true);
+  });
+
+  it('streams filtered samples as JSON lines', async () => {
+    const response = await fetch(`${baseUrl}/samples?segmentId=via-pontida&direction=reverse`);
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+    const lines = (await response.text()).trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).derivedFlowVph).toBe(300);
+  });
+
+  it('returns hourly aggregates', async () => {
+    const response = await fetch(`${baseUrl}/aggregates?interval=hour&to=2025-11-05T08:00:00Z`);
+    const { aggregates } = await response.json();
+    expect(aggregates).toHaveLength(2);
+    expect(aggregates[0].meanRatio).toBeCloseTo(1.5);
+  });
+
+  it('times a route between two intersections', async () => {
+    const response = await fetch(`${baseUrl}/routes/travel-time?from=sant-ambrogio-milani-pontida&to=via-pontida:end&at=2025-11-05T07:10:00Z`);
+    const body = await response.json();
+    expect(body.snapshot.travelTimeSeconds).toBe(60);
+    expect(body.snapshot.legs.map((leg) => leg.linkId)).toEqual(['via-pontida:forward']);
+    expect(body.series).toHaveLength(1);
+    expect(body.typicalWeek).toHaveLength(168);
+
+    expect((await fetch(`${baseUrl}/routes/travel-time?from=sant-ambrogio-milani-pontida`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/routes/travel-time?from=via-pontida:end&to=via-milano:end`)).status).toBe(404);
+    const { entries } = await (await fetch(`${baseUrl}/routes/matrix?at=2025-11-05T07:10:00Z`)).json();
+    expect(entries.some((entry) => entry.travelTimeSeconds != null)).toBe(true);
+  });
+
+  it('rejects invalid query parameters', async () => {
+    expect((await fetch(`${baseUrl}/samples?direction=sideways`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/aggregates?interval=week`)).status).toBe(400);
+  });
+});
+
+describe('control server schedule API', () => {
+  async function postSchedule(body) {
+    return fetch(`${baseUrl}/schedule`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('starts paused and can be resumed, re-scheduled and paused', async () => {
+    const initial = await (await fetch(`${baseUrl}/schedule`)).json();
+    expect(initial).toMatchObject({ paused: true, active: false, nextRunAt: null });
+
+    const resumed = await (await postSchedule({ action: 'resume', expressions: ['0 3 1 1 *'] })).json();
+    expect(resumed).toMatchObject({ paused: false, active: true, expressions: ['0 3 1 1 *'] });
+    expect(new Date(resumed.nextRunAt).getMonth()).toBe(0);
+
+    const paused = await (await postSchedule({ action: 'pause' })).json();
+    expect(paused).toMatchObject({ paused: true, active: false, nextRunAt: null });
+  });
+
+  it('rejects invalid schedules and actions', async () => {
+    expect((await postSchedule({ expressions: ['every 5 minutes'] })).status).toBe(400);
+    expect((await postSchedule({ action: 'restart' })).status).toBe(400);
+    const malformed = await fetch(`${baseUrl}/schedule`, { method: 'POST', body: '{' });
+    expect(malformed.status).toBe(400);
+    for (const body of ['null', '"pause"', '42', '[]']) {
+      const response = await fetch(`${baseUrl}/schedule`, { method: 'POST', body });
+      expect(response.status).toBe(400);
+      expect((await response.json()).message).toMatch(/JSON object/);
+    }
+    expect((await fetch(`${baseUrl}/schedule`)).status).toBe(200);
+  });
+});
+
+describe('control server field counts API', () => {
+  it('stores a CSV counting sheet and JSON rows', async () => {
+    const csv =
+      'segmentId,direction,observationStart,observationEnd,observedVehicles\n' +
+      'via-pontida,forward,2025-11-05T07:00:00Z,2025-11-05T07:15:00Z,60\n' +
+      'via-pontida,forward,2025-11-05T07:15:00Z,2025-11-05T07:30:00Z,70\n';
+    const sheet = await fetch(`${baseUrl}/field-counts?source=sheet.csv`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: csv,
+    });
+    expect(sheet.status).toBe(201);
+    expect(await sheet.json()).toMatchObject({ success: true, imported: 2, total: 2 });
+
+    const posted = await fetch(`${baseUrl}/field-counts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        counts: [
+          {
+            segmentId: 'via-pontida',
+            direction: 'reverse',
+            observationStart: '2025-11-05T07:00:00Z',
+            observationEnd: '2025-11-05T08:00:00Z',
+            observedVehicles: 225,
+          },
+        ],
+      }),
+    });
+    expect(await posted.json()).toMatchObject({ imported: 1, total: 3 });
+    const stored = await fs.readFile(path.join(tmpDir, 'field_counts.csv'), 'utf8');
+    expect(stored.trim().split('\n')).toHaveLength(4);
+  });
+
+  it('validates the derived flows against the stored counts', async () => {
+    const response = await fetch(`${baseUrl}/validation?to=2025-11-06T00:00:00Z`);
+    expect(response.status).toBe(200);
+    const { segments, windows } = await response.json();
+    expect(windows).toHaveLength(2);
+    expect(segments[0]).toMatchObject({ segmentId: 'via-pontida', exceedsGeh: true });
+    expect((await fetch(`${baseUrl}/validation?from=yesterday`)).status).toBe(400);
+  });
+
+  it('lists incidents, none without enough history for a typical week', async () => {
+    const response = await fetch(`${baseUrl}/incidents?segmentId=via-pontida`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ from: null, to: null, incidents: [] });
+    expect((await fetch(`${baseUrl}/incidents?to=tomorrow`)).status).toBe(400);
+  });
+
+  it('scores samples against the typical week, none without enough history', async () => {
+    const response = await fetch(`${baseUrl}/typical?segmentId=via-pontida&from=2025-11-05T07:00:00Z`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ from: '2025-11-05T07:00:00.000Z', to: null, scores: [] });
+    expect((await fetch(`${baseUrl}/typical?direction=up`)).status).toBe(400);
+  });
+
+  it('forecasts a link, carrying its latest ratio forward without a typical week', async () => {
+    const response = await fetch(`${baseUrl}/forecast?segmentId=via-pontida&direction=forward`);
+    expect(response.status).toBe(200);
+    const forecast = await response.json();
+    expect(forecast).toMatchObject({ issuedAt: '2025-11-05T07:05:00.000Z', latest: { ratio: 1.5 } });
+    expect(forecast.points).toHaveLength(8);
+    expect(forecast.points[0]).toMatchObject({ horizonMinutes: 15, ratio: 1.5, basis: 'latest', durationSeconds: 60 });
+    expect(forecast.backtest.horizons).toEqual([]);
+    expect((await fetch(`${baseUrl}/forecast?segmentId=via-milano&direction=forward`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/forecast?segmentId=via-nowhere&direction=forward`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/forecast?segmentId=via-pontida&direction=up`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/forecast?segmentId=via-pontida&direction=forward&at=2025-11-05T07:00:00Z`)).status).toBe(404);
+  });
+
+  it('refits forecasts once another process adds samples', async () => {
+    const forecastUrl = `${baseUrl}/forecast?segmentId=via-milano&direction=reverse`;
+    expect((await (await fetch(forecastUrl)).json()).latest.ratio).toBe(1);
+    await fs.appendFile(dataFile, `${JSON.stringify({ ...rows[2], requestedAt: '2025-11-05T09:21:00Z', durationSeconds: 45 })}\n`);
+    const forecast = await (await fetch(forecastUrl)).json();
+    expect(forecast.latest).toMatchObject({ requestedAt: '2025-11-05T09:21:00Z', ratio: 1.5 });
+  });
+
+  it('rejects invalid counts with every problem', async () => {
+    const response = await fetch(`${baseUrl}/field-counts?source=sheet.csv`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: 'segmentId,direction,observationStart,observationEnd,observedVehicles\n' +
+        'via-pontida,forward,2025-11-05T07:00:00Z,2025-11-05T07:15:00Z,60\n' +
+        'via-milano,forward,2025-11-05T07:00:00Z,2025-11-05T08:00:00Z,60\n',
+    });
+    expect(response.status).toBe(400);
+    const { problems } = await response.json();
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toMatch(/overlaps/);
+    expect(problems[1]).toMatch(/forward traffic is not allowed on via-milano/);
+    expect((await fetch(`${baseUrl}/field-counts`, { method: 'POST', body: '{' })).status).toBe(400);
+  });
+});
+
+describe('control server on SQLite', () => {
+  const env = ['POLL_RUNS_FILE', 'POLL_BUDGET_FILE', 'POLL_MIN_INTERVAL_MS'];
+  const savedEnv = {};
+  let sqliteServer;
+  let sqliteUrl;
+
+  beforeAll(async () => {
+    for (const name of env) savedEnv[name] = process.env[name];
+    process.env.POLL_RUNS_FILE = path.join(tmpDir, 'poll_runs.jsonl');
+    process.env.POLL_BUDGET_FILE = path.join(tmpDir, 'budget.json');
+    process.env.POLL_MIN_INTERVAL_MS = '0';
+
+    const storage = await createStorage({ backend: 'sqlite', sqliteFile: path.join(tmpDir, 'samples.sqlite') });
+    const start = Date.parse('2025-11-05T00:00:00Z');
+    await storage.appendSamples(
+      Array.from({ length: 20000 }, (_, index) => ({
+        ...rows[0],
+        requestedAt: new Date(start + index * 1000).toISOString(),
+      })),
+    );
+    sqliteServer = createControlServer({
+      storage,
+      provider: createFakeProviderFromConfig({ seed: 'test' }),
+      fieldCountsFile: path.join(tmpDir, 'field_counts.csv'),
+    });
+    await new Promise((resolve) => sqliteServer.listen(0, resolve));
+    sqliteUrl = `http://127.0.0.1:${sqliteServer.address().port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => sqliteServer.close(resolve));
+    for (const name of env) {
+      if (savedEnv[name] === undefined) delete process.env[name];
+      else process.env[name] = savedEnv[name];
+    }
+  });
+
+  it('still polls after a client aborts a sample stream', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${sqliteUrl}/samples`, { signal: controller.signal });
+    const reader = response.body.getReader();
+    expect((await reader.read()).done).toBe(false);
+    controller.abort();
+    await reader.closed.catch(() => {});
+
+    const poll = await fetch(`${sqliteUrl}/poll`, { method: 'POST' });
+    const body = await poll.json();
+    expect(poll.status).toBe(200);
+    expect(body.count).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyScenario,
+  buildNetworkGraph,
+  evaluateScenario,
+  linkId,
+  summariseObservations,
+} from '../src/simulator.js';
+import { streetSegments } from '../src/segments.js';
+
+function sample(segmentId, direction, durationSeconds, staticDurationSeconds, requestedAt) {
+  return {
+    segmentId,
+    direction,
+    requestedAt: requestedAt ?? '2025-11-05T07:30:00.000Z',
+    durationSeconds,
+    staticDurationSeconds,
+  };
+}
+
+describe('buildNetworkGraph', () => {
+  it('creates one link per allowed direction', () => {
+    const { links } = buildNetworkGraph();
+    expect(links.has(linkId('via-pontida', 'forward'))).toBe(true);
+    expect(links.has(linkId('via-pontida', 'reverse'))).toBe(true);
+    expect(links.has(linkId('via-milano', 'reverse'))).toBe(true);
+    expect(links.has(linkId('via-milano', 'forward'))).toBe(false);
+  });
+
+  it('joins segments sharing an endpoint at the same node', () => {
+    const { nodes, links } = buildNetworkGraph();
+    const santAmbrogio = links.get(linkId('via-sant-ambrogio', 'forward'));
+    const pontida = links.get(linkId('via-pontida', 'forward'));
+    expect(santAmbrogio.to).toBe(pontida.from);
+    expect(nodes.get(pontida.from).outgoing).toContain(pontida.id);
+  });
+
+  it('merges nearby endpoints into one intersection with turn movements', () => {
+    const { nodes, links, turns } = buildNetworkGraph();
+    const ghezzi = nodes.get('piazza-ghezzi');
+    expect(ghezzi.endpoints.map((endpoint) => endpoint.segmentId).sort()).toEqual([
+      'piazza-ghezzi',
+      'plesso-scolastico-sud-est',
+      'via-don-primo-mazzolari',
+    ]);
+    expect(links.get(linkId('via-don-primo-mazzolari', 'forward')).to).toBe('piazza-ghezzi');
+    const uTurn = turns.get(`${linkId('piazza-ghezzi', 'reverse')}>${linkId('piazza-ghezzi', 'forward')}`);
+    expect(uTurn.allowed).toBe(false);
+  });
+});
+
+describe('applyScenario', () => {
+  it('overrides metadata without mutating the baseline', () => {
+    const edited = applyScenario(streetSegments, {
+      edits: [{ segmentId: 'via-pontida', allowedDirections: ['forward'] }],
+    });
+    const original = streetSegments.find((segment) => segment.id === 'via-pontida');
+    const updated = edited.find((segment) => segment.id === 'via-pontida');
+    expect(updated.metadata.allowedDirections).toEqual(['forward']);
+    expect(original.metadata.allowedDirections).toEqual(['forward', 'reverse']);
+  });
+
+  it('lets an edited lane capacity replace the calibrated one', () => {
+    const calibrated = streetSegments.map((segment) =>
+      segment.id === 'via-pontida'
+        ? {
+            ...segment,
+            calibration: { flowModel: { type: 'bpr', alpha: 0.3, beta: 3 }, laneCapacityVph: 400 },
+          }
+        : segment,
+    );
+    const pontida = linkId('via-pontida', 'forward');
+    const lanes = calibrated.find((segment) => segment.id === 'via-pontida').metadata.lanes ?? 1;
+    expect(buildNetworkGraph(calibrated).links.get(pontida).capacityVph).toBe(400 * lanes);
+
+    const edited = applyScenario(calibrated, {
+      edits: [{ segmentId: 'via-pontida', laneCapacityVph: 1000 }],
+    });
+    const link = buildNetworkGraph(edited).links.get(pontida);
+    expect(link.capacityVph).toBe(1000 * lanes);
+    expect(link.flowModel.alpha).toBe(0.3);
+  });
+
+  it('keeps a non-BPR delay model under a BPR calibration', () => {
+    const calibrated = streetSegments.map((segment) =>
+      segment.id === 'via-pontida'
+        ? {
+            ...segment,
+            metadata: { ...segment.metadata, flowModel: { type: 'davidson' } },
+            calibration: { flowModel: { type: 'bpr', alpha: 0.3, beta: 3 }, laneCapacityVph: 400 },
+          }
+        : segment,
+    );
+    const link = buildNetworkGraph(calibrated).links.get(linkId('via-pontida', 'forward'));
+    expect(link.flowModel.type).toBe('davidson');
+  });
+});
+
+describe('summariseObservations', () => {
+  it('averages samples per link inside the requested window', () => {
+    const observations = summariseObservations(
+      [
+        sample('via-pontida', 'forward', 60, 40),
+        sample('via-pontida', 'forward', 80, 40),
+        sample('via-pontida', 'forward', 200, 40, '2025-11-06T07:30:00.000Z'),
+      ],
+      { to: '2025-11-05T23:59:59.000Z' },
+    );
+    const pontida = observations.get(linkId('via-pontida', 'forward'));
+    expect(pontida.sampleCount).toBe(2);
+    expect(pontida.meanDurationSeconds).toBe(70);
+    expect(pontida.meanFlowVph).toBeGreaterThan(0);
+    expect(pontida.flowSampleCount).toBe(2);
+  });
+
+  it('leaves route-deviated samples out', () => {
+    const observations = summariseObservations([
+      sample('via-pontida', 'forward', 60, 40),
+      { ...sample('via-pontida', 'forward', 300, 120), routeDeviation: { lengthRatio: 2.4 } },
+    ]);
+    const pontida = observations.get(linkId('via-pontida', 'forward'));
+    expect(pontida.sampleCount).toBe(1);
+    expect(pontida.meanDurationSeconds).toBe(60);
+    expect(pontida.meanStaticDurationSeconds).toBe(40);
+  });
+});
+
+describe('evaluateScenario', () => {
+  const samples = [
+    sample('via-pontida', 'forward', 60, 40),
+    sample('via-pontida', 'reverse', 50, 40),
+    sample('via-leonardo-da-vinci', 'forward', 90, 60),
+  ];
+
+  it('reports the removed direction and its displaced flow', () => {
+    const result = evaluateScenario(
+      { id: 'pontida-forward', edits: [{ segmentId: 'via-pontida', allowedDirections: ['forward'] }] },
+      { samples },
+    );
+    const reverse = result.links.find((link) => link.linkId === linkId('via-pontida', 'reverse'));
+    expect(reverse.status).toBe('removed');
+    expect(reverse.scenario).toBeNull();
+    expect(reverse.delta.flowVph).toBeLessThan(0);
+    expect(result.summary.removedLinks).toBe(1);
+    expect(result.summary.displacedFlowVph).toBeCloseTo(-reverse.delta.flowVph);
+  });
+
+  it('raises v/c and travel time when lanes are dropped', () => {
+    const result = evaluateScenario(
+      { id: 'da-vinci-one-lane', edits: [{ segmentId: 'via-leonardo-da-vinci', lanes: 1 }] },
+      { samples },
+    );
+    const forward = result.links.find(
+      (link) => link.linkId === linkId('via-leonardo-da-vinci', 'forward'),
+    );
+    expect(forward.status).toBe('modified');
+    expect(forward.scenario.capacityVph).toBe(1000);
+    expect(forward.delta.volumeCapacityRatio).toBeGreaterThan(0);
+    expect(forward.delta.travelTimeSeconds).toBeGreaterThan(0);
+    expect(forward.delta.flowVph).toBe(0);
+  });
+
+  it('lists turn changes and the network problems a scenario introduces', () => {
+    const result = evaluateScenario(
+      {
+        id: 'no-milani-kolbe',
+        edits: [],
+        turns: [
+          { node: 'milani-kolbe', from: 'via-padre-kolbe', to: 'via-don-lorenzo-milani', banned: true },
+          { node: 'milani-kolbe', from: 'plesso-scolastico-sud-ovest', to: 'via-don-lorenzo-milani', banned: true },
+        ],
+      },
+      { samples },
+    );
+    expect(result.summary.changedTurns).toBe(2);
+    expect(result.turns[0]).toMatchObject({
+      nodeId: 'milani-kolbe',
+      baseline: { allowed: true },
+      scenario: { allowed: false },
+    });
+    expect(result.network.introducedProblems).toContainEqual(
+      expect.objectContaining({ type: 'unreachable-link', linkId: linkId('via-don-lorenzo-milani', 'forward') }),
+    );
+    expect(result.summary.introducedNetworkProblems).toBe(result.network.introducedProblems.length);
+  });
+
+  it('leaves untouched links unchanged', () => {
+    const result = evaluateScenario({ id: 'noop', edits: [] }, { samples });
+    expect(result.links.every((link) => link.status === 'unchanged')).toBe(true);
+    expect(result.summary.vehicleHoursDelta).toBeCloseTo(0);
+  });
+
+  it('reroutes the OD demand through the equilibrium assignment', () => {
+    const O = { latitude: 45.0, longitude: 9.0 };
+    const M = { latitude: 45.001, longitude: 9.001 };
+    const D = { latitude: 45.0, longitude: 9.002 };
+    const segment = (id, start, end, laneCapacityVph) => ({
+      id,
+      name: id,
+      endpoints: [start, end],
+      geometry: null,
+      metadata: { lanes: 1, laneCapacityVph, speedLimitKph: 36, allowedDirections: ['forward'] },
+    });
+    const segments = [segment('direct', O, D, 400), segment('o-m', O, M, 1800), segment('m-d', M, D, 1800)];
+    const demand = { name: 'test', trips: [{ from: 'direct:start+o-m:start', to: 'direct:end+m-d:end', vph: 800 }] };
+
+    const result = evaluateScenario(
+      { id: 'close-direct', edits: [{ segmentId: 'direct', closed: true }] },
+      { samples: [], segments, demand },
+    );
+    const detour = result.assignment.links.find((link) => link.linkId === linkId('o-m', 'forward'));
+    expect(detour.baseline.flowVph).toBeGreaterThan(0);
+    expect(detour.baseline.flowVph).toBeLessThan(800);
+    expect(detour.scenario.flowVph).toBeCloseTo(800);
+    expect(result.assignment.baseline.converged).toBe(true);
+    expect(result.summary.assignedVehicleHoursDelta).toBeGreaterThan(0);
+    expect(result.summary.unassignedDemandVph).toBe(0);
+    expect(evaluateScenario({ id: 'noop', edits: [] }, { samples }).assignment).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createStorage } from '../src/storage/index.js';
+import { migrateSamples } from '../scripts/migrate_storage.js';
+
+const samples = [
+  { segmentId: 'via-pontida', direction: 'forward', requestedAt: '2025-11-05T07:05:00.000Z', durationSeconds: 60 },
+  { segmentId: 'via-pontida', direction: 'reverse', requestedAt: '2025-11-05T07:06:00.000Z', durationSeconds: 45 },
+  { segmentId: 'via-milano', direction: 'reverse', requestedAt: '2025-11-05T09:06:00.000Z', durationSeconds: 30 },
+];
+
+let tmpDir;
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+async function collect(iterable) {
+  const rows = [];
+  for await (const row of iterable) rows.push(row);
+  return rows;
+}
+
+function openStorage(backend) {
+  return createStorage({
+    backend,
+    jsonlFile: path.join(tmpDir, 'samples.jsonl'),
+    sqliteFile: path.join(tmpDir, 'samples.sqlite'),
+  });
+}
+
+describe.each(['jsonl', 'sqlite'])('%s storage', (backend) => {
+  it('appends and filters samples', async () => {
+    const storage = await openStorage(backend);
+    await storage.appendSamples(samples);
+    expect(await storage.countSamples()).toBe(3);
+
+    const pontidaForward = await collect(
+      storage.readSamples({ segmentId: 'via-pontida', direction: 'forward' }),
+    );
+    expect(pontidaForward).toEqual([samples[0]]);
+
+    const late = await collect(storage.readSamples({ fromMs: Date.parse('2025-11-05T08:00:00Z') }));
+    expect(late.map((sample) => sample.segmentId)).toEqual(['via-milano']);
+    await storage.close();
+  });
+
+  it('rewrites only the samples the transform returns', async () => {
+    const storage = await openStorage(backend);
+    await storage.appendSamples(samples);
+    const result = await storage.transformSamples((sample) =>
+      sample.segmentId === 'via-milano' ? { ...sample, durationSeconds: 99 } : null,
+    );
+    expect(result).toMatchObject({ total: 3, updated: 1 });
+    const rows = await collect(storage.readSamples({ segmentId: 'via-milano' }));
+    expect(rows[0].durationSeconds).toBe(99);
+    await storage.close();
+  });
+
+  it('reads long histories across pages', async () => {
+    const storage = await openStorage(backend);
+    const start = Date.parse('2025-11-05T00:00:00Z');
+    // Pairs of samples share a timestamp, so pages must not split or repeat them.
+    const many = Array.from({ length: 2501 }, (_, index) => ({
+      ...samples[0],
+      requestedAt: new Date(start + Math.floor(index / 2) * 1000).toISOString(),
+      index,
+    }));
+    await storage.appendSamples(many);
+    const rows = await collect(storage.readSamples({ segmentId: 'via-pontida' }));
+    expect(rows.map((row) => row.index)).toEqual(many.map((sample) => sample.index));
+    await storage.close();
+  });
+
+  it('changes its revision on every write', async () => {
+    const storage = await openStorage(backend);
+    const revisions = [await storage.revision()];
+    await storage.appendSamples(samples);
+    revisions.push(await storage.revision());
+    expect(await storage.revision()).toBe(revisions[1]);
+    await storage.transformSamples((sample) => ({ ...sample, durationSeconds: 1 }));
+    revisions.push(await storage.revision());
+    await storage.clear();
+    revisions.push(await storage.revision());
+    expect(revisions.every((revision, index) => index === 0 || revision !== revisions[index - 1])).toBe(true);
+    await storage.close();
+  });
+
+  it('reads nothing from an empty store', async () => {
+    const storage = await openStorage(backend);
+    expect(await collect(storage.readSamples())).toEqual([]);
+    expect(await storage.transformSamples(() => null)).toMatchObject({ total: 0, updated: 0 });
+    await storage.close();
+  });
+});
+
+describe('jsonl rewrites', () => {
+  it('keeps a bounded set of rotated backups', async () => {
+    const file = path.join(tmpDir, 'samples.jsonl');
+    const storage = await createStorage({ backend: 'jsonl', jsonlFile: file, jsonlBackupCount: 2 });
+    await storage.appendSamples(samples);
+
+    for (let run = 1; run <= 3; run += 1) {
+      const result = await storage.transformSamples((sample) => ({ ...sample, run }));
+      expect(result.backupFile).toBe(path.join(tmpDir, 'samples.backup.1.jsonl'));
+    }
+
+    const files = (await fs.readdir(tmpDir)).sort();
+    expect(files).toEqual(['samples.backup.1.jsonl', 'samples.backup.2.jsonl', 'samples.jsonl']);
+    const newestBackup = await fs.readFile(path.join(tmpDir, 'samples.backup.1.jsonl'), 'utf8');
+    expect(JSON.parse(newestBackup.split('\n')[0]).run).toBe(2);
+    const rows = await collect(storage.readSamples());
+    expect(rows.every((sample) => sample.run === 3)).toBe(true);
+  });
+
+  it('leaves the file and backups untouched when nothing changes', async () => {
+    const storage = await openStorage('jsonl');
+    await storage.appendSamples(samples);
+    expect(await storage.transformSamples(() => null)).toMatchObject({ updated: 0, backupFile: null });
+    expect(await fs.readdir(tmpDir)).toEqual(['samples.jsonl']);
+  });
+});
+
+describe('createStorage', () => {
+  it('rejects unknown backends', async () => {
+    await expect(createStorage({ backend: 'postgres' })).rejects.toThrow(/Unknown storage backend/);
+  });
+});
+
+describe('migrateSamples', () => {
+  it('copies JSONL samples into SQLite and refuses to overwrite without force', async () => {
+    const source = await openStorage('jsonl');
+    const target = await openStorage('sqlite');
+    await source.appendSamples(samples);
+
+    expect(await migrateSamples(source, target)).toEqual({ copied: 3 });
+    expect(await target.countSamples()).toBe(3);
+    await expect(migrateSamples(source, target)).rejects.toThrow(/--force/);
+    expect(await migrateSamples(source, target, { force: true })).toEqual({ copied: 3 });
+    expect(await target.countSamples()).toBe(3);
+
+    await source.close();
+    await target.close();
+  });
+});
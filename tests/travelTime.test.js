@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRoutingGraphCache,
+  groupSnapshotDurations,
+  hourOfWeek,
+  queryOdMatrix,
+  queryRouteTravelTime,
+  TravelTimeQueryError,
+} from '../src/travelTime.js';
+
+const A = { latitude: 45.0, longitude: 9.0 };
+const B = { latitude: 45.0, longitude: 9.001 };
+const C = { latitude: 45.0, longitude: 9.002 };
+const D = { latitude: 45.001, longitude: 9.001 };
+
+function segment(id, start, end, allowedDirections = ['forward', 'reverse']) {
+  return {
+    id,
+    name: id,
+    endpoints: [start, end],
+    geometry: null,
+    metadata: { lanes: 1, laneCapacityVph: 800, speedLimitKph: 36, allowedDirections },
+  };
+}
+
+// A main street A–C with a side street leaving its midpoint B towards D.
+const segments = [segment('a-c', A, C), segment('b-d', B, D, ['reverse'])];
+
+function sample(segmentId, direction, snapshotAt, durationSeconds, extra = {}) {
+  return { segmentId, direction, snapshotAt, requestedAt: snapshotAt, durationSeconds, staticDurationSeconds: 10, ...extra };
+}
+
+// Monday 3 November 2025, 08:15 and 09:15 in Rome.
+const samples = [
+  sample('a-c', 'reverse', '2025-11-03T07:15:00.000Z', 100),
+  sample('b-d', 'reverse', '2025-11-03T07:15:00.000Z', 30),
+  sample('a-c', 'reverse', '2025-11-03T08:15:00.000Z', 40),
+  sample('b-d', 'reverse', '2025-11-03T08:15:00.000Z', 300, { routeDeviation: { severity: 1 } }),
+  sample('a-c', 'reverse', '2025-11-10T07:15:00.000Z', 60),
+];
+
+function query(options) {
+  return queryRouteTravelTime({ samples, segments, from: 'b-d:end', to: 'a-c:start', ...options });
+}
+
+describe('hourOfWeek', () => {
+  it('counts local hours from Monday midnight', () => {
+    expect(hourOfWeek('2025-11-03T07:15:00Z')).toBe(8);
+    expect(hourOfWeek('2025-11-09T22:30:00Z')).toBe(167);
+    expect(hourOfWeek('2025-11-03T07:15:00Z', 'UTC')).toBe(7);
+  });
+});
+
+describe('groupSnapshotDurations', () => {
+  it('averages durations per snapshot and skips samples that left the segment', () => {
+    const snapshots = groupSnapshotDurations([
+      ...samples,
+      { segmentId: 'a-c', direction: 'forward', requestedAt: '2025-11-03T07:17:30.000Z', durationSeconds: 20 },
+      { segmentId: 'a-c', direction: 'forward', requestedAt: '2025-11-03T07:19:00.000Z', durationSeconds: 30 },
+    ]);
+    expect(snapshots.map((snapshot) => snapshot.snapshotAt)).toEqual([
+      '2025-11-03T07:15:00.000Z',
+      '2025-11-03T08:15:00.000Z',
+      '2025-11-10T07:15:00.000Z',
+    ]);
+    expect(snapshots[0].durations.get('a-c:forward')).toBe(25);
+    expect(snapshots[1].durations.has('b-d:reverse')).toBe(false);
+  });
+});
+
+describe('queryRouteTravelTime', () => {
+  it('chains the snapshot durations along the route, scaling cut segments', () => {
+    const result = query({ at: '2025-11-03T07:20:00Z' });
+    expect(result.from.name).toBe('b-d');
+    expect(result.snapshot.snapshotAt).toBe('2025-11-03T07:15:00.000Z');
+    expect(result.snapshot.legs.map((leg) => leg.linkId)).toEqual(['b-d:reverse', 'a-c:reverse']);
+    expect(result.snapshot.travelTimeSeconds).toBeCloseTo(30 + 50, 0);
+    expect(result.snapshot.legs[1].points[0].longitude).toBeCloseTo(B.longitude, 5);
+    expect(result.snapshot.unobservedLinkIds).toEqual([]);
+  });
+
+  it('falls back to free flow for unobserved links and averages the typical hour', () => {
+    const result = query({ at: '2025-11-03T08:20:00Z' });
+    expect(result.snapshot.unobservedLinkIds).toEqual(['b-d:reverse']);
+    expect(result.snapshot.travelTimeSeconds).toBeCloseTo(result.freeFlow.legs[0].travelTimeSeconds + 20, 0);
+
+    const monday = query({ at: '2025-11-17T07:20:00Z' });
+    expect(monday.snapshot).toBeNull();
+    expect(monday.typical.hourOfWeek).toBe(8);
+    expect(monday.typical.legs[1].travelTimeSeconds).toBeCloseTo(40, 0);
+    expect(monday.typicalWeek.filter((hour) => hour.travelTimeSeconds != null).map((hour) => hour.hourOfWeek)).toEqual([8, 9]);
+  });
+
+  it('returns the series between since and until', () => {
+    const result = query({ since: '2025-11-03T08:00:00Z' });
+    expect(result.series.map((entry) => entry.snapshotAt)).toEqual([
+      '2025-11-03T08:15:00.000Z',
+      '2025-11-10T07:15:00.000Z',
+    ]);
+    expect(result.series[0].unobservedLinkCount).toBe(1);
+  });
+
+  it('snaps coordinates to intersections and rejects unusable ends', () => {
+    expect(query({ from: '45.00095,9.00101' }).from.id).toBe('b-d:end');
+    expect(() => query({ from: '45.1,9.0' })).toThrow(TravelTimeQueryError);
+    expect(() => query({ from: 'nowhere' })).toThrow(TravelTimeQueryError);
+    expect(() => query({ to: 'b-d:end' })).toThrow(/same intersection/);
+    expect(() => query({ at: 'soon' })).toThrow(TravelTimeQueryError);
+    expect(query({ from: 'a-c:start', to: 'b-d:end' })).toBeNull();
+  });
+});
+
+describe('queryOdMatrix', () => {
+  it('times every ordered pair of intersections for the typical hour', () => {
+    const routingGraphs = createRoutingGraphCache(segments);
+    const matrix = queryOdMatrix({ samples, segments, routingGraphs, at: '2025-11-03T07:20:00Z' });
+    expect(matrix.nodes).toHaveLength(4);
+    expect(matrix.entries).toHaveLength(12);
+    const entry = matrix.entries.find((item) => item.fromNodeId === 'a-c:end' && item.toNodeId === 'a-c:start');
+    expect(entry.travelTimeSeconds).toBeCloseTo(80, 0);
+    expect(matrix.entries.find((item) => item.toNodeId === 'b-d:end').travelTimeSeconds).toBeNull();
+  });
+});
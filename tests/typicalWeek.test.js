@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { buildTypicalWeek, detectIncidents, scoreSample, scoreSamples, slotOfWeek } from '../src/typicalWeek.js';
+
+function sample(requestedAt, durationSeconds, extra = {}) {
+  return {
+    segmentId: 'via-test',
+    segmentName: 'Via Test',
+    direction: 'forward',
+    requestedAt,
+    durationSeconds,
+    staticDurationSeconds: 40,
+    ...extra,
+  };
+}
+
+// Four Mondays at 07:30 in Rome with ratios 1.1, 1.15, 1.05 and 1.1.
+const history = [
+  sample('2025-11-03T06:30:00Z', 44),
+  sample('2025-11-10T06:30:00Z', 46),
+  sample('2025-11-17T06:30:00Z', 42),
+  sample('2025-11-24T06:30:00Z', 44),
+];
+
+describe('slotOfWeek', () => {
+  it('counts local 15-minute slots from Monday midnight', () => {
+    expect(slotOfWeek('2025-11-03T06:30:00Z')).toBe(30);
+    expect(slotOfWeek('2025-11-09T22:50:00Z')).toBe(671);
+    expect(slotOfWeek('2025-11-03T06:30:00Z', 'UTC')).toBe(26);
+  });
+});
+
+describe('scoreSample', () => {
+  it('scores a sample against the same slot of other weeks', () => {
+    const slow = sample('2025-12-01T06:35:00Z', 80);
+    const score = scoreSample(buildTypicalWeek([...history, slow]), slow);
+    expect(score).toMatchObject({ slot: 30, ratio: 2, basis: 'weekday', baselineSamples: 4, percentile: 100 });
+    expect(score.typicalRatio).toBeCloseTo(1.1);
+    // The spread of the four ratios is below the 0.05 floor.
+    expect(score.zScore).toBeCloseTo(18);
+  });
+
+  it('falls back to the other weekdays and skips samples it cannot compare', () => {
+    const typicalWeek = buildTypicalWeek(history);
+    expect(scoreSample(typicalWeek, sample('2025-11-04T06:30:00Z', 44))).toMatchObject({
+      basis: 'weekdays',
+      baselineSamples: 4,
+      percentile: 50,
+    });
+    expect(scoreSample(typicalWeek, sample('2025-11-08T06:30:00Z', 44))).toBeNull();
+    expect(scoreSample(typicalWeek, sample('2025-12-01T06:30:00Z', 80, { routeDeviation: { severity: 1 } }))).toBeNull();
+  });
+});
+
+describe('scoreSamples', () => {
+  it('tags each scored sample with its link and time', () => {
+    const scores = scoreSamples(buildTypicalWeek(history), [
+      sample('2025-12-01T06:30:00Z', 60),
+      sample('2025-11-08T06:30:00Z', 44),
+    ]);
+    expect(scores).toHaveLength(1);
+    expect(scores[0]).toMatchObject({
+      segmentId: 'via-test',
+      direction: 'forward',
+      requestedAt: '2025-12-01T06:30:00Z',
+      ratio: 1.5,
+      basis: 'weekday',
+    });
+  });
+});
+
+describe('detectIncidents', () => {
+  const samples = [
+    ...history,
+    sample('2025-12-01T06:30:00Z', 80),
+    sample('2025-12-01T06:40:00Z', 46),
+    sample('2025-12-01T06:45:00Z', 72),
+    // Slow too, but nothing to compare it with at 09:30.
+    sample('2025-12-01T08:30:00Z', 80),
+  ];
+
+  it('merges nearby unusually slow samples of a link into one incident', () => {
+    const incidents = detectIncidents(samples);
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0]).toMatchObject({
+      segmentId: 'via-test',
+      segmentName: 'Via Test',
+      direction: 'forward',
+      start: '2025-12-01T06:30:00Z',
+      end: '2025-12-01T06:45:00Z',
+      sampleCount: 2,
+      peakRatio: 2,
+    });
+    expect(incidents[0].typicalRatio).toBeCloseTo(1.1);
+  });
+
+  it('reports only samples inside the window but keeps the whole history as baseline', () => {
+    const incidents = detectIncidents(samples, { from: '2025-12-01T06:40:00Z' });
+    expect(incidents).toMatchObject([{ start: '2025-12-01T06:45:00Z', sampleCount: 1 }]);
+    expect(detectIncidents(samples, { to: '2025-11-30T00:00:00Z' })).toEqual([]);
+  });
+});